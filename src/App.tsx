@@ -3,6 +3,9 @@ import { useEffect } from 'react';
 import Header from './components/Header';
 import SCity from './pages/SCity';
 import { Collaborators } from './pages/Collaborators';
+import { ReviewConsole } from './pages/Collaborators/ReviewConsole';
+import { ReferralLanding } from './pages/Collaborators/ReferralLanding';
+import { CollaboratorPublicProfile } from './pages/Collaborators/CollaboratorPublicProfile';
 import ComingSoon from './pages/ComingSoon';
 
 // Component to handle 404 redirects
@@ -34,6 +37,9 @@ function App() {
         <Routes>
           <Route path="/" element={<SCity />} />
           <Route path="/collaborators" element={<Collaborators />} />
+          <Route path="/collaborators/review" element={<ReviewConsole />} />
+          <Route path="/collaborators/u/:handle" element={<CollaboratorPublicProfile />} />
+          <Route path="/r/:code" element={<ReferralLanding />} />
           <Route path="/market" element={<ComingSoon title="Market" />} />
           <Route path="/restaurants" element={<ComingSoon title="Restaurants" />} />
           <Route path="/grocery" element={<ComingSoon title="Grocery" />} />
@@ -0,0 +1,75 @@
+import { fromTable, runListQuery } from './repository';
+import { isSupabaseConfigured } from './supabase';
+import { ok, type Result } from './result';
+import { mapAchievementRow, toAchievementRow, type AchievementRow } from './mappers';
+import type { Achievement } from '../pages/Collaborators/types';
+
+/**
+ * Unlocked achievements, one per collaborator and achievement. An unlock is
+ * recorded once and keeps its date. Without Supabase they are kept in
+ * localStorage for this browser's creator.
+ */
+
+const ACHIEVEMENTS_STORAGE_KEY = 'snoonu-collaborators-achievements';
+
+type StoredAchievement = Omit<Achievement, 'unlockedAt'> & { unlockedAt: string };
+
+const isSameUnlock = (a: Achievement, b: Achievement) =>
+  a.collaboratorId === b.collaboratorId && a.achievementId === b.achievementId;
+
+const loadLocalAchievements = (): Achievement[] => {
+  try {
+    const stored = localStorage.getItem(ACHIEVEMENTS_STORAGE_KEY);
+    if (!stored) return [];
+    const parsed: StoredAchievement[] = JSON.parse(stored);
+    return parsed.map(a => ({ ...a, unlockedAt: new Date(a.unlockedAt) }));
+  } catch (error) {
+    console.error('[achievementsStore] Failed to load achievements from localStorage:', error);
+    return [];
+  }
+};
+
+const saveLocalAchievements = (achievements: Achievement[]): void => {
+  try {
+    const existing = loadLocalAchievements();
+    const serialized: StoredAchievement[] = [
+      ...existing,
+      ...achievements.filter(a => !existing.some(e => isSameUnlock(a, e))),
+    ].map(a => ({ ...a, unlockedAt: a.unlockedAt.toISOString() }));
+    localStorage.setItem(ACHIEVEMENTS_STORAGE_KEY, JSON.stringify(serialized));
+  } catch (error) {
+    console.error('[achievementsStore] Failed to save achievements to localStorage:', error);
+  }
+};
+
+const withoutRetired = (result: Result<(Achievement | null)[]>): Result<Achievement[]> =>
+  result.ok ? ok(result.data.filter((a): a is Achievement => a !== null)) : result;
+
+export const listAchievements = async (collaboratorId: string): Promise<Result<Achievement[]>> => {
+  if (!isSupabaseConfigured()) {
+    return ok(loadLocalAchievements().filter(a => a.collaboratorId === collaboratorId));
+  }
+
+  return withoutRetired(await runListQuery<AchievementRow, Achievement | null>(
+    'Fetching achievements',
+    () => fromTable('achievements').select('*').eq('collaborator_id', collaboratorId).order('unlocked_at', { ascending: true }),
+    mapAchievementRow,
+  ));
+};
+
+// Returns the unlocks that were new
+export const recordAchievements = async (achievements: Achievement[]): Promise<Result<Achievement[]>> => {
+  if (!isSupabaseConfigured()) {
+    saveLocalAchievements(achievements);
+    return ok(achievements);
+  }
+  if (achievements.length === 0) return ok([]);
+
+  return withoutRetired(await runListQuery<AchievementRow, Achievement | null>(
+    'Recording achievements',
+    () => fromTable('achievements')
+      .upsert(achievements.map(toAchievementRow), { onConflict: 'collaborator_id,achievement_id', ignoreDuplicates: true })
+      .select(),
+    mapAchievementRow,
+  ));
+};
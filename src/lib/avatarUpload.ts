@@ -0,0 +1,64 @@
+import { supabase, isSupabaseConfigured } from './supabase';
+import { ok, fail, type Result } from './result';
+
+/**
+ * Profile picture uploads. Images are scaled down to a square thumbnail in
+ * the browser first, then stored in Supabase Storage; without Supabase the
+ * thumbnail is kept as a data URL on the profile itself.
+ */
+
+export const AVATARS_BUCKET = 'avatars';
+
+const AVATAR_SIZE = 256;
+const MAX_AVATAR_BYTES = 10 * 1024 * 1024;
+
+// Center-crops to a square and scales to AVATAR_SIZE
+const toThumbnail = async (file: File): Promise<HTMLCanvasElement> => {
+  const bitmap = await createImageBitmap(file);
+  const side = Math.min(bitmap.width, bitmap.height);
+  const canvas = document.createElement('canvas');
+  canvas.width = AVATAR_SIZE;
+  canvas.height = AVATAR_SIZE;
+  canvas.getContext('2d')?.drawImage(
+    bitmap,
+    (bitmap.width - side) / 2,
+    (bitmap.height - side) / 2,
+    side,
+    side,
+    0,
+    0,
+    AVATAR_SIZE,
+    AVATAR_SIZE,
+  );
+  bitmap.close();
+  return canvas;
+};
+
+const toBlob = (canvas: HTMLCanvasElement): Promise<Blob> => new Promise((resolve, reject) => {
+  canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the image'))), 'image/jpeg', 0.9);
+});
+
+// Resolves to the URL to save as the profile's avatar
+export const uploadAvatar = async (creatorId: string, file: File): Promise<Result<string>> => {
+  if (!file.type.startsWith('image/')) return fail({ kind: 'invalid-input', message: 'Choose an image file' });
+  if (file.size > MAX_AVATAR_BYTES) return fail({ kind: 'invalid-input', message: 'Choose an image under 10 MB' });
+
+  try {
+    const canvas = await toThumbnail(file);
+    if (!isSupabaseConfigured()) return ok(canvas.toDataURL('image/jpeg', 0.9));
+
+    // A new path per upload, so caches never serve the previous picture
+    const path = `${creatorId}/${Date.now()}.jpg`;
+    const { error } = await supabase!.storage
+      .from(AVATARS_BUCKET)
+      .upload(path, await toBlob(canvas), { contentType: 'image/jpeg', upsert: true });
+    if (error) {
+      console.error('[avatarUpload] Upload failed:', error.message);
+      return fail({ kind: 'query-failed', message: error.message });
+    }
+    return ok(supabase!.storage.from(AVATARS_BUCKET).getPublicUrl(path).data.publicUrl);
+  } catch (error) {
+    console.error('[avatarUpload] Upload threw:', error);
+    return fail({ kind: 'unexpected', message: error instanceof Error ? error.message : String(error) });
+  }
+};
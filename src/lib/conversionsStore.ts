@@ -0,0 +1,18 @@
+import { fromTable, runListQuery } from './repository';
+import { mapConversionRow, type ConversionRow } from './mappers';
+import type { Result } from './result';
+import type { ConversionRecord } from '../pages/Collaborators/types';
+
+/**
+ * Orders attributed to a creator's referral links, newest first.
+ * Rows are written by the order pipeline; the app only reads them.
+ */
+export const listConversions = (collaboratorId: string): Promise<Result<ConversionRecord[]>> =>
+  runListQuery<ConversionRow, ConversionRecord>(
+    'Fetching conversions',
+    () => fromTable('conversions')
+      .select('*')
+      .eq('collaborator_id', collaboratorId)
+      .order('created_at', { ascending: false }),
+    mapConversionRow,
+  );
@@ -0,0 +1,27 @@
+/**
+ * Identity of the creator using this browser.
+ * There is no auth yet, so a generated id is kept in localStorage and
+ * used as the owner key for everything the creator writes to Supabase.
+ * The id does not follow the creator to another browser or device.
+ */
+
+const CREATOR_ID_STORAGE_KEY = 'snoonu-collaborators-creator-id';
+
+// Used when localStorage is unavailable: lasts until the page is closed, and is
+// never shared with another browser the way a fixed fallback id would be
+let sessionCreatorId: string | null = null;
+
+export const getCreatorId = (): string => {
+  try {
+    const stored = localStorage.getItem(CREATOR_ID_STORAGE_KEY);
+    if (stored) return stored;
+
+    const id = `creator-${crypto.randomUUID()}`;
+    localStorage.setItem(CREATOR_ID_STORAGE_KEY, id);
+    return id;
+  } catch (error) {
+    console.error('[creator] Failed to read creator id from localStorage:', error);
+    sessionCreatorId ??= `creator-${crypto.randomUUID()}`;
+    return sessionCreatorId;
+  }
+};
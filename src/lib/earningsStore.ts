@@ -0,0 +1,19 @@
+import { fromTable, runListQuery } from './repository';
+import { mapLedgerEntryRow, type LedgerEntryRow } from './mappers';
+import type { Result } from './result';
+import type { LedgerEntry } from '../pages/Collaborators/types';
+
+/**
+ * Earning entries for a creator's conversions, newest first.
+ * Entries are written by the order pipeline when a conversion is attributed
+ * and moved along by payouts; the app only reads them.
+ */
+export const listLedgerEntries = (collaboratorId: string): Promise<Result<LedgerEntry[]>> =>
+  runListQuery<LedgerEntryRow, LedgerEntry>(
+    'Fetching earnings ledger',
+    () => fromTable('earnings_ledger')
+      .select('*')
+      .eq('collaborator_id', collaboratorId)
+      .order('earned_at', { ascending: false }),
+    mapLedgerEntryRow,
+  );
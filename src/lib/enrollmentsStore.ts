@@ -0,0 +1,54 @@
+import { fromTable, runListQuery, runSingleQuery } from './repository';
+import { mapEnrollmentRow, toEnrollmentRow, type EnrollmentRow } from './mappers';
+import type { Result } from './result';
+import type { Enrollment, EnrollmentStatus, ReviewItem } from '../pages/Collaborators/types';
+
+/**
+ * Supabase-backed store for a creator's enrollments.
+ * useSyncedEnrollments keeps localStorage as an offline cache in front of it.
+ */
+
+export const listEnrollments = (collaboratorId: string): Promise<Result<Enrollment[]>> =>
+  runListQuery<EnrollmentRow, Enrollment>(
+    'Fetching enrollments',
+    () => fromTable('enrollments')
+      .select('*')
+      .eq('collaborator_id', collaboratorId)
+      .order('enrolled_at', { ascending: false }),
+    mapEnrollmentRow,
+  );
+
+// All collaborators' enrollments in one status, oldest first (the reviewer queue)
+export const listEnrollmentsByStatus = (status: EnrollmentStatus): Promise<Result<ReviewItem[]>> =>
+  runListQuery<EnrollmentRow, ReviewItem>(
+    'Fetching enrollments by status',
+    () => fromTable('enrollments')
+      .select('*')
+      .eq('status', status)
+      .order('enrolled_at', { ascending: true }),
+    (row) => ({ collaboratorId: row.collaborator_id, enrollment: mapEnrollmentRow(row) }),
+  );
+
+export const createEnrollment = (collaboratorId: string, enrollment: Enrollment): Promise<Result<Enrollment>> =>
+  runSingleQuery<EnrollmentRow, Enrollment>(
+    'Creating enrollment',
+    // Upsert so a retried create after a dropped response does not fail on the primary key
+    () => fromTable('enrollments')
+      .upsert(toEnrollmentRow(collaboratorId, enrollment))
+      .select()
+      .single(),
+    mapEnrollmentRow,
+  );
+
+export const updateEnrollment = (collaboratorId: string, enrollment: Enrollment): Promise<Result<Enrollment>> => {
+  const { id, ...changes } = toEnrollmentRow(collaboratorId, enrollment);
+  return runSingleQuery<EnrollmentRow, Enrollment>(
+    'Updating enrollment',
+    () => fromTable('enrollments')
+      .update(changes)
+      .eq('id', id)
+      .select()
+      .single(),
+    mapEnrollmentRow,
+  );
+};
@@ -0,0 +1,65 @@
+import { fromTable, runListQuery } from './repository';
+import { isSupabaseConfigured } from './supabase';
+import { ok, type Result } from './result';
+import { mapFollowRow, toFollowRow, type FollowRow } from './mappers';
+import type { Follow } from '../pages/Collaborators/types';
+import { withFollow } from '../pages/Collaborators/followGraph';
+
+/**
+ * Follow edges between collaborators, one row per follower and followee.
+ * Without Supabase, only this browser's creator follows anyone, and their
+ * follows are kept in localStorage.
+ */
+
+const FOLLOWS_STORAGE_KEY = 'snoonu-collaborators-follows';
+
+const loadLocalFollows = (): Follow[] => {
+  try {
+    const stored = localStorage.getItem(FOLLOWS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('[followsStore] Failed to load follows from localStorage:', error);
+    return [];
+  }
+};
+
+const saveLocalFollows = (follows: Follow[]): void => {
+  try {
+    localStorage.setItem(FOLLOWS_STORAGE_KEY, JSON.stringify(follows));
+  } catch (error) {
+    console.error('[followsStore] Failed to save follows to localStorage:', error);
+  }
+};
+
+// Edges where any of the collaborators is the follower or the followee
+export const listFollows = async (collaboratorIds: string[]): Promise<Result<Follow[]>> => {
+  if (!isSupabaseConfigured()) {
+    const idSet = new Set(collaboratorIds);
+    return ok(loadLocalFollows().filter(f => idSet.has(f.followerId) || idSet.has(f.followeeId)));
+  }
+  if (collaboratorIds.length === 0) return ok([]);
+
+  const ids = collaboratorIds.join(',');
+  return runListQuery<FollowRow, Follow>(
+    'Fetching follows',
+    () => fromTable('follows').select('*').or(`follower_id.in.(${ids}),followee_id.in.(${ids})`),
+    mapFollowRow,
+  );
+};
+
+// Following someone already followed, or unfollowing someone who is not, is a no-op
+export const saveFollow = async (follow: Follow, following: boolean): Promise<Result<Follow>> => {
+  if (!isSupabaseConfigured()) {
+    saveLocalFollows(withFollow(loadLocalFollows(), follow, following));
+    return ok(follow);
+  }
+
+  const result = await runListQuery<FollowRow, Follow>(
+    following ? 'Following collaborator' : 'Unfollowing collaborator',
+    () => following
+      ? fromTable('follows').upsert(toFollowRow(follow), { onConflict: 'follower_id,followee_id', ignoreDuplicates: true })
+      : fromTable('follows').delete().eq('follower_id', follow.followerId).eq('followee_id', follow.followeeId),
+    mapFollowRow,
+  );
+  return result.ok ? ok(follow) : result;
+};
@@ -0,0 +1,453 @@
+import type {
+  Achievement,
+  AchievementId,
+  Campaign,
+  CollaboratorProfile,
+  ConversionRecord,
+  Enrollment,
+  EnrollmentStatus,
+  Follow,
+  LedgerEntry,
+  MerchantLeaderboardEntry,
+  Payout,
+  PayoutMethod,
+  ReferralClick,
+  RewardBasis,
+  SocialAccount,
+  StatusChange,
+  Tier,
+  UploadedFile,
+  XPEvent,
+} from '../pages/Collaborators/types';
+import { achievementConfig, tierOrder } from '../pages/Collaborators/constants';
+import { computeTier, formatConversionDate } from '../pages/Collaborators/utils';
+import { isReferralPlatform } from '../pages/Collaborators/referrals';
+
+/**
+ * Row types for the "Snoonu Collaborators" schema and mappers
+ * from database columns (snake_case) to app types (camelCase).
+ */
+
+// ==================== ROW TYPES ====================
+export interface AnnouncementRow {
+  id: string;
+  merchant: string;
+  logo: string | null;
+  vertical: string | null;
+  category: string | null;
+  discount: string | null;
+  reward: string | null;
+  reward_example: string | null;
+  min_order: string | null;
+  video_req: string | null;
+  requirements: string[] | string | null;
+  budget: string | null;
+  timeline: string | null;
+  starts_at: string | null;
+  ends_at: string | null;
+  review_notes: string | null;
+  product_image: string | null;
+  product_name: string | null;
+  max_attempts: number | null;
+  // Optional columns: undefined when the table does not have them
+  discount_percent?: number | null;
+  discount_cap?: number | null;
+  min_order_value?: number | null;
+  reward_percent?: number | null;
+  reward_basis?: RewardBasis | null;
+  budget_total: number | null;
+  budget_used: number | null; // Kept current by the order pipeline as conversions are credited
+  min_tier: string | null;
+  created_at: string;
+}
+
+export interface CollaboratorRow {
+  id: string;
+  handle: string;
+  avatar: string | null;
+  tier: string | null;
+  approved_count: number | null;
+  total_xp: number | null;
+  total_earnings: number | null;
+  conversion_rate: number | null;
+  top_campaigns: { merchant: string; logo: string; xp: number }[] | null;
+  created_at: string;
+  bio: string | null;
+  socials: { platform: string; handle: string; followers?: number | null }[] | null;
+  categories: string[] | null;
+  payout_country: string | null;
+}
+
+// Columns the creator edits on their own profile; the rest are kept up to date server-side
+export type CollaboratorProfileRow = Pick<
+  CollaboratorRow,
+  'id' | 'handle' | 'avatar' | 'bio' | 'socials' | 'categories' | 'payout_country'
+>;
+
+export interface MerchantLeaderboardRow {
+  id: string;
+  merchant_id: string | null;
+  merchant: string;
+  name: string | null;
+  logo: string | null;
+  total_xp_awarded: number | null;
+  collabs_enrolled: number | null;
+  tags: string[] | null;
+}
+
+export interface EnrollmentRow {
+  id: string;
+  collaborator_id: string;
+  campaign_id: string;
+  campaign: Campaign; // Snapshot, so mock campaigns without a DB row still round-trip
+  status: EnrollmentStatus;
+  referral_code: string | null;
+  referral_url: string | null;
+  uploaded_file: UploadedFile | null;
+  rejection_reason: string | null;
+  clicks: number;
+  orders: number;
+  earnings: number;
+  enrolled_at: string;
+  history: StatusChangeRow[] | null;
+}
+
+export interface ConversionRow {
+  id: string;
+  collaborator_id: string;
+  enrollment_id: string;
+  merchant: string;
+  order_id: string;
+  amount: number;
+  order_value: number | null;
+  clicks: number;
+  source: string | null;
+  created_at: string;
+  reversed_at: string | null;
+  reversal_reason: string | null;
+  out_of_budget: boolean | null;
+}
+
+export interface ReferralClickRow {
+  id: string;
+  code: string;
+  enrollment_id: string;
+  clicked_at: string;
+  source: string;
+  user_agent: string | null;
+}
+
+export interface LedgerEntryRow {
+  id: string;
+  collaborator_id: string;
+  enrollment_id: string;
+  order_id: string;
+  merchant: string;
+  amount: number;
+  state: LedgerEntry['state'];
+  earned_at: string;
+  clears_at: string;
+  paid_at: string | null;
+  reversed_at: string | null;
+  reversal_reason: string | null;
+  payout_id: string | null;
+  recovered_by_payout_id: string | null;
+  recovered_at: string | null;
+}
+
+export interface PayoutMethodRow {
+  collaborator_id: string;
+  method: PayoutMethod;
+  updated_at: string;
+}
+
+export interface PayoutRow {
+  id: string;
+  collaborator_id: string;
+  amount: number;
+  method: PayoutMethod; // Snapshot, so history keeps the method used at the time
+  status: Payout['status'];
+  entry_ids: string[];
+  debit_entry_ids: string[] | null;
+  requested_at: string;
+  updated_at: string;
+  failure_reason: string | null;
+}
+
+export interface XPEventRow {
+  id: string;
+  collaborator_id: string;
+  kind: XPEvent['kind'];
+  xp: number;
+  at: string;
+  enrollment_id: string;
+  merchant: string;
+  logo: string;
+  order_id: string | null;
+}
+
+export interface AchievementRow {
+  collaborator_id: string;
+  achievement_id: string;
+  unlocked_at: string;
+}
+
+export interface FollowRow {
+  follower_id: string;
+  followee_id: string;
+}
+
+export type StatusChangeRow = Omit<StatusChange, 'at'> & { at: string };
+
+// ==================== MAPPERS ====================
+const isTier = (value: string | null): value is Tier =>
+  value !== null && (tierOrder as string[]).includes(value);
+
+const isAchievementId = (value: string): value is AchievementId => value in achievementConfig;
+
+// "2025-10-14T..." -> "Oct 2025", matching the mock joinedDate format
+const formatJoinedDate = (isoDate: string): string => {
+  const date = new Date(isoDate);
+  if (Number.isNaN(date.getTime())) return '';
+  return date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+};
+
+export const mapAnnouncementRow = (row: AnnouncementRow): Campaign => ({
+  id: row.id,
+  merchant: row.merchant,
+  logo: row.logo || '',
+  vertical: row.vertical || '',
+  category: row.category || '',
+  discount: row.discount || '',
+  reward: row.reward || '',
+  rewardExample: row.reward_example || '',
+  minOrder: row.min_order || '',
+  videoReq: row.video_req || '',
+  requirements: Array.isArray(row.requirements)
+    ? row.requirements
+    : (row.requirements ? [row.requirements] : []),
+  budget: row.budget || '',
+  timeline: row.timeline || '',
+  startsAt: row.starts_at || undefined,
+  endsAt: row.ends_at || undefined,
+  reviewNotes: row.review_notes || '',
+  productImage: row.product_image || undefined,
+  productName: row.product_name || undefined,
+  maxAttempts: row.max_attempts ?? undefined,
+  // Structured terms are optional columns; without them the strings are parsed (see rewardModel)
+  rewardTerms: row.discount_percent != null && row.reward_percent != null
+    ? {
+      discountPercent: Number(row.discount_percent),
+      discountCap: row.discount_cap == null ? null : Number(row.discount_cap),
+      minOrder: Number(row.min_order_value ?? 0),
+      rewardPercent: Number(row.reward_percent),
+      rewardBasis: row.reward_basis ?? 'discount-value',
+    }
+    : undefined,
+  budgetTotal: row.budget_total ?? undefined,
+  budgetUsed: row.budget_used ?? undefined,
+  minTier: isTier(row.min_tier) ? row.min_tier : undefined,
+});
+
+export const mapCollaboratorRow = (row: CollaboratorRow): CollaboratorProfile => {
+  const approvedCount = row.approved_count ?? 0;
+  return {
+    id: row.id,
+    handle: row.handle.startsWith('@') ? row.handle : `@${row.handle}`,
+    avatar: row.avatar || '',
+    // Fall back to the threshold-based tier if the column holds an unknown value
+    tier: isTier(row.tier) ? row.tier : computeTier(approvedCount),
+    approvedCount,
+    totalXP: row.total_xp ?? 0,
+    conversionRate: row.conversion_rate ?? undefined,
+    topCampaigns: Array.isArray(row.top_campaigns) ? row.top_campaigns : [],
+    joinedDate: formatJoinedDate(row.created_at),
+    bio: row.bio || undefined,
+    // Accounts on platforms the app does not know are dropped
+    socials: Array.isArray(row.socials)
+      ? row.socials.flatMap((s): SocialAccount[] => isReferralPlatform(s.platform)
+        ? [{ platform: s.platform, handle: s.handle, followers: s.followers ?? undefined }]
+        : [])
+      : undefined,
+    categories: Array.isArray(row.categories) ? row.categories : undefined,
+    payoutCountry: row.payout_country || undefined,
+  };
+};
+
+export const toCollaboratorProfileRow = (profile: CollaboratorProfile): CollaboratorProfileRow => ({
+  id: profile.id,
+  handle: profile.handle.replace(/^@/, ''),
+  avatar: profile.avatar || null,
+  bio: profile.bio ?? null,
+  socials: profile.socials ?? null,
+  categories: profile.categories ?? null,
+  payout_country: profile.payoutCountry ?? null,
+});
+
+export const mapMerchantLeaderboardRow = (row: MerchantLeaderboardRow): MerchantLeaderboardEntry => ({
+  id: row.id,
+  merchantId: row.merchant_id || row.id,
+  merchant: row.merchant,
+  name: row.name || row.merchant,
+  logo: row.logo || '',
+  totalXPAwarded: row.total_xp_awarded ?? 0,
+  collabsEnrolled: row.collabs_enrolled ?? 0,
+  tags: Array.isArray(row.tags) ? row.tags : [],
+});
+
+export const mapEnrollmentRow = (row: EnrollmentRow): Enrollment => ({
+  id: row.id,
+  campaign: row.campaign,
+  status: row.status,
+  referralCode: row.referral_code || undefined,
+  referralUrl: row.referral_url || undefined,
+  uploadedFile: row.uploaded_file || undefined,
+  rejectionReason: row.rejection_reason || undefined,
+  clicks: row.clicks,
+  orders: row.orders,
+  earnings: row.earnings,
+  enrolledAt: new Date(row.enrolled_at),
+  history: (row.history ?? []).map(change => ({ ...change, at: new Date(change.at) })),
+});
+
+export const toEnrollmentRow = (collaboratorId: string, enrollment: Enrollment): EnrollmentRow => ({
+  id: enrollment.id,
+  collaborator_id: collaboratorId,
+  campaign_id: enrollment.campaign.id,
+  campaign: enrollment.campaign,
+  status: enrollment.status,
+  referral_code: enrollment.referralCode ?? null,
+  referral_url: enrollment.referralUrl ?? null,
+  uploaded_file: enrollment.uploadedFile ?? null,
+  rejection_reason: enrollment.rejectionReason ?? null,
+  clicks: enrollment.clicks,
+  orders: enrollment.orders,
+  earnings: enrollment.earnings,
+  enrolled_at: enrollment.enrolledAt.toISOString(),
+  history: enrollment.history.map(change => ({ ...change, at: change.at.toISOString() })),
+});
+
+export const mapConversionRow = (row: ConversionRow): ConversionRecord => {
+  const timestamp = new Date(row.created_at);
+  return {
+    enrollmentId: row.enrollment_id,
+    merchant: row.merchant,
+    amount: Number(row.amount),
+    orderValue: row.order_value === null ? undefined : Number(row.order_value),
+    date: formatConversionDate(timestamp),
+    orderId: row.order_id,
+    timestamp,
+    clicks: row.clicks,
+    source: row.source || 'direct',
+    reversal: row.reversed_at
+      ? { at: new Date(row.reversed_at), reason: row.reversal_reason || 'Order cancelled' }
+      : undefined,
+    outOfBudget: row.out_of_budget || undefined,
+  };
+};
+
+export const mapReferralClickRow = (row: ReferralClickRow): ReferralClick => ({
+  id: row.id,
+  code: row.code,
+  enrollmentId: row.enrollment_id,
+  clickedAt: new Date(row.clicked_at),
+  source: row.source,
+  userAgent: row.user_agent || '',
+});
+
+export const toReferralClickRow = (click: ReferralClick): ReferralClickRow => ({
+  id: click.id,
+  code: click.code,
+  enrollment_id: click.enrollmentId,
+  clicked_at: click.clickedAt.toISOString(),
+  source: click.source,
+  user_agent: click.userAgent || null,
+});
+
+export const mapLedgerEntryRow = (row: LedgerEntryRow): LedgerEntry => ({
+  id: row.id,
+  enrollmentId: row.enrollment_id,
+  orderId: row.order_id,
+  merchant: row.merchant,
+  amount: Number(row.amount),
+  state: row.state,
+  earnedAt: new Date(row.earned_at),
+  clearsAt: new Date(row.clears_at),
+  paidAt: row.paid_at ? new Date(row.paid_at) : undefined,
+  reversedAt: row.reversed_at ? new Date(row.reversed_at) : undefined,
+  reversalReason: row.reversal_reason || undefined,
+  payoutId: row.payout_id || undefined,
+  recoveredByPayoutId: row.recovered_by_payout_id || undefined,
+  recoveredAt: row.recovered_at ? new Date(row.recovered_at) : undefined,
+});
+
+export const mapPayoutRow = (row: PayoutRow): Payout => ({
+  id: row.id,
+  amount: Number(row.amount),
+  method: row.method,
+  status: row.status,
+  entryIds: row.entry_ids ?? [],
+  debitEntryIds: row.debit_entry_ids ?? undefined,
+  requestedAt: new Date(row.requested_at),
+  updatedAt: new Date(row.updated_at),
+  failureReason: row.failure_reason || undefined,
+});
+
+export const toPayoutRow = (collaboratorId: string, payout: Payout): PayoutRow => ({
+  id: payout.id,
+  collaborator_id: collaboratorId,
+  amount: payout.amount,
+  method: payout.method,
+  status: payout.status,
+  entry_ids: payout.entryIds,
+  debit_entry_ids: payout.debitEntryIds ?? null,
+  requested_at: payout.requestedAt.toISOString(),
+  updated_at: payout.updatedAt.toISOString(),
+  failure_reason: payout.failureReason ?? null,
+});
+
+export const mapXPEventRow = (row: XPEventRow): XPEvent => ({
+  id: row.id,
+  collaboratorId: row.collaborator_id,
+  kind: row.kind,
+  xp: Number(row.xp),
+  at: new Date(row.at),
+  enrollmentId: row.enrollment_id,
+  merchant: row.merchant,
+  logo: row.logo,
+  orderId: row.order_id || undefined,
+});
+
+export const toXPEventRow = (event: XPEvent): XPEventRow => ({
+  id: event.id,
+  collaborator_id: event.collaboratorId,
+  kind: event.kind,
+  xp: event.xp,
+  at: event.at.toISOString(),
+  enrollment_id: event.enrollmentId,
+  merchant: event.merchant,
+  logo: event.logo,
+  order_id: event.orderId ?? null,
+});
+
+// null for achievements that have since been retired
+export const mapAchievementRow = (row: AchievementRow): Achievement | null =>
+  isAchievementId(row.achievement_id)
+    ? { achievementId: row.achievement_id, collaboratorId: row.collaborator_id, unlockedAt: new Date(row.unlocked_at) }
+    : null;
+
+export const toAchievementRow = (achievement: Achievement): AchievementRow => ({
+  collaborator_id: achievement.collaboratorId,
+  achievement_id: achievement.achievementId,
+  unlocked_at: achievement.unlockedAt.toISOString(),
+});
+
+export const mapFollowRow = (row: FollowRow): Follow => ({
+  followerId: row.follower_id,
+  followeeId: row.followee_id,
+});
+
+export const toFollowRow = (follow: Follow): FollowRow => ({
+  follower_id: follow.followerId,
+  followee_id: follow.followeeId,
+});
@@ -0,0 +1,51 @@
+import type { Payout, PayoutStatus } from '../pages/Collaborators/types';
+
+/**
+ * Payout providers move a requested withdrawal through processing to
+ * paid or failed. In production this happens server-side; the mock
+ * provider stands in for it during local development.
+ */
+
+export interface PayoutUpdate {
+  status: PayoutStatus;
+  at: Date;
+  failureReason?: string;
+}
+
+export interface PayoutProvider {
+  // Track a payout until it settles; returns a function that stops tracking
+  track: (payout: Payout, onUpdate: (update: PayoutUpdate) => void) => () => void;
+}
+
+const PROCESSING_AFTER_MS = 3000;
+const SETTLED_AFTER_MS = 10000;
+
+// Sandbox wallet number: payouts to a number ending in 0000 always fail
+const shouldFail = (payout: Payout): boolean =>
+  payout.method.type === 'wallet' && payout.method.phoneNumber.replace(/\D/g, '').endsWith('0000');
+
+/**
+ * Timed mock: processing 3s after the request, settled 7s later.
+ * Delays count from `requestedAt`, so a payout resumes where it was after a reload.
+ */
+export const mockPayoutProvider: PayoutProvider = {
+  track: (payout, onUpdate) => {
+    const steps: { afterMs: number; update: () => PayoutUpdate }[] = [
+      { afterMs: PROCESSING_AFTER_MS, update: () => ({ status: 'processing', at: new Date() }) },
+      {
+        afterMs: SETTLED_AFTER_MS,
+        update: () => shouldFail(payout)
+          ? { status: 'failed', at: new Date(), failureReason: 'The wallet provider rejected the transfer' }
+          : { status: 'paid', at: new Date() },
+      },
+    ];
+
+    const elapsed = Date.now() - payout.requestedAt.getTime();
+    const remainingSteps = payout.status === 'requested' ? steps : steps.slice(1);
+    const timers = remainingSteps.map(step =>
+      setTimeout(() => onUpdate(step.update()), Math.max(step.afterMs - elapsed, 0))
+    );
+
+    return () => timers.forEach(clearTimeout);
+  },
+};
@@ -0,0 +1,111 @@
+import { fromTable, runListQuery, runSingleQuery } from './repository';
+import { isSupabaseConfigured } from './supabase';
+import { ok, fail, type Result } from './result';
+import { mapPayoutRow, toPayoutRow, type PayoutMethodRow, type PayoutRow } from './mappers';
+import type { Payout, PayoutMethod } from '../pages/Collaborators/types';
+
+/**
+ * A creator's payout method and withdrawal requests.
+ * Supabase holds them when configured (the payout provider updates the
+ * rows server-side); otherwise they live in localStorage and the mock
+ * provider moves them along in the browser.
+ */
+
+const METHOD_STORAGE_KEY = 'snoonu-collaborators-payout-method';
+const PAYOUTS_STORAGE_KEY = 'snoonu-collaborators-payouts';
+
+type StoredPayout = Omit<Payout, 'requestedAt' | 'updatedAt'> & { requestedAt: string; updatedAt: string };
+
+const loadLocalPayouts = (): Payout[] => {
+  try {
+    const stored = localStorage.getItem(PAYOUTS_STORAGE_KEY);
+    if (!stored) return [];
+    const parsed: StoredPayout[] = JSON.parse(stored);
+    return parsed.map(p => ({ ...p, requestedAt: new Date(p.requestedAt), updatedAt: new Date(p.updatedAt) }));
+  } catch (error) {
+    console.error('[payoutsStore] Failed to load payouts from localStorage:', error);
+    return [];
+  }
+};
+
+// Also used for status changes from the mock provider; real providers update Supabase themselves
+export const saveLocalPayout = (payout: Payout): Result<Payout> => {
+  try {
+    const payouts = [payout, ...loadLocalPayouts().filter(p => p.id !== payout.id)]
+      .sort((a, b) => b.requestedAt.getTime() - a.requestedAt.getTime());
+    const serialized: StoredPayout[] = payouts.map(p => ({
+      ...p,
+      requestedAt: p.requestedAt.toISOString(),
+      updatedAt: p.updatedAt.toISOString(),
+    }));
+    localStorage.setItem(PAYOUTS_STORAGE_KEY, JSON.stringify(serialized));
+    return ok(payout);
+  } catch (error) {
+    console.error('[payoutsStore] Failed to save payout to localStorage:', error);
+    return fail({ kind: 'unexpected', message: error instanceof Error ? error.message : String(error) });
+  }
+};
+
+// ==================== PAYOUT METHOD ====================
+export const getPayoutMethod = async (collaboratorId: string): Promise<Result<PayoutMethod | null>> => {
+  if (!isSupabaseConfigured()) {
+    try {
+      const stored = localStorage.getItem(METHOD_STORAGE_KEY);
+      return ok(stored ? JSON.parse(stored) : null);
+    } catch (error) {
+      console.error('[payoutsStore] Failed to load payout method from localStorage:', error);
+      return ok(null);
+    }
+  }
+
+  const result = await runListQuery<PayoutMethodRow, PayoutMethod>(
+    'Fetching payout method',
+    () => fromTable('payout_methods').select('*').eq('collaborator_id', collaboratorId).limit(1),
+    (row) => row.method,
+  );
+  return result.ok ? ok(result.data[0] ?? null) : result;
+};
+
+export const savePayoutMethod = async (collaboratorId: string, method: PayoutMethod): Promise<Result<PayoutMethod>> => {
+  if (!isSupabaseConfigured()) {
+    try {
+      localStorage.setItem(METHOD_STORAGE_KEY, JSON.stringify(method));
+      return ok(method);
+    } catch (error) {
+      console.error('[payoutsStore] Failed to save payout method to localStorage:', error);
+      return fail({ kind: 'unexpected', message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  const row: PayoutMethodRow = { collaborator_id: collaboratorId, method, updated_at: new Date().toISOString() };
+  return runSingleQuery<PayoutMethodRow, PayoutMethod>(
+    'Saving payout method',
+    () => fromTable('payout_methods').upsert(row).select().single(),
+    (saved) => saved.method,
+  );
+};
+
+// ==================== PAYOUTS ====================
+// Withdrawal history, newest first
+export const listPayouts = async (collaboratorId: string): Promise<Result<Payout[]>> => {
+  if (!isSupabaseConfigured()) return ok(loadLocalPayouts());
+
+  return runListQuery<PayoutRow, Payout>(
+    'Fetching payouts',
+    () => fromTable('payouts')
+      .select('*')
+      .eq('collaborator_id', collaboratorId)
+      .order('requested_at', { ascending: false }),
+    mapPayoutRow,
+  );
+};
+
+export const requestPayout = async (collaboratorId: string, payout: Payout): Promise<Result<Payout>> => {
+  if (!isSupabaseConfigured()) return saveLocalPayout(payout);
+
+  return runSingleQuery<PayoutRow, Payout>(
+    'Requesting payout',
+    () => fromTable('payouts').insert(toPayoutRow(collaboratorId, payout)).select().single(),
+    mapPayoutRow,
+  );
+};
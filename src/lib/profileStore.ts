@@ -0,0 +1,53 @@
+import { fromTable, runListQuery, runSingleQuery } from './repository';
+import { isSupabaseConfigured } from './supabase';
+import { ok, fail, type Result } from './result';
+import { mapCollaboratorRow, toCollaboratorProfileRow, type CollaboratorRow } from './mappers';
+import type { CollaboratorProfile } from '../pages/Collaborators/types';
+
+/**
+ * The current creator's own profile, a row in the collaborators table keyed
+ * by their creator id. Without Supabase it is kept in localStorage.
+ */
+
+const PROFILE_STORAGE_KEY = 'snoonu-collaborators-profile';
+
+// null until the creator has been through onboarding
+export const getProfile = async (creatorId: string): Promise<Result<CollaboratorProfile | null>> => {
+  if (!isSupabaseConfigured()) {
+    try {
+      const stored = localStorage.getItem(PROFILE_STORAGE_KEY);
+      const profile: CollaboratorProfile | null = stored ? JSON.parse(stored) : null;
+      return ok(profile?.id === creatorId ? profile : null);
+    } catch (error) {
+      console.error('[profileStore] Failed to load profile from localStorage:', error);
+      return ok(null);
+    }
+  }
+
+  const result = await runListQuery<CollaboratorRow, CollaboratorProfile>(
+    'Fetching profile',
+    () => fromTable('collaborators').select('*').eq('id', creatorId).limit(1),
+    mapCollaboratorRow,
+  );
+  return result.ok ? ok(result.data[0] ?? null) : result;
+};
+
+// Only the columns the creator edits are written; XP figures stay as the server has them
+export const saveProfile = async (profile: CollaboratorProfile): Promise<Result<CollaboratorProfile>> => {
+  if (!isSupabaseConfigured()) {
+    try {
+      localStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify(profile));
+      return ok(profile);
+    } catch (error) {
+      // Usually the storage quota, which a large photo data URL can use up
+      console.error('[profileStore] Failed to save profile to localStorage:', error);
+      return fail({ kind: 'unexpected', message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return runSingleQuery<CollaboratorRow, CollaboratorProfile>(
+    'Saving profile',
+    () => fromTable('collaborators').upsert(toCollaboratorProfileRow(profile)).select().single(),
+    mapCollaboratorRow,
+  );
+};
@@ -0,0 +1,80 @@
+import { fromTable, runListQuery, runSingleQuery } from './repository';
+import { isSupabaseConfigured } from './supabase';
+import { ok, type Result } from './result';
+import {
+  mapEnrollmentRow,
+  mapReferralClickRow,
+  toReferralClickRow,
+  type EnrollmentRow,
+  type ReferralClickRow,
+} from './mappers';
+import type { Enrollment, ReferralClick } from '../pages/Collaborators/types';
+
+/**
+ * Referral code lookups and click events.
+ * Codes live on the enrollments table; clicks go to referral_clicks.
+ * Without Supabase, clicks are kept in localStorage so the local
+ * landing page and analytics still agree with each other.
+ */
+
+const CLICKS_STORAGE_KEY = 'snoonu-collaborators-referral-clicks';
+
+type StoredClick = Omit<ReferralClick, 'clickedAt'> & { clickedAt: string };
+
+const loadLocalClicks = (): ReferralClick[] => {
+  try {
+    const stored = localStorage.getItem(CLICKS_STORAGE_KEY);
+    if (!stored) return [];
+    const parsed: StoredClick[] = JSON.parse(stored);
+    return parsed.map(c => ({ ...c, clickedAt: new Date(c.clickedAt) }));
+  } catch (error) {
+    console.error('[referralsStore] Failed to load clicks from localStorage:', error);
+    return [];
+  }
+};
+
+const saveLocalClick = (click: ReferralClick): void => {
+  try {
+    const clicks: StoredClick[] = [...loadLocalClicks(), click].map(c => ({ ...c, clickedAt: c.clickedAt.toISOString() }));
+    localStorage.setItem(CLICKS_STORAGE_KEY, JSON.stringify(clicks));
+  } catch (error) {
+    console.error('[referralsStore] Failed to save click to localStorage:', error);
+  }
+};
+
+// The enrollment a code was minted for, or null if no enrollment has it
+export const resolveReferralCode = async (code: string): Promise<Result<Enrollment | null>> => {
+  const result = await runListQuery<EnrollmentRow, Enrollment>(
+    'Resolving referral code',
+    () => fromTable('enrollments').select('*').eq('referral_code', code).limit(1),
+    mapEnrollmentRow,
+  );
+  return result.ok ? ok(result.data[0] ?? null) : result;
+};
+
+export const recordReferralClick = async (click: ReferralClick): Promise<Result<ReferralClick>> => {
+  if (!isSupabaseConfigured()) {
+    saveLocalClick(click);
+    return ok(click);
+  }
+
+  return runSingleQuery<ReferralClickRow, ReferralClick>(
+    'Recording referral click',
+    () => fromTable('referral_clicks').insert(toReferralClickRow(click)).select().single(),
+    mapReferralClickRow,
+  );
+};
+
+export const listReferralClicks = async (codes: string[]): Promise<Result<ReferralClick[]>> => {
+  if (!isSupabaseConfigured()) {
+    const codeSet = new Set(codes);
+    return ok(loadLocalClicks().filter(c => codeSet.has(c.code)));
+  }
+  if (codes.length === 0) return ok([]);
+
+  return runListQuery<ReferralClickRow, ReferralClick>(
+    'Fetching referral clicks',
+    () => fromTable('referral_clicks').select('*').in('code', codes).order('clicked_at', { ascending: false }),
+    mapReferralClickRow,
+  );
+};
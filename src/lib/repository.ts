@@ -0,0 +1,173 @@
+import type { PostgrestError } from '@supabase/supabase-js';
+import { supabase, isSupabaseConfigured } from './supabase';
+import { ok, fail, type Result, type DataError } from './result';
+import {
+  mapAnnouncementRow,
+  mapCollaboratorRow,
+  mapMerchantLeaderboardRow,
+  type AnnouncementRow,
+  type CollaboratorRow,
+  type MerchantLeaderboardRow,
+} from './mappers';
+import type { Campaign, CollaboratorProfile, MerchantLeaderboardEntry } from '../pages/Collaborators/types';
+
+/**
+ * Data-access layer for the "Snoonu Collaborators" schema.
+ * Every read returns a Result so callers can tell an empty table
+ * apart from a failed query and fall back to mock data accordingly.
+ */
+
+export const SCHEMA = 'Snoonu Collaborators';
+
+export type TableName =
+  | 'announcments'
+  | 'collaborators'
+  | 'merchant_leaderboard'
+  | 'enrollments'
+  | 'conversions'
+  | 'referral_clicks'
+  | 'earnings_ledger'
+  | 'payout_methods'
+  | 'payouts'
+  | 'xp_events'
+  | 'achievements'
+  | 'follows';
+
+// Schema name with spaces must be specified in each query
+export const fromTable = (table: TableName) => supabase!.schema(SCHEMA).from(table);
+
+const notConfigured: DataError = {
+  kind: 'not-configured',
+  message: 'Supabase is not configured - check VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY in .env',
+};
+
+const isSchemaExposureError = (error: PostgrestError): boolean =>
+  error.code === 'PGRST106' ||
+  error.code === 'PGRST116' ||
+  error.message?.includes('406') ||
+  error.message?.includes('not found');
+
+const logSchemaExposureHelp = () => {
+  console.error('');
+  console.error('🔴 SCHEMA EXPOSURE ISSUE DETECTED');
+  console.error(`The "${SCHEMA}" schema is not exposed in Supabase API Settings.`);
+  console.error('');
+  console.error('📋 TO FIX:');
+  console.error('1. Go to: https://app.supabase.com/project/purjgxyslufptvruhuoe/settings/api');
+  console.error('2. Scroll to "Exposed Schemas" section');
+  console.error(`3. Add "${SCHEMA}" (exact name with space)`);
+  console.error('4. Save and refresh this page');
+  console.error('');
+};
+
+// Convert a PostgREST error into a DataError, logging the details once
+export const toDataError = (label: string, error: PostgrestError): DataError => {
+  console.error(`[Supabase] ${label} failed:`, error.message, {
+    code: error.code,
+    details: error.details,
+    hint: error.hint,
+  });
+
+  if (isSchemaExposureError(error)) {
+    logSchemaExposureHelp();
+    return { kind: 'schema-not-exposed', message: error.message, code: error.code, details: error.details, hint: error.hint };
+  }
+
+  return { kind: 'query-failed', message: error.message, code: error.code, details: error.details, hint: error.hint };
+};
+
+export const toUnexpectedError = (label: string, error: unknown): DataError => {
+  console.error(`[Supabase] ${label} threw:`, error);
+  return { kind: 'unexpected', message: error instanceof Error ? error.message : String(error) };
+};
+
+// Run a list query and map each row, converting every failure mode into a DataError
+export const runListQuery = async <Row, T>(
+  label: string,
+  query: () => PromiseLike<{ data: unknown; error: PostgrestError | null }>,
+  mapRow: (row: Row) => T,
+): Promise<Result<T[]>> => {
+  if (!isSupabaseConfigured()) return fail(notConfigured);
+
+  try {
+    const { data, error } = await query();
+    if (error) return fail(toDataError(label, error));
+    return ok(((data as Row[] | null) ?? []).map(mapRow));
+  } catch (error) {
+    return fail(toUnexpectedError(label, error));
+  }
+};
+
+// Same as runListQuery, for inserts/updates that return exactly one row via .single()
+export const runSingleQuery = async <Row, T>(
+  label: string,
+  query: () => PromiseLike<{ data: unknown; error: PostgrestError | null }>,
+  mapRow: (row: Row) => T,
+): Promise<Result<T>> => {
+  if (!isSupabaseConfigured()) return fail(notConfigured);
+
+  try {
+    const { data, error } = await query();
+    if (error) return fail(toDataError(label, error));
+    return ok(mapRow(data as Row));
+  } catch (error) {
+    return fail(toUnexpectedError(label, error));
+  }
+};
+
+// ==================== CONNECTION ====================
+export const checkConnection = async (): Promise<Result<true>> => {
+  const result = await runListQuery<{ id: string }, string>(
+    'Connection test',
+    () => fromTable('announcments').select('id').limit(1),
+    (row) => row.id,
+  );
+  if (!result.ok) return result;
+
+  console.log('[Supabase] Connection test successful');
+  return ok(true);
+};
+
+// ==================== ANNOUNCEMENTS ====================
+export const getCampaigns = (): Promise<Result<Campaign[]>> =>
+  runListQuery<AnnouncementRow, Campaign>(
+    'Fetching campaigns',
+    () => fromTable('announcments').select('*').order('created_at', { ascending: false }),
+    mapAnnouncementRow,
+  );
+
+// ==================== COLLABORATORS ====================
+export const getCollaborators = (): Promise<Result<CollaboratorProfile[]>> =>
+  runListQuery<CollaboratorRow, CollaboratorProfile>(
+    'Fetching collaborators',
+    () => fromTable('collaborators').select('*').order('total_earnings', { ascending: false }),
+    mapCollaboratorRow,
+  );
+
+// ==================== MERCHANT LEADERBOARD ====================
+export const getMerchantLeaderboard = (limit = 10): Promise<Result<MerchantLeaderboardEntry[]>> =>
+  runListQuery<MerchantLeaderboardRow, MerchantLeaderboardEntry>(
+    'Fetching merchant leaderboard',
+    () => fromTable('merchant_leaderboard').select('*').order('total_xp_awarded', { ascending: false }).limit(limit),
+    mapMerchantLeaderboardRow,
+  );
+
+// ==================== SUBSCRIPTIONS ====================
+// Re-fetch campaigns whenever the announcments table changes.
+// Returns an unsubscribe function, or null when Supabase is not configured.
+export const subscribeToCampaigns = (callback: (result: Result<Campaign[]>) => void) => {
+  if (!isSupabaseConfigured()) return null;
+
+  const channel = supabase!
+    .channel('campaigns-changes')
+    .on(
+      'postgres_changes',
+      { event: '*', schema: SCHEMA, table: 'announcments' },
+      async () => callback(await getCampaigns()),
+    )
+    .subscribe();
+
+  return () => {
+    supabase!.removeChannel(channel);
+  };
+};
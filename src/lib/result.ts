@@ -0,0 +1,30 @@
+/**
+ * Result type shared by the data-access modules.
+ * Lets callers tell "query returned no rows" (ok with an empty array)
+ * apart from "query failed" (not ok, with a DataError describing why).
+ */
+
+export type DataErrorKind =
+  | 'not-configured'      // VITE_SUPABASE_URL / VITE_SUPABASE_ANON_KEY missing
+  | 'schema-not-exposed'  // "Snoonu Collaborators" schema not exposed in API settings
+  | 'query-failed'        // PostgREST returned an error
+  | 'unexpected'          // Network failure or thrown exception
+  | 'cancelled'           // Aborted by the user (e.g. a cancelled upload)
+  | 'invalid-transition'  // Status change the enrollment state machine does not allow
+  | 'invalid-input';      // Rejected by client-side validation before reaching Supabase
+
+export interface DataError {
+  kind: DataErrorKind;
+  message: string;
+  code?: string;
+  details?: string;
+  hint?: string;
+}
+
+export type Result<T> =
+  | { ok: true; data: T }
+  | { ok: false; error: DataError };
+
+export const ok = <T>(data: T): Result<T> => ({ ok: true, data });
+
+export const fail = <T = never>(error: DataError): Result<T> => ({ ok: false, error });
@@ -0,0 +1,272 @@
+import { supabase, supabaseUrl, supabaseAnonKey, isSupabaseConfigured } from './supabase';
+import { ok, fail, type Result } from './result';
+
+/**
+ * Resumable video uploads to Supabase Storage.
+ *
+ * Uses the TUS protocol endpoint Supabase exposes for resumable uploads:
+ * the file is sent in fixed-size chunks, and the upload URL is remembered
+ * per file so a retry (or a reload) continues from the last stored offset
+ * instead of starting over. Without Supabase credentials the upload is
+ * simulated and there is nothing to play back, only the file's name.
+ */
+
+export const ENROLLMENT_VIDEOS_BUCKET = 'enrollment-videos';
+
+// Supabase requires 6MB chunks for resumable uploads
+const CHUNK_SIZE = 6 * 1024 * 1024;
+const MAX_CHUNK_ATTEMPTS = 3;
+const RETRY_DELAYS_MS = [1000, 3000, 5000];
+const UPLOAD_URLS_STORAGE_KEY = 'snoonu-collaborators-upload-urls';
+
+export interface UploadProgress {
+  bytesUploaded: number;
+  bytesTotal: number;
+  percentage: number;
+}
+
+export interface UploadedVideo {
+  path: string;
+  url?: string; // Not set for simulated uploads
+}
+
+export interface VideoUpload {
+  result: Promise<Result<UploadedVideo>>;
+  cancel: () => void;
+}
+
+// ==================== RESUME STATE ====================
+interface StoredUpload {
+  uploadUrl: string;
+  path: string;
+}
+
+const fingerprint = (key: string, file: File) => `${key}:${file.name}:${file.size}:${file.lastModified}`;
+
+const loadStoredUploads = (): Record<string, StoredUpload> => {
+  try {
+    const stored = localStorage.getItem(UPLOAD_URLS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('[videoUpload] Failed to load upload URLs from localStorage:', error);
+    return {};
+  }
+};
+
+const saveStoredUpload = (id: string, upload: StoredUpload | null): void => {
+  try {
+    const uploads = loadStoredUploads();
+    if (upload) uploads[id] = upload;
+    else delete uploads[id];
+    localStorage.setItem(UPLOAD_URLS_STORAGE_KEY, JSON.stringify(uploads));
+  } catch (error) {
+    console.error('[videoUpload] Failed to save upload URL to localStorage:', error);
+  }
+};
+
+// ==================== HTTP ====================
+class UploadHttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const isAbort = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+const wait = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new DOMException('Upload cancelled', 'AbortError'));
+  }, { once: true });
+});
+
+// XMLHttpRequest rather than fetch: fetch has no upload progress events
+const sendRequest = (
+  method: 'POST' | 'PATCH' | 'HEAD',
+  url: string,
+  headers: Record<string, string>,
+  signal: AbortSignal,
+  body?: Blob,
+  onUploadProgress?: (loaded: number) => void,
+) => new Promise<XMLHttpRequest>((resolve, reject) => {
+  if (signal.aborted) {
+    reject(new DOMException('Upload cancelled', 'AbortError'));
+    return;
+  }
+
+  const xhr = new XMLHttpRequest();
+  xhr.open(method, url);
+  Object.entries({
+    'Tus-Resumable': '1.0.0',
+    authorization: `Bearer ${supabaseAnonKey}`,
+    ...headers,
+  }).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+
+  if (onUploadProgress) {
+    xhr.upload.onprogress = (e) => onUploadProgress(e.loaded);
+  }
+  xhr.onload = () => (xhr.status >= 200 && xhr.status < 300)
+    ? resolve(xhr)
+    : reject(new UploadHttpError(xhr.status, xhr.responseText || `HTTP ${xhr.status}`));
+  xhr.onerror = () => reject(new UploadHttpError(0, 'Network error'));
+  xhr.onabort = () => reject(new DOMException('Upload cancelled', 'AbortError'));
+  signal.addEventListener('abort', () => xhr.abort(), { once: true });
+
+  xhr.send(body ?? null);
+});
+
+// ==================== TUS UPLOAD ====================
+const encodeMetadata = (metadata: Record<string, string>) =>
+  Object.entries(metadata)
+    .map(([key, value]) => `${key} ${btoa(String.fromCharCode(...new TextEncoder().encode(value)))}`)
+    .join(',');
+
+const createUpload = async (file: File, path: string, signal: AbortSignal): Promise<string> => {
+  const xhr = await sendRequest('POST', `${supabaseUrl}/storage/v1/upload/resumable`, {
+    'Upload-Length': String(file.size),
+    'Upload-Metadata': encodeMetadata({
+      bucketName: ENROLLMENT_VIDEOS_BUCKET,
+      objectName: path,
+      contentType: file.type || 'video/mp4',
+      cacheControl: '3600',
+    }),
+    'x-upsert': 'true',
+  }, signal);
+
+  const location = xhr.getResponseHeader('Location');
+  if (!location) throw new UploadHttpError(xhr.status, 'Upload URL missing from response');
+  return location;
+};
+
+// Offset the server already holds for an upload, or null if it expired
+const getUploadOffset = async (uploadUrl: string, signal: AbortSignal): Promise<number | null> => {
+  try {
+    const xhr = await sendRequest('HEAD', uploadUrl, {}, signal);
+    return Number(xhr.getResponseHeader('Upload-Offset') ?? 0);
+  } catch (error) {
+    if (error instanceof UploadHttpError && [403, 404, 410].includes(error.status)) return null;
+    throw error;
+  }
+};
+
+const uploadChunk = async (
+  uploadUrl: string,
+  file: File,
+  offset: number,
+  signal: AbortSignal,
+  onProgress: (bytesUploaded: number) => void,
+): Promise<number> => {
+  const chunk = file.slice(offset, offset + CHUNK_SIZE);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const xhr = await sendRequest('PATCH', uploadUrl, {
+        'Upload-Offset': String(offset),
+        'Content-Type': 'application/offset+octet-stream',
+      }, signal, chunk, (loaded) => onProgress(offset + loaded));
+      return Number(xhr.getResponseHeader('Upload-Offset') ?? offset + chunk.size);
+    } catch (error) {
+      if (isAbort(error) || attempt >= MAX_CHUNK_ATTEMPTS) throw error;
+      console.warn(`[videoUpload] Chunk at ${offset} failed (attempt ${attempt}), retrying...`, error);
+      await wait(RETRY_DELAYS_MS[attempt - 1], signal);
+      // The server may have stored part of the chunk before failing
+      const serverOffset = await getUploadOffset(uploadUrl, signal);
+      if (serverOffset !== null && serverOffset !== offset) return serverOffset;
+    }
+  }
+};
+
+const uploadToStorage = async (
+  key: string,
+  objectPrefix: string,
+  file: File,
+  signal: AbortSignal,
+  onProgress: (progress: UploadProgress) => void,
+): Promise<UploadedVideo> => {
+  const id = fingerprint(key, file);
+  const report = (bytesUploaded: number) => onProgress({
+    bytesUploaded,
+    bytesTotal: file.size,
+    percentage: file.size > 0 ? Math.min((bytesUploaded / file.size) * 100, 100) : 100,
+  });
+
+  // Resume a previous attempt for the same file if the server still has it
+  let stored = loadStoredUploads()[id];
+  let offset = stored ? await getUploadOffset(stored.uploadUrl, signal) : null;
+
+  if (!stored || offset === null) {
+    const safeName = file.name.replace(/[^a-zA-Z0-9._-]/g, '_');
+    const path = `${objectPrefix}/${Date.now()}-${safeName}`;
+    stored = { uploadUrl: await createUpload(file, path, signal), path };
+    saveStoredUpload(id, stored);
+    offset = 0;
+  }
+
+  report(offset);
+  while (offset < file.size) {
+    offset = await uploadChunk(stored.uploadUrl, file, offset, signal, report);
+    report(offset);
+  }
+
+  saveStoredUpload(id, null);
+  const { data } = supabase!.storage.from(ENROLLMENT_VIDEOS_BUCKET).getPublicUrl(stored.path);
+  return { path: stored.path, url: data.publicUrl };
+};
+
+// ==================== MOCK UPLOAD ====================
+// Local development without Supabase: fake progress only. No URL is returned, as a
+// blob URL would be saved with the enrollment and be dead after a reload
+const simulateUpload = async (
+  file: File,
+  signal: AbortSignal,
+  onProgress: (progress: UploadProgress) => void,
+): Promise<UploadedVideo> => {
+  const steps = 20;
+  for (let step = 1; step <= steps; step++) {
+    await wait(100, signal);
+    const bytesUploaded = Math.round((file.size * step) / steps);
+    onProgress({ bytesUploaded, bytesTotal: file.size, percentage: (step / steps) * 100 });
+  }
+  return { path: `local/${file.name}` };
+};
+
+/**
+ * Start uploading a video. `key` identifies the upload for resuming
+ * (the enrollment id), `objectPrefix` is the folder inside the bucket.
+ */
+export const startVideoUpload = (
+  key: string,
+  objectPrefix: string,
+  file: File,
+  onProgress: (progress: UploadProgress) => void,
+): VideoUpload => {
+  const controller = new AbortController();
+
+  const run = async (): Promise<Result<UploadedVideo>> => {
+    try {
+      const video = isSupabaseConfigured()
+        ? await uploadToStorage(key, objectPrefix, file, controller.signal, onProgress)
+        : await simulateUpload(file, controller.signal, onProgress);
+      return ok(video);
+    } catch (error) {
+      if (isAbort(error)) {
+        return fail({ kind: 'cancelled', message: 'Upload cancelled' });
+      }
+      console.error('[videoUpload] Upload failed:', error);
+      return fail({
+        kind: 'unexpected',
+        message: error instanceof Error ? error.message : String(error),
+        code: error instanceof UploadHttpError ? String(error.status) : undefined,
+      });
+    }
+  };
+
+  return {
+    result: run(),
+    cancel: () => controller.abort(),
+  };
+};
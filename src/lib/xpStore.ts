@@ -0,0 +1,72 @@
+import { fromTable, runListQuery } from './repository';
+import { isSupabaseConfigured } from './supabase';
+import { ok, type Result } from './result';
+import { mapXPEventRow, toXPEventRow, type XPEventRow } from './mappers';
+import type { XPEvent } from '../pages/Collaborators/types';
+
+/**
+ * Append-only XP event logs, one per collaborator.
+ * Event ids are derived from what earned them, so recording the same
+ * event twice is a no-op. Without Supabase, only this browser's creator
+ * has a log, kept in localStorage.
+ */
+
+const XP_EVENTS_STORAGE_KEY = 'snoonu-collaborators-xp-events';
+
+type StoredXPEvent = Omit<XPEvent, 'at'> & { at: string };
+
+const loadLocalEvents = (): XPEvent[] => {
+  try {
+    const stored = localStorage.getItem(XP_EVENTS_STORAGE_KEY);
+    if (!stored) return [];
+    const parsed: StoredXPEvent[] = JSON.parse(stored);
+    return parsed.map(e => ({ ...e, at: new Date(e.at) }));
+  } catch (error) {
+    console.error('[xpStore] Failed to load XP events from localStorage:', error);
+    return [];
+  }
+};
+
+const saveLocalEvents = (events: XPEvent[]): void => {
+  try {
+    const existing = loadLocalEvents();
+    const existingIds = new Set(existing.map(e => e.id));
+    const serialized: StoredXPEvent[] = [...existing, ...events.filter(e => !existingIds.has(e.id))]
+      .map(e => ({ ...e, at: e.at.toISOString() }));
+    localStorage.setItem(XP_EVENTS_STORAGE_KEY, JSON.stringify(serialized));
+  } catch (error) {
+    console.error('[xpStore] Failed to save XP events to localStorage:', error);
+  }
+};
+
+// Logs for the given collaborators, oldest event first
+export const listXPEvents = async (collaboratorIds: string[]): Promise<Result<XPEvent[]>> => {
+  if (!isSupabaseConfigured()) {
+    const idSet = new Set(collaboratorIds);
+    return ok(loadLocalEvents().filter(e => idSet.has(e.collaboratorId)));
+  }
+  if (collaboratorIds.length === 0) return ok([]);
+
+  return runListQuery<XPEventRow, XPEvent>(
+    'Fetching XP events',
+    () => fromTable('xp_events').select('*').in('collaborator_id', collaboratorIds).order('at', { ascending: true }),
+    mapXPEventRow,
+  );
+};
+
+// Returns the events that were new to the log
+export const recordXPEvents = async (events: XPEvent[]): Promise<Result<XPEvent[]>> => {
+  if (!isSupabaseConfigured()) {
+    saveLocalEvents(events);
+    return ok(events);
+  }
+  if (events.length === 0) return ok([]);
+
+  return runListQuery<XPEventRow, XPEvent>(
+    'Recording XP events',
+    () => fromTable('xp_events')
+      .upsert(events.map(toXPEventRow), { onConflict: 'id', ignoreDuplicates: true })
+      .select(),
+    mapXPEventRow,
+  );
+};
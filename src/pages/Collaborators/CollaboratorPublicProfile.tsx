@@ -0,0 +1,238 @@
+import { useState, useMemo } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { referralPlatforms, tierConfig } from './constants';
+import { enteredCurrentStatusAt } from './enrollmentStateMachine';
+import { getAvatarUrl } from './utils';
+import { getCampaignHistoryByVertical, getSocialUrl, getXPTrend } from './publicProfile';
+import { usePublicProfile } from './hooks/usePublicProfile';
+import { useCampaigns } from './hooks/useCampaigns';
+import { AreaChart, TierBadge } from './components';
+
+/**
+ * Public creator page at /collaborators/u/:handle, linked from the leaderboard
+ * and meant to be shared: bio, social accounts, XP trend, campaign history
+ * and approved videos.
+ */
+export const CollaboratorPublicProfile = () => {
+  const { handle = '' } = useParams<{ handle: string }>();
+  const { isLoading, collaborator, xpLog, videos } = usePublicProfile(handle);
+  const { campaigns } = useCampaigns();
+  const [copied, setCopied] = useState(false);
+  // Shown for copying by hand when the clipboard is unavailable or refused
+  const [fallbackUrl, setFallbackUrl] = useState<string | null>(null);
+  const [imageError, setImageError] = useState(false);
+
+  const xpTrend = useMemo(() => getXPTrend(xpLog), [xpLog]);
+  const history = useMemo(() => getCampaignHistoryByVertical(xpLog, campaigns), [xpLog, campaigns]);
+
+  // The page's own URL, through the share sheet where there is one
+  const handleShare = async () => {
+    const url = window.location.href;
+    if (navigator.share) {
+      try {
+        await navigator.share({ title: `${collaborator?.handle} on Snoonu Collaborators`, url });
+      } catch {
+        // Dismissing the share sheet is not an error
+      }
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(url);
+      setFallbackUrl(null);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('[CollaboratorPublicProfile] Failed to copy profile link:', error);
+      setFallbackUrl(url);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-[calc(100vh-4rem)] flex flex-col items-center justify-center gap-3 text-gray-500">
+        <div className="w-8 h-8 border-2 border-snoonu-red border-t-transparent rounded-full animate-spin" />
+        <p className="text-sm">Loading profile...</p>
+      </div>
+    );
+  }
+
+  if (!collaborator) {
+    return (
+      <div className="min-h-[calc(100vh-4rem)] flex items-center justify-center px-6 py-12">
+        <div className="w-full max-w-md bg-white rounded-2xl shadow-sm border border-gray-100 p-8 text-center">
+          <h1 className="text-xl font-bold text-gray-900 mb-2">Creator not found</h1>
+          <p className="text-sm text-gray-500 mb-6">No collaborator goes by @{handle.replace(/^@/, '')}.</p>
+          <Link to="/collaborators" className="text-sm font-medium text-snoonu-red hover:underline">
+            Back to Collaborators
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const tier = tierConfig[collaborator.tier];
+
+  return (
+    <div className="min-h-screen bg-gray-50 pb-8">
+      <div className="max-w-4xl mx-auto px-6 lg:px-8 py-6 space-y-6">
+        <Link to="/collaborators" className="inline-block text-sm font-medium text-snoonu-red hover:underline">
+          ← Back to Collaborators
+        </Link>
+
+        {/* Header */}
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+          <div className={`h-28 bg-gradient-to-r ${tier.gradient || 'from-gray-400 to-gray-600'}`} />
+          <div className="px-6 pb-6">
+            <div className="flex flex-wrap items-end justify-between gap-4 -mt-12">
+              <div className="w-24 h-24 bg-white rounded-full p-1 shadow-lg overflow-hidden">
+                {getAvatarUrl(collaborator.avatar) && !imageError ? (
+                  <img
+                    src={getAvatarUrl(collaborator.avatar) ?? undefined}
+                    alt={collaborator.handle}
+                    className="w-full h-full object-cover rounded-full"
+                    onError={() => setImageError(true)}
+                  />
+                ) : (
+                  <div className={`w-full h-full rounded-full bg-gradient-to-br ${tier.gradient || 'from-gray-400 to-gray-600'} flex items-center justify-center text-3xl text-white font-bold`}>
+                    {collaborator.handle.replace('@', '').charAt(0).toUpperCase()}
+                  </div>
+                )}
+              </div>
+              <button
+                onClick={handleShare}
+                className="px-4 py-2 bg-gray-900 text-white text-sm font-semibold rounded-lg hover:bg-gray-800 transition-colors"
+              >
+                {copied ? 'Link copied!' : 'Share profile'}
+              </button>
+            </div>
+            {fallbackUrl && (
+              <label className="block mt-3">
+                <span className="text-xs text-red-600">Couldn't copy the link. Copy it from here instead:</span>
+                <input
+                  readOnly
+                  value={fallbackUrl}
+                  onFocus={(e) => e.target.select()}
+                  className="w-full mt-1 px-3 py-2 text-sm border border-gray-200 rounded-lg bg-gray-50 text-gray-700"
+                />
+              </label>
+            )}
+
+            <h1 className="text-2xl font-bold text-gray-900 mt-3">{collaborator.handle}</h1>
+            <div className="flex items-center gap-2 mt-1 text-sm text-gray-500">
+              <TierBadge tier={collaborator.tier} size="md" />
+              {collaborator.joinedDate && <span>Joined {collaborator.joinedDate}</span>}
+            </div>
+            {collaborator.bio && <p className="text-gray-700 mt-3">{collaborator.bio}</p>}
+
+            {collaborator.socials && collaborator.socials.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-4">
+                {collaborator.socials.map(account => (
+                  <a
+                    key={`${account.platform}-${account.handle}`}
+                    href={getSocialUrl(account)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-1.5 px-3 py-1 rounded-full border border-gray-200 text-sm text-gray-700 hover:bg-gray-50"
+                  >
+                    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: referralPlatforms[account.platform].color }} />
+                    {referralPlatforms[account.platform].label}
+                    <span className="text-gray-400">@{account.handle.replace(/^@/, '')}</span>
+                  </a>
+                ))}
+              </div>
+            )}
+
+            <div className="grid grid-cols-3 gap-3 mt-6">
+              <div className="bg-gray-50 rounded-lg p-3 text-center">
+                <div className="text-xl font-bold text-gray-900">{collaborator.approvedCount}</div>
+                <div className="text-xs text-gray-500">Approvals</div>
+              </div>
+              <div className="bg-gradient-to-br from-violet-50 to-purple-50 rounded-lg p-3 text-center">
+                <div className="text-xl font-bold text-emerald-500">{collaborator.totalXP.toLocaleString()}</div>
+                <div className="text-xs text-gray-500">Total XP</div>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-3 text-center">
+                <div className="text-xl font-bold text-gray-900">{history.reduce((sum, v) => sum + v.campaigns.length, 0)}</div>
+                <div className="text-xs text-gray-500">Campaigns</div>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* XP Trend */}
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
+          <h2 className="font-bold text-gray-900">XP Trend</h2>
+          <p className="text-xs text-gray-500 mb-4">XP earned per week, last 12 weeks</p>
+          <AreaChart data={xpTrend} dataKey="xp" color="#10B981" gradientId="xpTrendGradient" height={220} />
+        </div>
+
+        {/* Campaign History */}
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
+          <h2 className="font-bold text-gray-900 mb-4">Campaign History</h2>
+          {history.length === 0 ? (
+            <p className="text-sm text-gray-500">No campaigns yet.</p>
+          ) : (
+            <div className="space-y-5">
+              {history.map(vertical => (
+                <div key={vertical.vertical}>
+                  <div className="flex items-center justify-between mb-2">
+                    <h3 className="text-sm font-semibold text-gray-700">{vertical.vertical}</h3>
+                    <span className="text-xs font-semibold text-emerald-500">{vertical.xp.toLocaleString()} XP</span>
+                  </div>
+                  <div className="divide-y divide-gray-50">
+                    {vertical.campaigns.map(campaign => (
+                      <div key={campaign.merchant} className="flex items-center justify-between py-2">
+                        <div className="flex items-center gap-3">
+                          <div className="w-10 h-10 rounded-lg bg-white border border-gray-100 flex items-center justify-center overflow-hidden shadow-sm">
+                            {campaign.logo.startsWith('http') ? (
+                              <img src={campaign.logo} alt={campaign.merchant} className="w-8 h-8 object-contain" />
+                            ) : (
+                              <span className="text-lg">{campaign.logo}</span>
+                            )}
+                          </div>
+                          <div>
+                            <div className="text-sm font-medium text-gray-700">{campaign.merchant}</div>
+                            <div className="text-xs text-gray-400">
+                              {campaign.category}
+                              {campaign.approvals > 0 && ` · ${campaign.approvals} approval${campaign.approvals !== 1 ? 's' : ''}`}
+                            </div>
+                          </div>
+                        </div>
+                        <span className="text-sm font-semibold text-emerald-500">+{campaign.xp.toLocaleString()} XP</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Approved Videos */}
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
+          <h2 className="font-bold text-gray-900 mb-4">Approved Videos</h2>
+          {videos.length === 0 ? (
+            <p className="text-sm text-gray-500">No approved videos to show yet.</p>
+          ) : (
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+              {videos.map(enrollment => (
+                <div key={enrollment.id}>
+                  <video
+                    src={enrollment.uploadedFile?.url}
+                    controls
+                    preload="metadata"
+                    className="w-full aspect-[9/16] object-cover rounded-xl bg-gray-900"
+                  />
+                  <div className="mt-2 text-sm font-medium text-gray-700">{enrollment.campaign.merchant}</div>
+                  <div className="text-xs text-gray-400">
+                    Approved {enteredCurrentStatusAt(enrollment).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import { useState, useEffect, useRef } from 'react';
+import { useParams } from 'react-router-dom';
+import type { Enrollment } from './types';
+import { createReferralClick, getClickSource } from './referrals';
+import { hasCampaignEnded } from './campaignLifecycle';
+import { loadEnrollmentsFromStorage } from './hooks/useSyncedEnrollments';
+import { isSupabaseConfigured } from '../../lib/supabase';
+import { resolveReferralCode, recordReferralClick } from '../../lib/referralsStore';
+import { ok } from '../../lib/result';
+
+/**
+ * Landing page at /r/:code that shoppers reach from a creator's video.
+ * Resolves the code to its enrollment, records the click once, and shows
+ * the campaign offer while the campaign is running.
+ */
+export const ReferralLanding = () => {
+  const { code = '' } = useParams<{ code: string }>();
+  const [resolved, setResolved] = useState<{ code: string; enrollment: Enrollment | null } | null>(null);
+  // StrictMode runs effects twice in development; only count a code once per visit
+  const recordedCodeRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const lookup = isSupabaseConfigured()
+      ? resolveReferralCode(code)
+      : Promise.resolve(ok(loadEnrollmentsFromStorage().find(e => e.referralCode === code) ?? null));
+
+    lookup.then(result => {
+      if (cancelled) return;
+      // Links to ended campaigns resolve like unknown codes
+      const enrollment = result.ok && result.data && !hasCampaignEnded(result.data.campaign) ? result.data : null;
+      setResolved({ code, enrollment });
+
+      if (enrollment?.status === 'approved' && recordedCodeRef.current !== code) {
+        recordedCodeRef.current = code;
+        recordReferralClick(createReferralClick(
+          enrollment,
+          getClickSource(window.location.search, document.referrer),
+          navigator.userAgent,
+        ));
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [code]);
+
+  const isLoading = resolved?.code !== code;
+  const campaign = resolved?.enrollment?.status === 'approved' ? resolved.enrollment.campaign : null;
+
+  return (
+    <div className="min-h-[calc(100vh-4rem)] flex items-center justify-center px-6 py-12">
+      <div className="w-full max-w-md bg-white rounded-2xl shadow-sm border border-gray-100 p-8 text-center">
+        {isLoading ? (
+          <div className="flex flex-col items-center gap-3 text-gray-500">
+            <div className="w-8 h-8 border-2 border-snoonu-red border-t-transparent rounded-full animate-spin" />
+            <p className="text-sm">Loading offer...</p>
+          </div>
+        ) : campaign ? (
+          <>
+            <div className="w-20 h-20 bg-gray-50 rounded-2xl flex items-center justify-center overflow-hidden mx-auto mb-4 border border-gray-100 p-2">
+              {campaign.logo.startsWith('http') ? (
+                <img src={campaign.logo} alt={campaign.merchant} className="w-full h-full object-contain" />
+              ) : (
+                <span className="text-2xl font-bold text-gray-400">{campaign.merchant.charAt(0)}</span>
+              )}
+            </div>
+            <p className="text-sm text-gray-500">{campaign.category}</p>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">{campaign.merchant}</h1>
+            {campaign.discount && (
+              <p className="text-lg font-semibold text-snoonu-red mb-1">{campaign.discount}</p>
+            )}
+            {campaign.minOrder && (
+              <p className="text-xs text-gray-400 mb-6">Minimum order {campaign.minOrder}</p>
+            )}
+            <a
+              href="https://snoonu.com"
+              className="inline-flex w-full justify-center px-4 py-3 bg-gradient-to-r from-snoonu-red to-red-600 text-white font-semibold rounded-xl shadow-md hover:shadow-lg transition-shadow"
+            >
+              Order on Snoonu
+            </a>
+            <p className="mt-4 text-[11px] text-gray-400">
+              Referral code <span className="font-mono">{code}</span>
+            </p>
+          </>
+        ) : (
+          <>
+            <h1 className="text-xl font-bold text-gray-900 mb-2">Offer not found</h1>
+            <p className="text-sm text-gray-500 mb-6">
+              This referral link is invalid or the offer is no longer available.
+            </p>
+            <a href="https://snoonu.com" className="text-sm font-medium text-snoonu-red hover:underline">
+              Go to Snoonu
+            </a>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
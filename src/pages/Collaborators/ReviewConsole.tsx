@@ -0,0 +1,112 @@
+import { useState, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import type { ReviewItem } from './types';
+import { useReviewQueue } from './hooks/useReviewQueue';
+import { ReviewPanel, Toast } from './components';
+
+/**
+ * Ops console at /collaborators/review for approving or rejecting
+ * submissions that are waiting in 'under-review'.
+ */
+export const ReviewConsole = () => {
+  const { items, isLoading, error, approve, reject } = useReviewQueue();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' | 'info' } | null>(null);
+
+  const showToast = useCallback((message: string, type: 'success' | 'error' | 'info' = 'success') => {
+    setToast({ message, type });
+    setTimeout(() => setToast(null), 3000);
+  }, []);
+
+  // Fall back to the oldest submission once the selected one has been decided
+  const selected = items.find(i => i.enrollment.id === selectedId) ?? items[0] ?? null;
+
+  const handleApprove = async (item: ReviewItem) => {
+    const result = await approve(item);
+    if (result.ok) showToast(`${item.enrollment.campaign.merchant} submission approved`);
+    else showToast(`Could not approve: ${result.error.message}`, 'error');
+  };
+
+  const handleReject = async (item: ReviewItem, reason: string) => {
+    const result = await reject(item, reason);
+    if (result.ok) showToast(`${item.enrollment.campaign.merchant} submission rejected`, 'info');
+    else showToast(`Could not reject: ${result.error.message}`, 'error');
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 pb-8">
+      {/* Header */}
+      <div className="bg-white shadow-sm">
+        <div className="max-w-7xl mx-auto px-6 lg:px-8 py-6 flex items-end justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Review Queue</h1>
+            <p className="text-gray-500 mt-1">
+              {isLoading ? 'Loading submissions...' : `${items.length} submission${items.length === 1 ? '' : 's'} waiting for review`}
+            </p>
+          </div>
+          <Link to="/collaborators" className="text-sm font-medium text-snoonu-red hover:underline">
+            Back to Collaborators
+          </Link>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-6 lg:px-8 py-6">
+        {error && (
+          <div className="mb-6 bg-red-50 border border-red-200 rounded-xl p-4 text-sm text-red-700">
+            Could not load the review queue: {error.message}
+          </div>
+        )}
+
+        {!isLoading && items.length === 0 ? (
+          <div className="bg-white rounded-2xl border border-gray-100 p-12 text-center">
+            <div className="text-4xl mb-3">✅</div>
+            <p className="font-semibold text-gray-700">All caught up</p>
+            <p className="text-sm text-gray-500 mt-1">New submissions appear here once they reach review.</p>
+          </div>
+        ) : (
+          <div className="grid lg:grid-cols-3 gap-6">
+            {/* Queue */}
+            <div className="space-y-2">
+              {items.map(item => {
+                const isSelected = selected?.enrollment.id === item.enrollment.id;
+                return (
+                  <button
+                    key={item.enrollment.id}
+                    onClick={() => setSelectedId(item.enrollment.id)}
+                    className={`w-full text-left bg-white rounded-xl border p-4 transition-all ${
+                      isSelected ? 'border-snoonu-red shadow-md' : 'border-gray-100 hover:border-gray-200'
+                    }`}
+                  >
+                    <div className="font-semibold text-gray-900">{item.enrollment.campaign.merchant}</div>
+                    <div className="text-xs text-gray-500 truncate">
+                      {item.enrollment.uploadedFile?.name ?? 'No file'}
+                    </div>
+                    <div className="text-xs text-gray-400 mt-1">
+                      Enrolled {item.enrollment.enrolledAt.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+
+            {/* Decision */}
+            <div className="lg:col-span-2">
+              {selected && (
+                <ReviewPanel
+                  key={selected.enrollment.id}
+                  item={selected}
+                  onApprove={() => handleApprove(selected)}
+                  onReject={(reason) => handleReject(selected, reason)}
+                />
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {toast && <Toast message={toast.message} type={toast.type} />}
+    </div>
+  );
+};
+
+export default ReviewConsole;
@@ -0,0 +1,142 @@
+import type {
+  Achievement,
+  AchievementActivity,
+  AchievementId,
+  AchievementStatus,
+  Campaign,
+  ConversionRecord,
+  Enrollment,
+  XPEvent,
+} from './types';
+import { achievementConfig } from './constants';
+import { enteredCurrentStatusAt } from './enrollmentStateMachine';
+import { getWeekStart } from './leaderboardRanking';
+
+/**
+ * Creator achievements. Each rule walks a collaborator's approvals and orders
+ * oldest first, tracking its best progress and the moment the target was
+ * first reached, so an unlock keeps its date however much activity follows.
+ */
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// ==================== ACTIVITY ====================
+const byTime = (a: AchievementActivity, b: AchievementActivity) => a.at.getTime() - b.at.getTime();
+
+// Approved enrollments and the orders they drove; cancelled orders do not count
+export const getActivityFromEnrollments = (
+  enrollments: Enrollment[],
+  conversions: ConversionRecord[],
+): AchievementActivity[] => {
+  const categories = new Map(enrollments.map(e => [e.id, e.campaign.category]));
+  return [
+    ...enrollments
+      .filter(e => e.status === 'approved')
+      .map(e => ({ kind: 'approval' as const, at: enteredCurrentStatusAt(e), category: e.campaign.category })),
+    ...conversions
+      .filter(c => !c.reversal)
+      .map(c => ({ kind: 'conversion' as const, at: c.timestamp, category: categories.get(c.enrollmentId) ?? null })),
+  ].sort(byTime);
+};
+
+// For collaborators whose enrollments are not loaded, their XP log stands in;
+// categories come from the loaded campaigns, matched by merchant
+export const getActivityFromXPLog = (events: XPEvent[], campaigns: Campaign[]): AchievementActivity[] => {
+  const categoryByMerchant = new Map(campaigns.map(c => [c.merchant, c.category]));
+  const reversedOrders = new Set(events.filter(e => e.kind === 'reversal').map(e => e.orderId));
+  return events
+    .filter(e => e.kind === 'approval' || (e.kind === 'conversion' && !(e.orderId && reversedOrders.has(e.orderId))))
+    .map(e => ({
+      kind: e.kind === 'approval' ? 'approval' as const : 'conversion' as const,
+      at: e.at,
+      category: categoryByMerchant.get(e.merchant) ?? null,
+    }))
+    .sort(byTime);
+};
+
+// ==================== RULES ====================
+interface RuleResult {
+  progress: number;
+  unlockedAt: Date | null;
+}
+
+type AchievementRule = (activity: AchievementActivity[], target: number) => RuleResult;
+
+const approvalsOf = (activity: AchievementActivity[]) => activity.filter(a => a.kind === 'approval');
+
+// Feeds each step's running count in and keeps the best, noting when it first reached the target
+const trackBest = (target: number) => {
+  const result: RuleResult = { progress: 0, unlockedAt: null };
+  return {
+    result,
+    record: (count: number, at: Date) => {
+      result.progress = Math.max(result.progress, Math.min(count, target));
+      if (count >= target && !result.unlockedAt) result.unlockedAt = at;
+    },
+  };
+};
+
+const rules: Record<AchievementId, AchievementRule> = {
+  'first-approval': (activity, target) => {
+    const { result, record } = trackBest(target);
+    approvalsOf(activity).forEach((approval, i) => record(i + 1, approval.at));
+    return result;
+  },
+
+  // Orders on one calendar day
+  'conversion-rush': (activity, target) => {
+    const { result, record } = trackBest(target);
+    const perDay = new Map<string, number>();
+    activity.filter(a => a.kind === 'conversion').forEach(({ at }) => {
+      const day = at.toDateString();
+      const count = (perDay.get(day) ?? 0) + 1;
+      perDay.set(day, count);
+      record(count, at);
+    });
+    return result;
+  },
+
+  // Counted by category: the vertical field only separates restaurants from markets
+  'category-explorer': (activity, target) => {
+    const { result, record } = trackBest(target);
+    const categories = new Set<string>();
+    approvalsOf(activity).forEach(({ at, category }) => {
+      if (category) categories.add(category);
+      record(categories.size, at);
+    });
+    return result;
+  },
+
+  // Consecutive weeks (starting Sunday) with at least one approval
+  'weekly-streak': (activity, target) => {
+    const { result, record } = trackBest(target);
+    let lastWeek: number | null = null;
+    let streak = 0;
+    approvalsOf(activity).forEach(({ at }) => {
+      const week = Math.round(getWeekStart(at).getTime() / WEEK_MS);
+      if (week === lastWeek) return;
+      streak = lastWeek !== null && week === lastWeek + 1 ? streak + 1 : 1;
+      lastWeek = week;
+      record(streak, at);
+    });
+    return result;
+  },
+};
+
+// ==================== STATUS ====================
+// Every achievement in shelf order; stored unlocks stay unlocked with their original date
+export const evaluateAchievements = (
+  activity: AchievementActivity[],
+  stored: Achievement[] = [],
+): AchievementStatus[] =>
+  (Object.keys(achievementConfig) as AchievementId[]).map(id => {
+    const { target } = achievementConfig[id];
+    const storedUnlock = stored.find(a => a.achievementId === id);
+    const { progress, unlockedAt } = rules[id](activity, target);
+    return storedUnlock
+      ? { id, progress: target, target, unlockedAt: storedUnlock.unlockedAt }
+      : { id, progress, target, unlockedAt };
+  });
+
+export const getUnlockedAchievements = (collaboratorId: string, statuses: AchievementStatus[]): Achievement[] =>
+  statuses.flatMap(({ id, unlockedAt }) => (unlockedAt ? [{ achievementId: id, collaboratorId, unlockedAt }] : []));
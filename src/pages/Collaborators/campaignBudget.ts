@@ -0,0 +1,81 @@
+import type { Campaign, CampaignBudget, ConversionRecord, Enrollment } from './types';
+import { BUDGET_LOW_RATIO } from './constants';
+
+/**
+ * Referral budget of a campaign: every credited conversion uses one referral,
+ * a reversed order gives its referral back, and once none are left the
+ * campaign takes no new enrollments and later orders earn nothing.
+ */
+
+// "600 referrals available" -> 600; null when the text has no referral count
+export const parseReferralBudget = (budget: string): number | null => {
+  const match = budget.replace(/,/g, '').match(/(\d+)\s*referrals?/i);
+  return match ? Number(match[1]) : null;
+};
+
+// Stored total wins; older campaign rows only have the display string
+export const getBudgetTotal = (campaign: Campaign): number | null =>
+  campaign.budgetTotal ?? parseReferralBudget(campaign.budget);
+
+export const isCredited = (conversion: ConversionRecord): boolean =>
+  !conversion.reversal && !conversion.outOfBudget;
+
+// Campaign id -> referrals this creator's conversions currently use
+export const countCreditedReferrals = (
+  conversions: ConversionRecord[],
+  enrollments: Enrollment[],
+): Map<string, number> => {
+  const campaignByEnrollment = new Map(enrollments.map(e => [e.id, e.campaign.id]));
+  const counts = new Map<string, number>();
+  conversions.filter(isCredited).forEach(conversion => {
+    const campaignId = campaignByEnrollment.get(conversion.enrollmentId);
+    if (campaignId) counts.set(campaignId, (counts.get(campaignId) ?? 0) + 1);
+  });
+  return counts;
+};
+
+// Null for campaigns without a referral budget, which never run out
+export const summarizeBudget = (campaign: Campaign, used: number): CampaignBudget | null => {
+  const total = getBudgetTotal(campaign);
+  if (total === null) return null;
+
+  const clampedUsed = Math.min(Math.max(used, 0), total);
+  const remaining = total - clampedUsed;
+  return {
+    total,
+    used: clampedUsed,
+    remaining,
+    state: remaining === 0 ? 'exhausted' : remaining / total < BUDGET_LOW_RATIO ? 'low' : 'open',
+  };
+};
+
+export const isBudgetExhausted = (budget: CampaignBudget | null): boolean => budget?.state === 'exhausted';
+
+// Replays orders and reversals oldest first against `remaining` referrals.
+// Orders that find the budget empty keep counting as orders but earn nothing.
+export const applyReferralBudget = (conversions: ConversionRecord[], remaining: number): ConversionRecord[] => {
+  const events = conversions
+    .flatMap((conversion, index) => [
+      { at: conversion.timestamp.getTime(), index, isReversal: false },
+      ...(conversion.reversal ? [{ at: conversion.reversal.at.getTime(), index, isReversal: true }] : []),
+    ])
+    .sort((a, b) => a.at - b.at);
+
+  const outOfBudget = new Set<number>();
+  let left = remaining;
+  events.forEach(({ index, isReversal }) => {
+    if (isReversal) {
+      if (!outOfBudget.has(index)) left++;
+    } else if (left > 0) {
+      left--;
+    } else {
+      outOfBudget.add(index);
+    }
+  });
+
+  return outOfBudget.size === 0
+    ? conversions
+    : conversions.map((conversion, index) =>
+      outOfBudget.has(index) ? { ...conversion, amount: 0, outOfBudget: true } : conversion
+    );
+};
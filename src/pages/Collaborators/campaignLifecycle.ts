@@ -0,0 +1,81 @@
+import type { Campaign, CampaignPhase, CampaignPhaseInfo, CampaignSchedule } from './types';
+import { ENDING_SOON_DAYS, campaignPhaseConfig } from './constants';
+
+/**
+ * Campaign schedule and lifecycle phase. Campaigns take enrollments and
+ * uploads only while live; when one ends, enrollments that were not yet
+ * approved are closed as campaign-ended.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const parseDate = (value: string | undefined): Date | null => {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+// "Campaign runs until Mar 10, 2026" -> end of Mar 10, 2026 local time
+export const parseTimelineEnd = (timeline: string): Date | null => {
+  const date = parseDate(timeline.match(/until\s+(.+)$/i)?.[1]);
+  if (!date) return null;
+  date.setHours(23, 59, 59, 999);
+  return date;
+};
+
+// Stored dates win; older campaign rows only have the timeline sentence
+export const getCampaignSchedule = (campaign: Campaign): CampaignSchedule => ({
+  startsAt: parseDate(campaign.startsAt),
+  endsAt: parseDate(campaign.endsAt) ?? parseTimelineEnd(campaign.timeline),
+});
+
+export const getCampaignPhase = (campaign: Campaign, now = new Date()): CampaignPhase => {
+  const { startsAt, endsAt } = getCampaignSchedule(campaign);
+  if (startsAt && now < startsAt) return 'upcoming';
+  if (endsAt && now >= endsAt) return 'ended';
+  if (endsAt && endsAt.getTime() - now.getTime() <= ENDING_SOON_DAYS * DAY_MS) return 'ending-soon';
+  return 'live';
+};
+
+export const hasCampaignEnded = (campaign: Campaign, now = new Date()): boolean =>
+  getCampaignPhase(campaign, now) === 'ended';
+
+export const isAcceptingEnrollments = (campaign: Campaign, now = new Date()): boolean => {
+  const phase = getCampaignPhase(campaign, now);
+  return phase === 'live' || phase === 'ending-soon';
+};
+
+const startOfDay = (date: Date): Date => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+// Calendar days until the campaign starts or ends, for badges like "Ends in 2 days"
+export const getDaysUntil = (date: Date, now = new Date()): number =>
+  Math.max(Math.round((startOfDay(date).getTime() - startOfDay(now).getTime()) / DAY_MS), 0);
+
+// Phase plus the badge text for it, e.g. "Starts in 4 days" or "Ends today"
+export const getCampaignPhaseInfo = (campaign: Campaign, now = new Date()): CampaignPhaseInfo => {
+  const phase = getCampaignPhase(campaign, now);
+  const { startsAt, endsAt } = getCampaignSchedule(campaign);
+  const countdown = (prefix: string, date: Date) => {
+    const days = getDaysUntil(date, now);
+    return days <= 1 ? `${prefix} ${days === 0 ? 'today' : 'tomorrow'}` : `${prefix} in ${days} days`;
+  };
+
+  if (phase === 'upcoming' && startsAt) return { phase, label: countdown('Starts', startsAt) };
+  if (phase === 'ending-soon' && endsAt) return { phase, label: countdown('Ends', endsAt) };
+  return { phase, label: campaignPhaseConfig[phase].label };
+};
+
+const formatDay = (date: Date): string =>
+  date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+// "Feb 1, 2026 – Mar 10, 2026", "Until Mar 10, 2026", or the timeline text if it has no date
+export const describeSchedule = (campaign: Campaign): string => {
+  const { startsAt, endsAt } = getCampaignSchedule(campaign);
+  if (startsAt && endsAt) return `${formatDay(startsAt)} – ${formatDay(endsAt)}`;
+  if (endsAt) return `Until ${formatDay(endsAt)}`;
+  return campaign.timeline;
+};
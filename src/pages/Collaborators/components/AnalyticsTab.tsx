@@ -1,238 +1,52 @@
 import { useState, useMemo, useEffect } from 'react';
-import type { Enrollment, AnalyticsData, ConversionRecord, DailyDataPoint } from '../types';
-import { statusConfig } from '../constants';
+import type {
+  Enrollment,
+  AnalyticsData,
+  ConversionRecord,
+  LedgerEntry,
+  Payout,
+  PayoutMethod,
+  ReferralClick,
+  TimeRange,
+} from '../types';
+import { statusConfig, referralPlatforms, ledgerStateConfig } from '../constants';
+import { generateAnalyticsData, isReversed } from '../utils';
+import { countClicksByEnrollment, getSourceLabel, isReferralPlatform } from '../referrals';
 import { AreaChart } from './AreaChart';
 import { PieChart } from './PieChart';
 import { MiniChart } from './MiniChart';
+import { EarningsPanel } from './EarningsPanel';
+import { PayoutsPanel } from './PayoutsPanel';
+import type { DataError, Result } from '../../../lib/result';
 
 interface AnalyticsTabProps {
   enrollments: Enrollment[];
+  conversions: ConversionRecord[];
+  conversionsError: DataError | null;
+  referralClicks: ReferralClick[];
+  ledger: LedgerEntry[];
+  payoutMethod: PayoutMethod | null;
+  payouts: Payout[];
+  onSavePayoutMethod: (method: PayoutMethod) => Promise<Result<PayoutMethod>>;
+  onWithdraw: () => Promise<void>;
 }
 
-type TimeRange = 'daily' | 'weekly' | 'monthly' | 'yearly';
-
-// Check if a date falls within the time range
-const isDateInRange = (date: Date, timeRange: TimeRange): boolean => {
-  const now = new Date();
-  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-  
-  switch (timeRange) {
-    case 'daily':
-      // Last 7 days for daily view
-      const weekAgoDaily = new Date(startOfToday.getTime() - 7 * 24 * 60 * 60 * 1000);
-      return date >= weekAgoDaily;
-    case 'weekly':
-      // Last 28 days for 4-week view
-      const monthAgoWeekly = new Date(startOfToday.getTime() - 28 * 24 * 60 * 60 * 1000);
-      return date >= monthAgoWeekly;
-    case 'monthly':
-      // Last 6 months
-      const sixMonthsAgo = new Date(startOfToday.getTime() - 180 * 24 * 60 * 60 * 1000);
-      return date >= sixMonthsAgo;
-    case 'yearly':
-      // Last 5 years (all historical data)
-      const fiveYearsAgo = new Date(startOfToday.getTime() - 5 * 365 * 24 * 60 * 60 * 1000);
-      return date >= fiveYearsAgo;
-    default:
-      return true;
-  }
-};
-
-// Generate a pool of mock conversions with actual timestamps spanning the past year
-const generateConversionPool = (enrollments: Enrollment[]): ConversionRecord[] => {
-  const approvedEnrollments = enrollments.filter(e => e.status === 'approved');
-  if (approvedEnrollments.length === 0) return [];
-  
-  const conversions: ConversionRecord[] = [];
-  const now = new Date();
-  const statuses: ('Paid' | 'Open' | 'Pending')[] = ['Paid', 'Open', 'Pending'];
-  
-  // Generate conversions spread across the past year based on enrollment data
-  approvedEnrollments.forEach(enrollment => {
-    const orderCount = enrollment.orders || 0;
-    const earningsPerOrder = orderCount > 0 ? (enrollment.earnings || 0) / orderCount : 0;
-    const clicksPerOrder = orderCount > 0 ? Math.ceil((enrollment.clicks || 0) / orderCount) : 5;
-    
-    for (let i = 0; i < orderCount; i++) {
-      // Distribute orders more evenly across all time periods
-      // Use a mix of distributions to ensure good coverage for all chart views:
-      // - Some orders in recent days (for daily view)
-      // - Some orders spread across weeks (for weekly view)  
-      // - Some orders spread across months (for monthly view)
-      // - Some orders spread across years (for yearly view)
-      
-      let daysAgo: number;
-      const distribution = Math.random();
-      
-      if (distribution < 0.15) {
-        // 15% in last 7 days (good for daily view)
-        daysAgo = Math.floor(Math.random() * 7);
-      } else if (distribution < 0.35) {
-        // 20% in last 8-30 days (good for weekly view)
-        daysAgo = 7 + Math.floor(Math.random() * 23);
-      } else if (distribution < 0.65) {
-        // 30% in last 31-180 days (good for monthly view)
-        daysAgo = 30 + Math.floor(Math.random() * 150);
-      } else {
-        // 35% spread across full year+ (good for yearly view)
-        daysAgo = 180 + Math.floor(Math.random() * 900); // Up to ~3 years back
-      }
-      
-      const timestamp = new Date(now.getTime() - daysAgo * 24 * 60 * 60 * 1000);
-      
-      // Format display date
-      const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-      const startOfYesterday = new Date(startOfToday.getTime() - 24 * 60 * 60 * 1000);
-      
-      let displayDate: string;
-      if (timestamp >= startOfToday) {
-        const hours = timestamp.getHours();
-        const minutes = timestamp.getMinutes();
-        const ampm = hours >= 12 ? 'PM' : 'AM';
-        const displayHours = hours % 12 || 12;
-        displayDate = `Today, ${displayHours}:${minutes.toString().padStart(2, '0')} ${ampm}`;
-      } else if (timestamp >= startOfYesterday) {
-        const hours = timestamp.getHours();
-        const minutes = timestamp.getMinutes();
-        const ampm = hours >= 12 ? 'PM' : 'AM';
-        const displayHours = hours % 12 || 12;
-        displayDate = `Yesterday, ${displayHours}:${minutes.toString().padStart(2, '0')} ${ampm}`;
-      } else {
-        const month = timestamp.toLocaleDateString('en-US', { month: 'short' });
-        const day = timestamp.getDate();
-        const hours = timestamp.getHours();
-        const minutes = timestamp.getMinutes();
-        const ampm = hours >= 12 ? 'PM' : 'AM';
-        const displayHours = hours % 12 || 12;
-        displayDate = `${month} ${day}, ${displayHours}:${minutes.toString().padStart(2, '0')} ${ampm}`;
-      }
-      
-      conversions.push({
-        merchant: enrollment.campaign.merchant,
-        amount: parseFloat((earningsPerOrder * (0.8 + Math.random() * 0.4)).toFixed(2)),
-        date: displayDate,
-        orderId: `ORD-${8821 - conversions.length}`,
-        timestamp,
-        status: statuses[Math.floor(Math.random() * statuses.length)],
-        clicks: clicksPerOrder + Math.floor(Math.random() * 3),
-      });
-    }
-  });
-  
-  // Sort by timestamp descending (most recent first)
-  return conversions.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
-};
-
-// Generate analytics data by filtering conversions based on time range
-const generateAnalyticsData = (
-  allConversions: ConversionRecord[],
-  selectedMerchant: string,
-  timeRange: TimeRange
-): AnalyticsData => {
-  // Filter by merchant if selected
-  let filteredConversions = selectedMerchant === 'all'
-    ? allConversions
-    : allConversions.filter(c => c.merchant === selectedMerchant);
-  
-  // Filter by time range
-  filteredConversions = filteredConversions.filter(c => isDateInRange(c.timestamp, timeRange));
-  
-  // Calculate totals from filtered conversions
-  const totalClicks = filteredConversions.reduce((sum, c) => sum + c.clicks, 0);
-  const totalOrders = filteredConversions.length;
-  const pendingEarnings = filteredConversions.filter(c => c.status !== 'Paid').reduce((sum, c) => sum + c.amount, 0);
-  const availableEarnings = filteredConversions.filter(c => c.status === 'Paid').reduce((sum, c) => sum + c.amount, 0);
-  
-  // Generate chart data points based on time range
-  const dailyData: DailyDataPoint[] = [];
-  const now = new Date();
-  
-  let dataPoints: number;
-  let dateFormatter: (date: Date, index: number, total: number) => string;
-  let getDateBucket: (date: Date) => string;
-  
-  switch (timeRange) {
-    case 'daily':
-      dataPoints = 7;
-      dateFormatter = (date) => date.toLocaleDateString('en-US', { weekday: 'short' });
-      getDateBucket = (date) => date.toLocaleDateString('en-US', { weekday: 'short' });
-      break;
-    case 'weekly':
-      dataPoints = 4;
-      dateFormatter = (_, i, total) => `Week ${total - i}`;
-      getDateBucket = (date) => {
-        const weekNum = Math.floor((now.getTime() - date.getTime()) / (7 * 24 * 60 * 60 * 1000));
-        return `Week ${4 - Math.min(weekNum, 3)}`;
-      };
-      break;
-    case 'monthly':
-      dataPoints = 6;
-      dateFormatter = (date) => date.toLocaleDateString('en-US', { month: 'short' });
-      getDateBucket = (date) => date.toLocaleDateString('en-US', { month: 'short' });
-      break;
-    case 'yearly':
-      dataPoints = 5;
-      dateFormatter = (date) => date.getFullYear().toString();
-      getDateBucket = (date) => date.getFullYear().toString();
-      break;
-  }
-  
-  // Create date buckets
-  const buckets = new Map<string, { clicks: number; orders: number }>();
-  
-  for (let i = dataPoints - 1; i >= 0; i--) {
-    const date = new Date(now);
-    switch (timeRange) {
-      case 'daily':
-        date.setDate(date.getDate() - i);
-        break;
-      case 'weekly':
-        date.setDate(date.getDate() - (i * 7));
-        break;
-      case 'monthly':
-        date.setMonth(date.getMonth() - i);
-        break;
-      case 'yearly':
-        date.setFullYear(date.getFullYear() - i);
-        break;
-    }
-    const label = dateFormatter(date, i, dataPoints);
-    buckets.set(label, { clicks: 0, orders: 0 });
-  }
-  
-  // Aggregate conversions into buckets
-  filteredConversions.forEach(conv => {
-    const bucket = getDateBucket(conv.timestamp);
-    if (buckets.has(bucket)) {
-      const data = buckets.get(bucket)!;
-      data.clicks += conv.clicks;
-      data.orders += 1;
-    }
-  });
-  
-  // Convert buckets to array
-  buckets.forEach((data, date) => {
-    dailyData.push({
-      date,
-      clicks: data.clicks,
-      orders: data.orders,
-    });
-  });
-  
-  return {
-    totalClicks,
-    totalOrders,
-    conversionRate: totalClicks > 0 ? (totalOrders / totalClicks) * 100 : 0,
-    pendingEarnings,
-    availableEarnings,
-    dailyData,
-    recentConversions: filteredConversions, // Return all for pagination
-  };
-};
-
 const ITEMS_PER_PAGE = 10;
 
-export const AnalyticsTab = ({ enrollments }: AnalyticsTabProps) => {
+// Whether a mini chart has anything to draw
+const hasChartData = (data: number[]): boolean => data.some(value => value > 0);
+
+export const AnalyticsTab = ({
+  enrollments,
+  conversions: allConversions,
+  conversionsError,
+  referralClicks,
+  ledger,
+  payoutMethod,
+  payouts,
+  onSavePayoutMethod,
+  onWithdraw,
+}: AnalyticsTabProps) => {
   const [timeRange, setTimeRange] = useState<TimeRange>('monthly');
   const [selectedMerchant, setSelectedMerchant] = useState<string>('all');
   const [searchQuery, setSearchQuery] = useState<string>('');
@@ -244,14 +58,9 @@ export const AnalyticsTab = ({ enrollments }: AnalyticsTabProps) => {
     return uniqueMerchants;
   }, [enrollments]);
 
-  // Generate full conversion pool once (based on enrollment data)
-  const allConversions = useMemo(() => {
-    return generateConversionPool(enrollments);
-  }, [enrollments]);
-
-  // Generate analytics data by filtering conversions based on selected time range and merchant
+  // Generate analytics data by filtering conversions and clicks based on selected time range and merchant
   const analyticsData = useMemo<AnalyticsData>(() => {
-    if (allConversions.length === 0) {
+    if (allConversions.length === 0 && referralClicks.length === 0) {
       return {
         totalClicks: 0,
         totalOrders: 0,
@@ -260,17 +69,29 @@ export const AnalyticsTab = ({ enrollments }: AnalyticsTabProps) => {
         availableEarnings: 0,
         dailyData: [],
         recentConversions: [],
+        sourceBreakdown: [],
       };
     }
-    return generateAnalyticsData(allConversions, selectedMerchant, timeRange);
-  }, [allConversions, selectedMerchant, timeRange]);
+    return generateAnalyticsData(
+      { enrollments, conversions: allConversions, clicks: referralClicks, ledger },
+      selectedMerchant,
+      timeRange,
+    );
+  }, [allConversions, referralClicks, ledger, enrollments, selectedMerchant, timeRange]);
+
+  // Ledger state per order, for the conversions table
+  const ledgerByOrder = useMemo(() => new Map(ledger.map(entry => [entry.orderId, entry])), [ledger]);
 
-  // Generate merchant traffic data for pie chart
+  // Clicks per merchant for the pie chart, from the same click events as the KPIs
   const merchantTraffic = useMemo(() => {
     const colors = ['#E31837', '#6B2D5B', '#00C853', '#FFB800', '#3B82F6'];
-    const approvedEnrollments = enrollments.filter(e => e.status === 'approved');
-    
-    if (approvedEnrollments.length === 0) {
+    const clicksByMerchant = new Map<string, number>();
+    countClicksByEnrollment(referralClicks).forEach((count, enrollmentId) => {
+      const merchant = enrollments.find(e => e.id === enrollmentId)?.campaign.merchant;
+      if (merchant) clicksByMerchant.set(merchant, (clicksByMerchant.get(merchant) ?? 0) + count);
+    });
+
+    if (clicksByMerchant.size === 0) {
       return [
         { label: 'Restaurants', value: 55, color: '#E31837' },
         { label: 'Grocery', value: 25, color: '#6B2D5B' },
@@ -278,12 +99,32 @@ export const AnalyticsTab = ({ enrollments }: AnalyticsTabProps) => {
       ];
     }
     
-    return approvedEnrollments.slice(0, 5).map((e, i) => ({
-      label: e.campaign.merchant,
-      value: e.clicks || Math.floor(Math.random() * 100) + 20,
-      color: colors[i % colors.length],
-    }));
-  }, [enrollments]);
+    return [...clicksByMerchant]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 5)
+      .map(([label, value], i) => ({ label, value, color: colors[i % colors.length] }));
+  }, [referralClicks, enrollments]);
+
+  // One row per minted link, over all time
+  const referralLinks = useMemo(() => {
+    const clickCounts = countClicksByEnrollment(referralClicks);
+    return enrollments
+      .filter(e => e.status === 'approved' && e.referralCode)
+      .map(e => {
+        const clicks = clickCounts.get(e.id) ?? 0;
+        const orders = allConversions.filter(c => c.enrollmentId === e.id && !isReversed(c)).length;
+        return {
+          id: e.id,
+          merchant: e.campaign.merchant,
+          code: e.referralCode!,
+          url: e.referralUrl ?? '',
+          clicks,
+          orders,
+          conversionRate: clicks > 0 ? (orders / clicks) * 100 : 0,
+        };
+      })
+      .sort((a, b) => b.clicks - a.clicks);
+  }, [enrollments, allConversions, referralClicks]);
 
   // Video status updates (enrollment timeline)
   const videoStatusUpdates = useMemo(() => {
@@ -303,7 +144,7 @@ export const AnalyticsTab = ({ enrollments }: AnalyticsTabProps) => {
     return {
       clicks: base.map(d => d.clicks),
       orders: base.map(d => d.orders),
-      revenue: base.map(d => d.clicks * 0.5 + d.orders * 5),
+      revenue: base.map(d => d.earnings ?? 0),
       conversion: base.map(d => d.clicks > 0 ? (d.orders / d.clicks) * 100 : 0),
     };
   }, [analyticsData.dailyData]);
@@ -316,7 +157,8 @@ export const AnalyticsTab = ({ enrollments }: AnalyticsTabProps) => {
       conv.merchant.toLowerCase().includes(query) ||
       conv.orderId.toLowerCase().includes(query) ||
       conv.date.toLowerCase().includes(query) ||
-      conv.amount.toString().includes(query)
+      conv.amount.toString().includes(query) ||
+      (conv.reversal?.reason.toLowerCase().includes(query) ?? false)
     );
   }, [analyticsData.recentConversions, searchQuery]);
 
@@ -401,6 +243,12 @@ export const AnalyticsTab = ({ enrollments }: AnalyticsTabProps) => {
 
   return (
     <div className="space-y-6">
+      {conversionsError && (
+        <div role="alert" className="bg-red-50 border border-red-100 rounded-2xl p-4 text-sm text-red-700">
+          Your orders could not be loaded, so orders and earnings below may be incomplete: {conversionsError.message}
+        </div>
+      )}
+
       {/* Top Section: Dashboard Overview + Traffic */}
       <div className="grid lg:grid-cols-3 gap-6">
         {/* Main Dashboard Card */}
@@ -522,8 +370,8 @@ export const AnalyticsTab = ({ enrollments }: AnalyticsTabProps) => {
                 </svg>
               </div>
               <div>
-                <p className="text-xs text-gray-500">Referral Earning</p>
-                <p className="font-semibold text-gray-900">{(analyticsData.availableEarnings * 0.3).toFixed(2)} QAR</p>
+                <p className="text-xs text-gray-500">Pending</p>
+                <p className="font-semibold text-gray-900">{analyticsData.pendingEarnings.toFixed(2)} QAR</p>
               </div>
             </div>
             <div className="flex items-center gap-3">
@@ -564,9 +412,13 @@ export const AnalyticsTab = ({ enrollments }: AnalyticsTabProps) => {
       <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
         {/* Revenue Status */}
         <div className="bg-gradient-to-br from-snoonu-red to-red-600 rounded-2xl p-5 text-white relative overflow-hidden min-h-[140px]">
-          <div className="absolute bottom-0 left-0 right-0 h-12 opacity-30">
-            <MiniChart data={miniChartData.revenue.length ? miniChartData.revenue : [3, 5, 4, 6, 5, 7, 6]} type="bar" color="white" />
-          </div>
+          {hasChartData(miniChartData.revenue) ? (
+            <div className="absolute bottom-0 left-0 right-0 h-12 opacity-30">
+              <MiniChart data={miniChartData.revenue} type="bar" color="white" />
+            </div>
+          ) : (
+            <p className="text-xs opacity-70 absolute bottom-5 right-5">No activity yet</p>
+          )}
           <p className="text-xs font-medium opacity-80 mb-1">Revenue Status</p>
           <p className="text-2xl font-bold">{analyticsData.availableEarnings.toFixed(0)} QAR</p>
           <p className="text-xs opacity-70 mt-auto absolute bottom-5 left-5">Jan 01 - Jan {new Date().getDate()}</p>
@@ -574,18 +426,26 @@ export const AnalyticsTab = ({ enrollments }: AnalyticsTabProps) => {
 
         {/* Page Views (Clicks) */}
         <div className="bg-gradient-to-br from-purple-500 to-purple-700 rounded-2xl p-5 text-white relative overflow-hidden min-h-[140px]">
-          <div className="absolute bottom-0 left-0 right-0 h-12 opacity-30">
-            <MiniChart data={miniChartData.clicks.length ? miniChartData.clicks : [10, 15, 12, 18, 14, 20, 16]} type="area" color="white" />
-          </div>
+          {hasChartData(miniChartData.clicks) ? (
+            <div className="absolute bottom-0 left-0 right-0 h-12 opacity-30">
+              <MiniChart data={miniChartData.clicks} type="area" color="white" />
+            </div>
+          ) : (
+            <p className="text-xs opacity-70 absolute bottom-5 right-5">No activity yet</p>
+          )}
           <p className="text-xs font-medium opacity-80 mb-1">Page Views</p>
           <p className="text-2xl font-bold">{analyticsData.totalClicks.toLocaleString()}</p>
         </div>
 
         {/* Conversion Rate */}
         <div className="bg-gradient-to-br from-cyan-500 to-cyan-600 rounded-2xl p-5 text-white relative overflow-hidden min-h-[140px]">
-          <div className="absolute bottom-0 left-0 right-0 h-12 opacity-30">
-            <MiniChart data={miniChartData.conversion.length ? miniChartData.conversion : [5, 8, 6, 9, 7, 10, 8]} type="line" color="white" />
-          </div>
+          {hasChartData(miniChartData.conversion) ? (
+            <div className="absolute bottom-0 left-0 right-0 h-12 opacity-30">
+              <MiniChart data={miniChartData.conversion} type="line" color="white" />
+            </div>
+          ) : (
+            <p className="text-xs opacity-70 absolute bottom-5 right-5">No activity yet</p>
+          )}
           <p className="text-xs font-medium opacity-80 mb-1">Conversion Rate</p>
           <p className="text-2xl font-bold">{analyticsData.conversionRate.toFixed(1)}%</p>
           <p className="text-xs opacity-70 mt-auto absolute bottom-5 left-5">Jan 01 - Jan {new Date().getDate()}</p>
@@ -593,15 +453,112 @@ export const AnalyticsTab = ({ enrollments }: AnalyticsTabProps) => {
 
         {/* Orders */}
         <div className="bg-gradient-to-br from-orange-400 to-orange-500 rounded-2xl p-5 text-white relative overflow-hidden min-h-[140px]">
-          <div className="absolute bottom-0 left-0 right-0 h-12 opacity-30">
-            <MiniChart data={miniChartData.orders.length ? miniChartData.orders : [2, 4, 3, 5, 4, 6, 5]} type="bar" color="white" />
-          </div>
+          {hasChartData(miniChartData.orders) ? (
+            <div className="absolute bottom-0 left-0 right-0 h-12 opacity-30">
+              <MiniChart data={miniChartData.orders} type="bar" color="white" />
+            </div>
+          ) : (
+            <p className="text-xs opacity-70 absolute bottom-5 right-5">No activity yet</p>
+          )}
           <p className="text-xs font-medium opacity-80 mb-1">Total Orders</p>
           <p className="text-2xl font-bold">{analyticsData.totalOrders}</p>
           <p className="text-xs opacity-70 mt-auto absolute bottom-5 left-5">Jan 01 - Jan {new Date().getDate()}</p>
         </div>
       </div>
 
+      {/* Earnings + Payouts */}
+      <div className="grid lg:grid-cols-5 gap-6">
+        <div className="lg:col-span-3">
+          <EarningsPanel ledger={ledger} />
+        </div>
+        <div className="lg:col-span-2">
+          <PayoutsPanel
+            ledger={ledger}
+            payoutMethod={payoutMethod}
+            payouts={payouts}
+            onSavePayoutMethod={onSavePayoutMethod}
+            onWithdraw={onWithdraw}
+          />
+        </div>
+      </div>
+
+      {/* Platforms + Referral Links */}
+      <div className="grid lg:grid-cols-5 gap-6">
+        {/* Clicks and orders by platform, for the selected merchant and time range */}
+        <div className="lg:col-span-2 bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
+          <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wide">Platforms</h3>
+          <p className="text-xs text-gray-400 mb-4">Where your audience clicks and converts</p>
+
+          {analyticsData.sourceBreakdown.length > 0 ? (
+            <div className="space-y-4">
+              {analyticsData.sourceBreakdown.map(row => (
+                <div key={row.source}>
+                  <div className="flex items-center justify-between text-sm mb-1.5">
+                    <span className="flex items-center gap-2 font-medium text-gray-900">
+                      <span
+                        className="w-2.5 h-2.5 rounded-full"
+                        style={{ backgroundColor: isReferralPlatform(row.source) ? referralPlatforms[row.source].color : '#9CA3AF' }}
+                      />
+                      {getSourceLabel(row.source)}
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      {row.clicks.toLocaleString()} clicks · {row.orders} orders · <span className="font-semibold text-blue-600">{row.conversionRate.toFixed(1)}%</span>
+                    </span>
+                  </div>
+                  <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                    <div
+                      className="h-full rounded-full"
+                      style={{
+                        width: `${analyticsData.totalClicks > 0 ? (row.clicks / analyticsData.totalClicks) * 100 : 0}%`,
+                        backgroundColor: isReferralPlatform(row.source) ? referralPlatforms[row.source].color : '#9CA3AF',
+                      }}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-gray-400 text-sm">No clicks in this period</p>
+          )}
+        </div>
+
+        {/* Referral Links */}
+        {referralLinks.length > 0 && (
+          <div className="lg:col-span-3 bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+            <div className="p-6 pb-4">
+              <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wide">Referral Links</h3>
+              <p className="text-xs text-gray-400">Clicks and orders per link, all time</p>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="bg-gray-50 text-gray-500">
+                    <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wide">Merchant</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wide">Link</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium uppercase tracking-wide">Clicks</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium uppercase tracking-wide">Orders</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium uppercase tracking-wide">Conv.</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {referralLinks.map(link => (
+                    <tr key={link.id} className="hover:bg-gray-50 transition-colors">
+                      <td className="px-4 py-3 text-gray-900 font-medium">{link.merchant}</td>
+                      <td className="px-4 py-3">
+                        <span className="font-mono text-xs text-gray-600" title={link.url}>{link.code}</span>
+                      </td>
+                      <td className="px-4 py-3 text-right text-gray-900">{link.clicks.toLocaleString()}</td>
+                      <td className="px-4 py-3 text-right text-gray-900">{link.orders}</td>
+                      <td className="px-4 py-3 text-right font-semibold text-blue-600">{link.conversionRate.toFixed(1)}%</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+
       {/* Bottom Section: Video Status Updates + Recent Conversions */}
       <div className="grid lg:grid-cols-5 gap-6">
         {/* Video Status Updates (Timeline) */}
@@ -675,21 +632,23 @@ export const AnalyticsTab = ({ enrollments }: AnalyticsTabProps) => {
               <tbody className="divide-y divide-gray-100">
                 {paginatedConversions.length > 0 ? (
                   paginatedConversions.map((conv: ConversionRecord) => (
-                    <tr key={conv.orderId} className="hover:bg-gray-50 transition-colors">
+                    <tr key={conv.orderId} className={`hover:bg-gray-50 transition-colors ${conv.reversal ? 'bg-gray-50/60' : ''}`}>
                       <td className="px-4 py-3 font-mono text-xs text-gray-600">{conv.orderId}</td>
                       <td className="px-4 py-3 text-gray-900 font-medium">{conv.merchant}</td>
                       <td className="px-4 py-3 text-gray-500">{conv.date}</td>
-                      <td className="px-4 py-3 text-right font-semibold text-gray-900">{conv.amount.toFixed(2)} QAR</td>
+                      <td className={`px-4 py-3 text-right font-semibold ${conv.reversal ? 'text-gray-400 line-through' : 'text-gray-900'}`}>
+                        {conv.amount.toFixed(2)} QAR
+                      </td>
                       <td className="px-4 py-3 text-center">
-                        <span className={`inline-flex px-2.5 py-1 rounded-md text-xs font-medium ${
-                          conv.status === 'Paid'
-                            ? 'bg-green-100 text-green-700' 
-                            : conv.status === 'Open' 
-                            ? 'bg-blue-100 text-blue-700'
-                            : 'bg-yellow-100 text-yellow-700'
-                        }`}>
-                          {conv.status}
-                        </span>
+                        <LedgerStateBadge entry={ledgerByOrder.get(conv.orderId)} />
+                        {conv.reversal && (
+                          <p className="text-[11px] text-gray-500 mt-1" title={conv.reversal.at.toLocaleString()}>
+                            {conv.reversal.reason}
+                          </p>
+                        )}
+                        {conv.outOfBudget && (
+                          <p className="text-[11px] text-gray-500 mt-1">No credit: campaign budget exhausted</p>
+                        )}
                       </td>
                     </tr>
                   ))
@@ -771,6 +730,16 @@ function getStatusBgColor(status: string): string {
   }
 }
 
+function LedgerStateBadge({ entry }: { entry?: LedgerEntry }) {
+  if (!entry) return null;
+  const config = ledgerStateConfig[entry.state];
+  return (
+    <span className={`inline-flex px-2.5 py-1 rounded-md text-xs font-medium ${config.className}`}>
+      {config.label}
+    </span>
+  );
+}
+
 function StatusIcon({ status }: { status: string }) {
   const iconClass = "w-4 h-4";
   switch (status) {
@@ -1,7 +1,6 @@
-import { useState, useEffect } from 'react';
-import type { Campaign, Enrollment } from '../types';
-import { campaigns } from '../constants';
-import { fetchCampaigns, testSupabaseConnection } from '../../../lib/supabaseQueries';
+import { useState, useEffect, useMemo } from 'react';
+import type { Campaign, CampaignBudget, CampaignTierAccess, Enrollment } from '../types';
+import { getCampaignPhaseInfo } from '../campaignLifecycle';
 import { CampaignCard } from './CampaignCard';
 import { CampaignDetailModal } from './CampaignDetailModal';
 
@@ -48,57 +47,40 @@ const CampaignCardSkeleton = ({ index }: { index: number }) => (
 );
 
 interface AnnouncementsTabProps {
+  campaigns: Campaign[];
+  isLoading: boolean;
   enrollments: Enrollment[];
+  getBudget: (campaign: Campaign) => CampaignBudget | null;
+  getAccess: (campaign: Campaign) => CampaignTierAccess;
   onEnroll: (campaign: Campaign) => void;
 }
 
-export const AnnouncementsTab = ({ enrollments, onEnroll }: AnnouncementsTabProps) => {
-  const [selectedCampaign, setSelectedCampaign] = useState<Campaign | null>(null);
-  const [campaignsList, setCampaignsList] = useState<Campaign[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+export const AnnouncementsTab = ({ campaigns, isLoading, enrollments, getBudget, getAccess, onEnroll }: AnnouncementsTabProps) => {
+  const [selectedCampaignId, setSelectedCampaignId] = useState<string | null>(null);
   const [showCards, setShowCards] = useState(false);
 
   useEffect(() => {
-    const loadCampaigns = async () => {
-      console.log('[AnnouncementsTab] Component mounted - loading campaigns...');
-      setIsLoading(true);
-      setShowCards(false);
-      
-      try {
-        // Test connection first
-        const isConnected = await testSupabaseConnection();
-        console.log('[AnnouncementsTab] Supabase connection test:', isConnected ? 'PASSED' : 'FAILED');
-        
-        // Fetch campaigns from Supabase
-        const supabaseCampaigns = await fetchCampaigns();
-        console.log('[AnnouncementsTab] Fetched campaigns:', supabaseCampaigns.length);
-        
-        if (supabaseCampaigns.length > 0) {
-          console.log('[AnnouncementsTab] ✅ Using Supabase campaigns');
-          setCampaignsList(supabaseCampaigns);
-        } else {
-          console.warn('[AnnouncementsTab] ⚠️ No campaigns found in database, using mock data');
-          setCampaignsList(campaigns);
-        }
-      } catch (error) {
-        console.error('[AnnouncementsTab] ❌ Failed to load campaigns from Supabase:', error);
-        setCampaignsList(campaigns); // Fallback to mock data
-      } finally {
-        setIsLoading(false);
-        // Small delay before showing cards for smooth transition
-        setTimeout(() => setShowCards(true), 50);
-      }
-    };
+    if (isLoading) return;
+    // Small delay before showing cards for smooth transition
+    const timeout = setTimeout(() => setShowCards(true), 50);
+    return () => clearTimeout(timeout);
+  }, [isLoading]);
 
-    loadCampaigns();
-  }, []);
+  // Ended campaigns stay listed for reference, after everything still open
+  const listings = useMemo(
+    () => campaigns
+      .map(campaign => ({ campaign, phase: getCampaignPhaseInfo(campaign) }))
+      .sort((a, b) => Number(a.phase.phase === 'ended') - Number(b.phase.phase === 'ended')),
+    [campaigns],
+  );
+  const selected = listings.find(listing => listing.campaign.id === selectedCampaignId) ?? null;
 
   const isEnrolled = (campaignId: string) => 
     enrollments.some(e => e.campaign.id === campaignId);
 
   const handleEnroll = () => {
-    if (selectedCampaign) {
-      onEnroll(selectedCampaign);
+    if (selected) {
+      onEnroll(selected.campaign);
     }
   };
 
@@ -122,22 +104,28 @@ export const AnnouncementsTab = ({ enrollments, onEnroll }: AnnouncementsTabProp
               : 'opacity-0 translate-y-3'
           }`}
         >
-          {campaignsList.map((campaign) => (
+          {listings.map(({ campaign, phase }) => (
             <CampaignCard
               key={campaign.id}
               campaign={campaign}
               isEnrolled={isEnrolled(campaign.id)}
-              onClick={() => setSelectedCampaign(campaign)}
+              phase={phase}
+              budget={getBudget(campaign)}
+              access={getAccess(campaign)}
+              onClick={() => setSelectedCampaignId(campaign.id)}
             />
           ))}
         </div>
       )}
 
-      {selectedCampaign && (
+      {selected && (
         <CampaignDetailModal
-          campaign={selectedCampaign}
-          isEnrolled={isEnrolled(selectedCampaign.id)}
-          onClose={() => setSelectedCampaign(null)}
+          campaign={selected.campaign}
+          isEnrolled={isEnrolled(selected.campaign.id)}
+          phase={selected.phase}
+          budget={getBudget(selected.campaign)}
+          access={getAccess(selected.campaign)}
+          onClose={() => setSelectedCampaignId(null)}
           onEnroll={handleEnroll}
         />
       )}
@@ -3,7 +3,7 @@ import type { DailyDataPoint } from '../types';
 
 interface AreaChartProps {
   data: DailyDataPoint[];
-  dataKey: 'clicks' | 'orders';
+  dataKey: 'clicks' | 'orders' | 'xp';
   color: string;
   gradientId?: string;
   height?: number;
@@ -56,7 +56,7 @@ export const AreaChart = ({
 
   if (!data.length) return null;
 
-  const values = data.map(d => d[dataKey]);
+  const values = data.map(d => d[dataKey] ?? 0);
   const secondaryValues = data.map(d => d.orders);
   const allValues = showSecondary ? [...values, ...secondaryValues] : values;
   const max = Math.max(...allValues, 1);
@@ -357,30 +357,40 @@ export const AreaChart = ({
           <div className="text-[10px] font-semibold text-snoonu-red mb-2 pb-1.5 border-b border-gray-100">
             {data[hoveredIndex].date}
           </div>
-          <div className="space-y-1.5">
+          {dataKey === 'xp' ? (
             <div className="flex items-center justify-between gap-3">
               <span className="text-[10px] text-gray-600 flex items-center gap-1.5">
-                <span className="w-2 h-2 rounded-full bg-snoonu-red"></span>
-                Clicks
+                <span className="w-2 h-2 rounded-full bg-emerald-500"></span>
+                XP
               </span>
-              <span className="text-xs font-bold text-gray-900">{data[hoveredIndex].clicks}</span>
+              <span className="text-xs font-bold text-gray-900">{(data[hoveredIndex].xp ?? 0).toLocaleString()}</span>
             </div>
-            <div className="flex items-center justify-between gap-3">
-              <span className="text-[10px] text-gray-600 flex items-center gap-1.5">
-                <span className="w-2 h-2 rounded-full bg-amber-500"></span>
-                Orders
-              </span>
-              <span className="text-xs font-bold text-gray-900">{data[hoveredIndex].orders}</span>
-            </div>
-            {data[hoveredIndex].clicks > 0 && (
-              <div className="flex items-center justify-between gap-3 pt-1.5 border-t border-gray-100">
-                <span className="text-[10px] text-gray-600">Conversion</span>
-                <span className="text-xs font-bold text-snoonu-red">
-                  {((data[hoveredIndex].orders / data[hoveredIndex].clicks) * 100).toFixed(1)}%
+          ) : (
+            <div className="space-y-1.5">
+              <div className="flex items-center justify-between gap-3">
+                <span className="text-[10px] text-gray-600 flex items-center gap-1.5">
+                  <span className="w-2 h-2 rounded-full bg-snoonu-red"></span>
+                  Clicks
                 </span>
+                <span className="text-xs font-bold text-gray-900">{data[hoveredIndex].clicks}</span>
               </div>
-            )}
-          </div>
+              <div className="flex items-center justify-between gap-3">
+                <span className="text-[10px] text-gray-600 flex items-center gap-1.5">
+                  <span className="w-2 h-2 rounded-full bg-amber-500"></span>
+                  Orders
+                </span>
+                <span className="text-xs font-bold text-gray-900">{data[hoveredIndex].orders}</span>
+              </div>
+              {data[hoveredIndex].clicks > 0 && (
+                <div className="flex items-center justify-between gap-3 pt-1.5 border-t border-gray-100">
+                  <span className="text-[10px] text-gray-600">Conversion</span>
+                  <span className="text-xs font-bold text-snoonu-red">
+                    {((data[hoveredIndex].orders / data[hoveredIndex].clicks) * 100).toFixed(1)}%
+                  </span>
+                </div>
+              )}
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,37 @@
+import type { CampaignBudget } from '../types';
+
+interface BudgetBarProps {
+  budget: CampaignBudget;
+}
+
+const barColor: Record<CampaignBudget['state'], string> = {
+  open: 'bg-green-500',
+  low: 'bg-amber-500',
+  exhausted: 'bg-gray-300',
+};
+
+export const BudgetBar = ({ budget }: BudgetBarProps) => {
+  const percentLeft = (budget.remaining / budget.total) * 100;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between text-xs mb-1">
+        {budget.state === 'exhausted' ? (
+          <span className="font-medium text-gray-500">Budget exhausted</span>
+        ) : (
+          <span className={budget.state === 'low' ? 'font-medium text-amber-600' : 'text-gray-500'}>
+            {budget.state === 'low' && '⚠️ '}
+            {budget.remaining.toLocaleString()} of {budget.total.toLocaleString()} referrals left
+          </span>
+        )}
+        <span className="text-gray-400">{Math.round(percentLeft)}%</span>
+      </div>
+      <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+        <div
+          className={`h-full rounded-full transition-all duration-500 ${barColor[budget.state]}`}
+          style={{ width: `${percentLeft}%` }}
+        />
+      </div>
+    </div>
+  );
+};
@@ -1,20 +1,29 @@
 import { useState } from 'react';
-import type { Campaign } from '../types';
+import type { Campaign, CampaignBudget, CampaignPhaseInfo, CampaignTierAccess } from '../types';
+import { campaignPhaseConfig, tierConfig } from '../constants';
+import { getNextTier } from '../utils';
+import { BudgetBar } from './BudgetBar';
 
 interface CampaignCardProps {
   campaign: Campaign;
   isEnrolled: boolean;
+  phase: CampaignPhaseInfo;
+  budget: CampaignBudget | null;
+  access: CampaignTierAccess;
   onClick: () => void;
 }
 
-export const CampaignCard = ({ campaign, isEnrolled, onClick }: CampaignCardProps) => {
+export const CampaignCard = ({ campaign, isEnrolled, phase, budget, access, onClick }: CampaignCardProps) => {
   const [logoError, setLogoError] = useState(false);
   const [productImageError, setProductImageError] = useState(false);
+  const nextTier = getNextTier(access.tier);
 
   return (
     <div
       onClick={onClick}
-      className="bg-white rounded-2xl overflow-hidden shadow-sm border border-gray-100 hover:shadow-lg hover:border-gray-200 transition-all duration-300 cursor-pointer group"
+      className={`bg-white rounded-2xl overflow-hidden shadow-sm border border-gray-100 hover:shadow-lg hover:border-gray-200 transition-all duration-300 cursor-pointer group ${
+        phase.phase === 'ended' ? 'opacity-70' : ''
+      }`}
     >
       {/* Product Image Header */}
       <div className="relative h-44 bg-gradient-to-br from-gray-100 to-gray-50 overflow-hidden">
@@ -50,17 +59,43 @@ export const CampaignCard = ({ campaign, isEnrolled, onClick }: CampaignCardProp
           </div>
         </div>
         
-        {/* Enrolled Badge */}
-        {isEnrolled && (
-          <div className="absolute top-3 right-3">
+        <div className="absolute top-3 right-3 flex flex-col items-end gap-1.5">
+          {/* Enrolled Badge */}
+          {isEnrolled && (
             <span className="px-3 py-1.5 bg-green-500 text-white text-xs font-semibold rounded-full shadow-lg flex items-center gap-1.5">
               <svg className="w-3.5 h-3.5" fill="currentColor" viewBox="0 0 20 20">
                 <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
               </svg>
               Enrolled
             </span>
-          </div>
-        )}
+          )}
+
+          {/* Tier Badges */}
+          {!isEnrolled && access.locked && access.requiredTier && (
+            <span className="px-3 py-1.5 bg-gray-900/80 text-white text-xs font-semibold rounded-full shadow-lg">
+              🔒 {tierConfig[access.requiredTier].label}+
+            </span>
+          )}
+          {!isEnrolled && access.earlyAccess && (
+            <span className="px-3 py-1.5 bg-snoonu-purple text-white text-xs font-semibold rounded-full shadow-lg">
+              ⚡ Early access
+            </span>
+          )}
+
+          {/* Schedule Badge */}
+          {phase.phase !== 'live' && (
+            <span className={`px-3 py-1.5 text-xs font-semibold rounded-full shadow-lg ${campaignPhaseConfig[phase.phase].className}`}>
+              {phase.label}
+            </span>
+          )}
+
+          {/* Closed Badge */}
+          {!isEnrolled && phase.phase !== 'ended' && budget?.state === 'exhausted' && (
+            <span className="px-3 py-1.5 bg-gray-800/90 text-white text-xs font-semibold rounded-full shadow-lg">
+              Closed
+            </span>
+          )}
+        </div>
         
         {/* Product Name on Image */}
         {campaign.productName && (
@@ -100,15 +135,51 @@ export const CampaignCard = ({ campaign, isEnrolled, onClick }: CampaignCardProp
           </div>
         </div>
         
+        {/* Tier Lock */}
+        {!isEnrolled && access.locked && access.requiredTier && (
+          <div className="mt-3 bg-gray-50 border border-gray-200 rounded-lg px-3 py-2">
+            <div className="flex items-center justify-between text-xs">
+              <span className="font-medium text-gray-700">
+                {tierConfig[access.requiredTier].icon} {tierConfig[access.requiredTier].label} tier required
+              </span>
+              <span className="text-gray-500">
+                {access.approvalsNeeded} more approval{access.approvalsNeeded === 1 ? '' : 's'}
+              </span>
+            </div>
+            {nextTier && (
+              <>
+                <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden mt-2">
+                  <div
+                    className="h-full bg-snoonu-purple rounded-full transition-all duration-500"
+                    style={{ width: `${access.progress.percentage}%` }}
+                  />
+                </div>
+                <div className="text-[11px] text-gray-400 mt-1">
+                  {access.progress.current}/{access.progress.target} approvals to {tierConfig[nextTier].label}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Remaining Budget */}
+        {budget && (
+          <div className="mt-3">
+            <BudgetBar budget={budget} />
+          </div>
+        )}
+        
         {/* Footer */}
         <div className="flex items-center justify-between mt-3 pt-3 border-t border-gray-100">
-          <div className="flex items-center gap-1 text-xs text-gray-400">
-            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z" />
-            </svg>
-            {campaign.budget}
-          </div>
-          <span className="text-xs text-snoonu-purple font-medium group-hover:underline">
+          {!budget && (
+            <div className="flex items-center gap-1 text-xs text-gray-400">
+              <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z" />
+              </svg>
+              {campaign.budget}
+            </div>
+          )}
+          <span className="ml-auto text-xs text-snoonu-purple font-medium group-hover:underline">
             View Details →
           </span>
         </div>
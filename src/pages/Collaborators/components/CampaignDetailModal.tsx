@@ -1,10 +1,17 @@
 import { useState, useEffect, useRef } from 'react';
-import type { Campaign } from '../types';
+import type { Campaign, CampaignBudget, CampaignPhaseInfo, CampaignTierAccess } from '../types';
+import { tierConfig } from '../constants';
+import { describeSchedule } from '../campaignLifecycle';
 import { CheckIcon, CloseIcon } from './Icons';
+import { EarningsEstimator } from './EarningsEstimator';
+import { BudgetBar } from './BudgetBar';
 
 interface CampaignDetailModalProps {
   campaign: Campaign;
   isEnrolled: boolean;
+  phase: CampaignPhaseInfo;
+  budget: CampaignBudget | null;
+  access: CampaignTierAccess;
   onClose: () => void;
   onEnroll: () => void;
 }
@@ -12,6 +19,9 @@ interface CampaignDetailModalProps {
 export const CampaignDetailModal = ({
   campaign,
   isEnrolled,
+  phase,
+  budget,
+  access,
   onClose,
   onEnroll,
 }: CampaignDetailModalProps) => {
@@ -131,6 +141,8 @@ export const CampaignDetailModal = ({
             </div>
           </div>
 
+          <EarningsEstimator campaign={campaign} tier={access.tier} />
+
           {/* Video Requirements */}
           <div className="bg-gradient-to-r from-purple-50 to-indigo-50 rounded-xl p-4 border border-purple-200">
             <div className="flex items-center gap-2 mb-2">
@@ -169,7 +181,13 @@ export const CampaignDetailModal = ({
                 </svg>
                 <span className="text-xs text-gray-500">Budget</span>
               </div>
-              <div className="text-sm font-semibold text-gray-900">{campaign.budget}</div>
+              {budget ? (
+                <div className="mt-2">
+                  <BudgetBar budget={budget} />
+                </div>
+              ) : (
+                <div className="text-sm font-semibold text-gray-900">{campaign.budget}</div>
+              )}
             </div>
             <div className="flex-1 bg-gray-50 rounded-xl p-4 border border-gray-100">
               <div className="flex items-center gap-2 mb-1">
@@ -178,7 +196,12 @@ export const CampaignDetailModal = ({
                 </svg>
                 <span className="text-xs text-gray-500">Timeline</span>
               </div>
-              <div className="text-sm font-semibold text-gray-900">{campaign.timeline.replace('Campaign runs until ', '')}</div>
+              <div className="text-sm font-semibold text-gray-900">{describeSchedule(campaign)}</div>
+              {phase.phase !== 'live' && (
+                <div className={`text-xs mt-1 ${phase.phase === 'ending-soon' ? 'text-amber-600 font-medium' : 'text-gray-500'}`}>
+                  {phase.label}
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -195,6 +218,29 @@ export const CampaignDetailModal = ({
               <div className="font-semibold text-green-700">You're enrolled!</div>
               <div className="text-sm text-green-600">Go to Enrollments tab to upload your video</div>
             </div>
+          ) : access.locked && access.requiredTier ? (
+            <div className="bg-gray-100 border border-gray-200 rounded-xl p-4 text-center">
+              <div className="font-semibold text-gray-700">
+                🔒 For {tierConfig[access.requiredTier].label} creators and above
+              </div>
+              <div className="text-sm text-gray-500">
+                {access.approvalsNeeded} more approved video{access.approvalsNeeded === 1 ? '' : 's'} to unlock this campaign
+              </div>
+            </div>
+          ) : phase.phase === 'ended' || (phase.phase === 'upcoming' && !access.earlyAccess) ? (
+            <div className="bg-gray-100 border border-gray-200 rounded-xl p-4 text-center">
+              <div className="font-semibold text-gray-700">
+                {phase.phase === 'ended' ? 'This campaign has ended' : `Enrollment opens soon · ${phase.label}`}
+              </div>
+              <div className="text-sm text-gray-500">
+                {phase.phase === 'ended' ? 'It is no longer accepting enrollments' : 'Check back once the campaign starts'}
+              </div>
+            </div>
+          ) : budget?.state === 'exhausted' ? (
+            <div className="bg-gray-100 border border-gray-200 rounded-xl p-4 text-center">
+              <div className="font-semibold text-gray-700">Referral budget exhausted</div>
+              <div className="text-sm text-gray-500">This campaign is no longer accepting enrollments</div>
+            </div>
           ) : (
             <>
               <label className="flex items-center gap-3 text-sm cursor-pointer mb-4 p-3 bg-white rounded-xl border border-gray-200 hover:border-gray-300 transition-colors">
@@ -206,6 +252,11 @@ export const CampaignDetailModal = ({
                 />
                 <span className="text-gray-600">I agree to the campaign terms and content guidelines</span>
               </label>
+              {access.earlyAccess && (
+                <p className="text-sm text-snoonu-purple font-medium text-center mb-3">
+                  ⚡ {tierConfig[access.tier].label} early access · {phase.label}
+                </p>
+              )}
               <button
                 onClick={() => {
                   onEnroll();
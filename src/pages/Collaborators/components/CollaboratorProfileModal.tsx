@@ -1,16 +1,30 @@
 import { useEffect, useRef, useState } from 'react';
-import type { CollaboratorProfile } from '../types';
-import { tierConfig } from '../constants';
+import { Link } from 'react-router-dom';
+import type { AchievementStatus, CollaboratorProfile, FollowCounts, SeasonRecord } from '../types';
+import { achievementConfig, tierConfig } from '../constants';
+import { getAvatarUrl } from '../utils';
 import { CloseIcon } from './Icons';
 import { TierBadge } from './TierBadge';
 
 interface CollaboratorProfileModalProps {
   collaborator: CollaboratorProfile;
+  seasonHistory: SeasonRecord[];
+  achievements: AchievementStatus[];
+  followCounts: FollowCounts;
+  isFollowing: boolean;
+  onToggleFollow?: () => void; // Absent on your own profile
+  profilePath: string | null; // Public profile page, null until there is one
   onClose: () => void;
 }
 
 export const CollaboratorProfileModal = ({
   collaborator,
+  seasonHistory,
+  achievements,
+  followCounts,
+  isFollowing,
+  onToggleFollow,
+  profilePath,
   onClose,
 }: CollaboratorProfileModalProps) => {
   const modalRef = useRef<HTMLDivElement>(null);
@@ -37,16 +51,6 @@ export const CollaboratorProfileModal = ({
     setImageError(false);
   }, [collaborator.id]);
 
-  // Helper function to get image URL with base path
-  const getImageUrl = (avatar: string) => {
-    if (!avatar || !avatar.startsWith('/')) return null;
-    const baseUrl = import.meta.env.BASE_URL || '/';
-    if (baseUrl.endsWith('/') && avatar.startsWith('/')) {
-      return baseUrl + avatar.slice(1);
-    }
-    return baseUrl + avatar;
-  };
-
   const tier = tierConfig[collaborator.tier];
 
   return (
@@ -78,9 +82,9 @@ export const CollaboratorProfileModal = ({
           {/* Avatar */}
           <div className="absolute -bottom-10 left-6">
             <div className="w-20 h-20 bg-white rounded-full p-1 shadow-lg overflow-hidden">
-              {collaborator.avatar && collaborator.avatar.startsWith('/') && !imageError ? (
+              {getAvatarUrl(collaborator.avatar) && !imageError ? (
                 <img
-                  src={getImageUrl(collaborator.avatar) || collaborator.avatar}
+                  src={getAvatarUrl(collaborator.avatar) ?? undefined}
                   alt={collaborator.handle}
                   className="w-full h-full object-cover rounded-full"
                   onError={() => setImageError(true)}
@@ -97,13 +101,38 @@ export const CollaboratorProfileModal = ({
 
         <div className="pt-14 p-6">
           {/* Info */}
-          <div className="mb-4">
-            <h3 id="collaborator-name" className="text-xl font-bold text-gray-900">
-              {collaborator.handle}
-            </h3>
-            <div className="flex items-center gap-2 mt-1">
-              <TierBadge tier={collaborator.tier} />
+          <div className="mb-4 flex items-start justify-between gap-3">
+            <div>
+              <h3 id="collaborator-name" className="text-xl font-bold text-gray-900">
+                {collaborator.handle}
+              </h3>
+              <div className="flex items-center gap-2 mt-1">
+                <TierBadge tier={collaborator.tier} />
+              </div>
+              <div className="text-sm text-gray-500 mt-2">
+                <span className="font-semibold text-gray-900">{followCounts.followers}</span> follower{followCounts.followers !== 1 ? 's' : ''}
+                <span className="mx-1.5 text-gray-300">·</span>
+                <span className="font-semibold text-gray-900">{followCounts.following}</span> following
+              </div>
+              {profilePath && (
+                <Link to={profilePath} className="inline-block mt-2 text-sm font-medium text-snoonu-red hover:underline">
+                  View full profile →
+                </Link>
+              )}
             </div>
+            {onToggleFollow && (
+              <button
+                onClick={onToggleFollow}
+                aria-pressed={isFollowing}
+                className={`px-4 py-1.5 rounded-lg text-sm font-semibold transition-colors ${
+                  isFollowing
+                    ? 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    : 'bg-snoonu-red text-white hover:bg-snoonu-red/90'
+                }`}
+              >
+                {isFollowing ? 'Following' : 'Follow'}
+              </button>
+            )}
           </div>
 
           {/* Stats */}
@@ -124,6 +153,38 @@ export const CollaboratorProfileModal = ({
             )}
           </div>
 
+          {/* Badge Shelf */}
+          {achievements.length > 0 && (
+            <div className="mb-6">
+              <h4 className="text-sm font-semibold text-gray-700 mb-3">
+                Badges
+                <span className="ml-1 font-normal text-gray-400">
+                  {achievements.filter(a => a.unlockedAt).length}/{achievements.length}
+                </span>
+              </h4>
+              <div className="grid grid-cols-4 gap-2">
+                {achievements.map(({ id, progress, target, unlockedAt }) => {
+                  const config = achievementConfig[id];
+                  return (
+                    <div
+                      key={id}
+                      title={config.description}
+                      className={`rounded-lg p-2 text-center ${unlockedAt ? 'bg-amber-50 border border-amber-100' : 'bg-gray-50 border border-gray-100'}`}
+                    >
+                      <div className={`text-2xl ${unlockedAt ? '' : 'grayscale opacity-40'}`}>{config.icon}</div>
+                      <div className="text-[11px] font-medium text-gray-700 leading-tight mt-1">{config.label}</div>
+                      <div className="text-[10px] text-gray-400 mt-0.5">
+                        {unlockedAt
+                          ? unlockedAt.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+                          : `${progress}/${target}`}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
           {/* Top Campaigns */}
           <div className="mb-6">
             <h4 className="text-sm font-semibold text-gray-700 mb-3">Top Campaigns</h4>
@@ -152,6 +213,34 @@ export const CollaboratorProfileModal = ({
               ))}
             </div>
           </div>
+
+          {/* Season History */}
+          {seasonHistory.length > 0 && (
+            <div>
+              <h4 className="text-sm font-semibold text-gray-700 mb-3">Season History</h4>
+              <div className="space-y-2">
+                {seasonHistory.map(record => (
+                  <div key={record.season.id} className="flex items-center justify-between py-2 border-b border-gray-100 last:border-0">
+                    <div className="flex items-center gap-3">
+                      <div className="w-16">
+                        <div className="text-sm font-medium text-gray-700">{record.season.label}</div>
+                        {record.isCurrent && <div className="text-xs text-emerald-600">In progress</div>}
+                      </div>
+                      <TierBadge tier={record.tier} />
+                    </div>
+                    <div className="text-right">
+                      <div className="text-sm font-semibold text-gray-900">
+                        {record.rank !== null ? `#${record.rank}` : '—'}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {record.xp.toLocaleString()} XP · {record.approvals} approval{record.approvals !== 1 ? 's' : ''}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -1,5 +1,6 @@
-import { useSearchParams } from 'react-router-dom';
+import { Link, useSearchParams } from 'react-router-dom';
 import type { Enrollment } from '../types';
+import { canTransition, nextEnrollmentState } from '../enrollmentStateMachine';
 
 interface DemoControlsProps {
   enrollments: Enrollment[];
@@ -26,7 +27,7 @@ export const DemoControls = ({
 
   if (!isDemoMode) return null;
 
-  const activeEnrollments = enrollments.filter(e => e.status !== 'approved' && e.status !== 'rejected');
+  const activeEnrollments = enrollments.filter(e => !['approved', 'rejected', 'campaign-ended'].includes(e.status));
 
   return (
     <div className="fixed bottom-4 right-4 z-40 max-w-xs">
@@ -64,6 +65,12 @@ export const DemoControls = ({
               >
                 Enroll Sample Campaign
               </button>
+              <Link
+                to="/collaborators/review"
+                className="block w-full mt-2 px-3 py-2 bg-gray-800 text-white rounded-lg text-sm font-semibold text-center hover:bg-gray-700 transition-colors"
+              >
+                Open Review Console
+              </Link>
             </div>
 
             {/* Enrollment Controls */}
@@ -81,19 +88,22 @@ export const DemoControls = ({
                       <div className="flex gap-1">
                         <button
                           onClick={() => onAdvanceEnrollment(enrollment.id)}
-                          className="flex-1 px-2 py-1 bg-blue-600 text-white rounded text-xs hover:bg-blue-700 transition-colors"
+                          disabled={nextEnrollmentState(enrollment.status) === null}
+                          className="flex-1 px-2 py-1 bg-blue-600 text-white rounded text-xs hover:bg-blue-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
                         >
                           Next Step
                         </button>
                         <button
                           onClick={() => onAdvanceToApproved(enrollment.id)}
-                          className="flex-1 px-2 py-1 bg-green-600 text-white rounded text-xs hover:bg-green-700 transition-colors"
+                          disabled={!canTransition(enrollment.status, 'approved')}
+                          className="flex-1 px-2 py-1 bg-green-600 text-white rounded text-xs hover:bg-green-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
                         >
                           Approve
                         </button>
                         <button
                           onClick={() => onRejectEnrollment(enrollment.id)}
-                          className="px-2 py-1 bg-red-600 text-white rounded text-xs hover:bg-red-700 transition-colors"
+                          disabled={!canTransition(enrollment.status, 'rejected')}
+                          className="px-2 py-1 bg-red-600 text-white rounded text-xs hover:bg-red-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
                         >
                           Reject
                         </button>
@@ -0,0 +1,79 @@
+import { useState } from 'react';
+import type { Campaign, Tier } from '../types';
+import { tierConfig } from '../constants';
+import { calculateEarning, getFullDiscountOrderValue, getRewardTerms } from '../rewardModel';
+
+interface EarningsEstimatorProps {
+  campaign: Campaign;
+  tier: Tier; // Adds the tier's reward boost to the estimate
+}
+
+// "If a customer orders X QAR you earn Y", from the campaign's reward terms
+export const EarningsEstimator = ({ campaign, tier }: EarningsEstimatorProps) => {
+  const terms = getRewardTerms(campaign);
+  const fullDiscountOrder = getFullDiscountOrderValue(terms);
+  const sliderMax = Math.max((fullDiscountOrder ?? 0) * 2, terms.minOrder * 3, 200);
+  const [orderValue, setOrderValue] = useState(() => fullDiscountOrder ?? Math.max(terms.minOrder, 100));
+
+  if (terms.rewardPercent <= 0) return null;
+
+  const { label, benefits } = tierConfig[tier];
+  const estimate = calculateEarning(terms, orderValue, benefits.rewardBoostPercent);
+
+  return (
+    <div className="bg-white rounded-xl p-4 border border-green-200">
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <span className="text-sm font-semibold text-gray-900">Earnings Estimator</span>
+        <label className="flex items-center gap-1.5 text-sm text-gray-500">
+          Order
+          <input
+            type="number"
+            min={0}
+            value={orderValue}
+            onChange={(e) => setOrderValue(Math.max(Number(e.target.value) || 0, 0))}
+            className="w-20 px-2 py-1 text-right text-sm font-semibold text-gray-900 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500/20 focus:border-green-500"
+          />
+          QAR
+        </label>
+      </div>
+      <input
+        type="range"
+        min={0}
+        max={sliderMax}
+        step={5}
+        value={Math.min(orderValue, sliderMax)}
+        onChange={(e) => setOrderValue(Number(e.target.value))}
+        className="w-full accent-green-600"
+        aria-label="Customer order value in QAR"
+      />
+
+      {estimate.eligible ? (
+        <div className="grid grid-cols-2 gap-3 mt-3 text-center">
+          <div className="bg-gray-50 rounded-lg py-2">
+            <div className="text-lg font-bold text-snoonu-red">{estimate.discount.toFixed(2)}</div>
+            <div className="text-[11px] text-gray-500">QAR customer saves</div>
+          </div>
+          <div className="bg-green-50 rounded-lg py-2">
+            <div className="text-lg font-bold text-green-600">{estimate.earning.toFixed(2)}</div>
+            <div className="text-[11px] text-green-700">QAR you earn</div>
+            {estimate.boost > 0 && (
+              <div className="text-[11px] text-green-700/80">
+                incl. {estimate.boost.toFixed(2)} {label} boost (+{benefits.rewardBoostPercent}%)
+              </div>
+            )}
+          </div>
+        </div>
+      ) : (
+        <p className="mt-3 text-sm text-gray-500 text-center">
+          Orders below the {terms.minOrder} QAR minimum don't earn a reward
+        </p>
+      )}
+
+      {fullDiscountOrder !== null && (
+        <p className="mt-2 text-[11px] text-gray-400 text-center">
+          The discount is capped at {terms.discountCap} QAR, reached at orders of {fullDiscountOrder} QAR
+        </p>
+      )}
+    </div>
+  );
+};
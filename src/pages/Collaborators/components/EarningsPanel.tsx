@@ -0,0 +1,70 @@
+import { useMemo } from 'react';
+import type { LedgerEntry } from '../types';
+import { EARNINGS_HOLD_DAYS } from '../constants';
+import { getClearingSchedule, summarizeLedger } from '../earningsLedger';
+
+interface EarningsPanelProps {
+  ledger: LedgerEntry[];
+}
+
+const MAX_SCHEDULE_DAYS = 6;
+
+// Ledger balances over all time and the days pending earnings clear
+export const EarningsPanel = ({ ledger }: EarningsPanelProps) => {
+  const balance = useMemo(() => summarizeLedger(ledger), [ledger]);
+  const schedule = useMemo(() => getClearingSchedule(ledger), [ledger]);
+
+  const balances = [
+    { label: 'Available', amount: balance.available, className: 'text-green-600' },
+    { label: 'Pending', amount: balance.pending, className: 'text-amber-600' },
+    { label: 'Paid Out', amount: balance.paid, className: 'text-gray-900' },
+    { label: 'Reversed', amount: balance.reversed, className: 'text-gray-400' },
+  ];
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
+      <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wide">Earnings</h3>
+      <p className="text-xs text-gray-400 mb-4">
+        Earnings clear {EARNINGS_HOLD_DAYS} days after the order, once it can no longer be refunded
+      </p>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-6">
+        {balances.map(item => (
+          <div key={item.label} className="bg-gray-50 rounded-xl p-3">
+            <p className="text-xs text-gray-500">{item.label}</p>
+            <p className={`text-lg font-bold ${item.className}`}>
+              {item.amount.toFixed(2)} <span className="text-xs font-normal text-gray-500">QAR</span>
+            </p>
+          </div>
+        ))}
+      </div>
+      {balance.owed > 0 && (
+        <p className="text-xs text-red-600 -mt-3 mb-6">
+          {balance.owed.toFixed(2)} QAR was refunded after it was paid out and will be deducted from your next withdrawal
+        </p>
+      )}
+
+      <h4 className="text-xs font-semibold text-gray-700 uppercase tracking-wide mb-3">Clearing Schedule</h4>
+      {schedule.length > 0 ? (
+        <ul className="divide-y divide-gray-100">
+          {schedule.slice(0, MAX_SCHEDULE_DAYS).map(day => (
+            <li key={day.date.getTime()} className="flex items-center justify-between py-2 text-sm">
+              <span className="text-gray-700">
+                {day.date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
+                <span className="text-xs text-gray-400 ml-2">{day.count} order{day.count === 1 ? '' : 's'}</span>
+              </span>
+              <span className="font-semibold text-gray-900">{day.amount.toFixed(2)} QAR</span>
+            </li>
+          ))}
+          {schedule.length > MAX_SCHEDULE_DAYS && (
+            <li className="py-2 text-xs text-gray-400">
+              +{schedule.length - MAX_SCHEDULE_DAYS} more days
+            </li>
+          )}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-400">Nothing pending right now</p>
+      )}
+    </div>
+  );
+};
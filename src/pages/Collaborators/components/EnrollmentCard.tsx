@@ -1,9 +1,11 @@
 import { useState } from 'react';
-import type { Enrollment } from '../types';
+import type { Enrollment, PerformanceStats } from '../types';
 import { statusConfig } from '../constants';
+import { canResubmit, getRemainingAttempts } from '../enrollmentStateMachine';
 
 interface EnrollmentCardProps {
   enrollment: Enrollment;
+  stats?: PerformanceStats; // From the enrollment's link clicks and conversions, once approved
   onClick: () => void;
 }
 
@@ -18,19 +20,21 @@ const statusSteps: Record<string, { step: number; label: string }> = {
   'under-review': { step: 4, label: 'Under Review' },
   approved: { step: 5, label: 'Live & Earning' },
   rejected: { step: 0, label: 'Needs Revision' },
+  'campaign-ended': { step: 0, label: 'Campaign Ended' },
 };
 
-export const EnrollmentCard = ({ enrollment, onClick }: EnrollmentCardProps) => {
+export const EnrollmentCard = ({ enrollment, stats, onClick }: EnrollmentCardProps) => {
   const [logoError, setLogoError] = useState(false);
   const statusInfo = statusConfig[enrollment.status] || defaultStatusInfo;
   const stepInfo = statusSteps[enrollment.status] || { step: 0, label: 'Unknown' };
   const isApproved = enrollment.status === 'approved';
   const isRejected = enrollment.status === 'rejected';
+  const isCampaignEnded = enrollment.status === 'campaign-ended';
   const isProcessing = enrollment.status === 'processing' || enrollment.status === 'under-review';
 
   // Calculate conversion rate
-  const conversionRate = enrollment.stats && enrollment.stats.clicks > 0 
-    ? ((enrollment.stats.orders / enrollment.stats.clicks) * 100).toFixed(1) 
+  const conversionRate = stats && stats.clicks > 0 
+    ? ((stats.orders / stats.clicks) * 100).toFixed(1) 
     : null;
 
   return (
@@ -86,8 +90,8 @@ export const EnrollmentCard = ({ enrollment, onClick }: EnrollmentCardProps) =>
         </div>
       </div>
       
-      {/* Progress Section for Non-Approved/Non-Rejected */}
-      {!isApproved && !isRejected && (
+      {/* Progress Section for Enrollments Still in Progress */}
+      {!isApproved && !isRejected && !isCampaignEnded && (
         <div className="px-4 pb-4">
           <div className="bg-gray-50 rounded-xl p-3">
             <div className="flex items-center justify-between mb-2.5">
@@ -147,36 +151,57 @@ export const EnrollmentCard = ({ enrollment, onClick }: EnrollmentCardProps) =>
                 </svg>
               </div>
               <div>
-                <p className="text-xs font-semibold text-red-700">Revision Required</p>
-                <p className="text-[11px] text-red-600 mt-0.5">Tap to view feedback and re-upload</p>
+                <p className="text-xs font-semibold text-red-700">
+                  {canResubmit(enrollment) ? 'Revision Required' : 'No Attempts Left'}
+                </p>
+                <p className="text-[11px] text-red-600 mt-0.5">
+                  {canResubmit(enrollment)
+                    ? `Tap to view feedback and resubmit · ${getRemainingAttempts(enrollment)} left`
+                    : 'Tap to view feedback'}
+                </p>
               </div>
             </div>
           </div>
         </div>
       )}
       
+      {/* Campaign Ended State */}
+      {isCampaignEnded && (
+        <div className="px-4 pb-4">
+          <div className="bg-gray-50 border border-gray-200 rounded-xl p-3">
+            <p className="text-xs font-semibold text-gray-700">Campaign Ended</p>
+            <p className="text-[11px] text-gray-500 mt-0.5">The campaign closed before this enrollment was approved</p>
+          </div>
+        </div>
+      )}
+      
       {/* Stats Section for Approved Enrollments */}
-      {enrollment.stats && isApproved && (
+      {stats && isApproved && (
         <div className="px-4 pb-4">
           <div className="bg-gradient-to-r from-green-50 to-emerald-50 rounded-xl p-3 border border-green-100">
             <div className="grid grid-cols-4 gap-2 text-center">
               <div className="bg-white/70 rounded-lg py-2 px-1">
-                <div className="text-sm font-bold text-gray-900">{enrollment.stats.clicks}</div>
+                <div className="text-sm font-bold text-gray-900">{stats.clicks}</div>
                 <div className="text-[10px] text-gray-500">Clicks</div>
               </div>
               <div className="bg-white/70 rounded-lg py-2 px-1">
-                <div className="text-sm font-bold text-gray-900">{enrollment.stats.orders}</div>
+                <div className="text-sm font-bold text-gray-900">{stats.orders}</div>
                 <div className="text-[10px] text-gray-500">Orders</div>
               </div>
               <div className="bg-white/70 rounded-lg py-2 px-1">
-                <div className="text-sm font-bold text-blue-600">{conversionRate}%</div>
+                <div className="text-sm font-bold text-blue-600">{conversionRate ? `${conversionRate}%` : '—'}</div>
                 <div className="text-[10px] text-gray-500">Conv.</div>
               </div>
               <div className="bg-white/70 rounded-lg py-2 px-1">
-                <div className="text-sm font-bold text-green-600">{enrollment.stats.earnings}</div>
+                <div className="text-sm font-bold text-green-600">{stats.earnings.toFixed(0)}</div>
                 <div className="text-[10px] text-gray-500">QAR</div>
               </div>
             </div>
+            {enrollment.referralCode && (
+              <p className="mt-2 text-[11px] text-gray-500 text-center">
+                Link <span className="font-mono font-medium text-gray-700">{enrollment.referralCode}</span> · {stats.clicks} click{stats.clicks === 1 ? '' : 's'}
+              </p>
+            )}
           </div>
         </div>
       )}
@@ -1,28 +1,107 @@
 import { useState, useEffect, useRef } from 'react';
-import type { Enrollment } from '../types';
-import { statusConfig } from '../constants';
+import type { Enrollment, PerformanceStats, ReferralPlatform, UploadState, VideoCheck } from '../types';
+import { statusConfig, referralPlatforms } from '../constants';
+import { buildPlatformReferralUrl } from '../referrals';
+import { canResubmit, getMaxAttempts, getRejectionHistory, getSubmissionCount } from '../enrollmentStateMachine';
+import { hasCampaignEnded } from '../campaignLifecycle';
+import { parseVideoReq, describeVideoRequirements, readVideoMetadata, checkVideo } from '../videoRequirements';
 import { CloseIcon, UploadIcon, CopyIcon, CheckIcon } from './Icons';
 import { ProcessingSteps } from './ProcessingSteps';
+import { StatusTimeline } from './StatusTimeline';
+import { VideoChecklist } from './VideoChecklist';
 
 // Default status info in case of undefined status
 const defaultStatusInfo = { label: 'Unknown', bg: 'bg-gray-100', text: 'text-gray-700', color: 'text-gray-700', bgColor: 'bg-gray-100' };
 
 interface EnrollmentDetailModalProps {
   enrollment: Enrollment;
+  stats?: PerformanceStats;
   onClose: () => void;
   onUpload: (file: File) => void;
+  upload?: UploadState;
+  onCancelUpload: () => void;
+  onRetryUpload: () => void;
   onSubmit: () => void;
 }
 
+const formatMB = (bytes: number) => (bytes / 1024 / 1024).toFixed(2);
+
+// Progress bar while a video is uploading, or the error with a retry once it failed
+const UploadProgressPanel = ({
+  upload,
+  onCancel,
+  onRetry,
+}: {
+  upload: UploadState;
+  onCancel: () => void;
+  onRetry: () => void;
+}) => (
+  <div className={`rounded-2xl p-5 border ${upload.status === 'failed' ? 'bg-red-50 border-red-200' : 'bg-gray-50 border-gray-200'}`}>
+    <div className="flex items-center justify-between mb-2">
+      <p className={`text-sm font-medium truncate ${upload.status === 'failed' ? 'text-red-700' : 'text-gray-700'}`}>
+        {upload.status === 'failed' ? 'Upload failed' : 'Uploading'} · {upload.fileName}
+      </p>
+      <span className="text-xs text-gray-500 flex-shrink-0 ml-2">{Math.round(upload.percentage)}%</span>
+    </div>
+    <div
+      className="h-2 bg-gray-200 rounded-full overflow-hidden"
+      role="progressbar"
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={Math.round(upload.percentage)}
+    >
+      <div
+        className={`h-full rounded-full transition-all duration-300 ${upload.status === 'failed' ? 'bg-red-400' : 'bg-snoonu-red'}`}
+        style={{ width: `${upload.percentage}%` }}
+      />
+    </div>
+    <p className="text-xs text-gray-500 mt-2">
+      {formatMB(upload.bytesUploaded)} / {formatMB(upload.bytesTotal)} MB
+    </p>
+    {upload.status === 'failed' && upload.error && (
+      <p className="text-xs text-red-600 mt-1">{upload.error}</p>
+    )}
+    <div className="flex gap-2 mt-3">
+      {upload.status === 'failed' && (
+        <button
+          onClick={onRetry}
+          style={{ backgroundColor: '#E31837' }}
+          className="flex-1 py-2.5 text-white rounded-xl text-sm font-semibold shadow-lg hover:shadow-xl transition-all"
+        >
+          Retry Upload
+        </button>
+      )}
+      {upload.status === 'uploading' && (
+        <button
+          onClick={onCancel}
+          className="flex-1 py-2.5 bg-white border border-gray-200 text-gray-700 rounded-xl text-sm font-semibold hover:bg-gray-100 transition-colors"
+        >
+          Cancel
+        </button>
+      )}
+    </div>
+  </div>
+);
+
 export const EnrollmentDetailModal = ({
   enrollment,
+  stats,
   onClose,
   onUpload,
+  upload,
+  onCancelUpload,
+  onRetryUpload,
   onSubmit,
 }: EnrollmentDetailModalProps) => {
   const [copied, setCopied] = useState(false);
+  // Platform variant of the referral link being shown; null is the untagged link
+  const [linkPlatform, setLinkPlatform] = useState<ReferralPlatform | null>(null);
   const [logoError, setLogoError] = useState(false);
   const [productImageError, setProductImageError] = useState(false);
+  // Stored video that failed to play; uploads made without Supabase have no URL, so only the file name is shown
+  const [failedVideoUrl, setFailedVideoUrl] = useState<string | null>(null);
+  // File picked but not uploaded yet; checks stay null while its metadata loads
+  const [selectedVideo, setSelectedVideo] = useState<{ file: File; checks: VideoCheck[] | null } | null>(null);
   const modalRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -39,20 +118,54 @@ export const EnrollmentDetailModal = ({
     };
   }, [onClose]);
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const videoRequirements = parseVideoReq(enrollment.campaign.videoReq);
+  const videoRequirementsSummary = describeVideoRequirements(videoRequirements);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) onUpload(file);
+    // Allow selecting the same file again after a cancelled upload
+    e.target.value = '';
+    if (!file) return;
+
+    setSelectedVideo({ file, checks: null });
+    const metadata = await readVideoMetadata(file);
+    const checks = checkVideo(file, metadata, videoRequirements);
+    // Ignore the result if another file was picked in the meantime
+    setSelectedVideo(current => current?.file === file ? { file, checks } : current);
   };
 
+  const handleConfirmUpload = () => {
+    if (!selectedVideo?.checks?.every(check => check.passed)) return;
+    onUpload(selectedVideo.file);
+    setSelectedVideo(null);
+  };
+
+  const videoChecklist = selectedVideo && (
+    <VideoChecklist
+      fileName={selectedVideo.file.name}
+      checks={selectedVideo.checks}
+      onConfirm={handleConfirmUpload}
+      onChooseAnother={() => fileInputRef.current?.click()}
+    />
+  );
+
+  const referralLink = enrollment.referralUrl && linkPlatform
+    ? buildPlatformReferralUrl(enrollment.referralUrl, linkPlatform)
+    : enrollment.referralUrl;
+
   const handleCopyLink = async () => {
-    if (enrollment.referralUrl) {
-      await navigator.clipboard.writeText(enrollment.referralUrl);
+    if (referralLink) {
+      await navigator.clipboard.writeText(referralLink);
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     }
   };
 
   const statusInfo = statusConfig[enrollment.status] || defaultStatusInfo;
+  const maxAttempts = getMaxAttempts(enrollment.campaign);
+  const submissionCount = getSubmissionCount(enrollment);
+  // Feedback from rejections before the latest one
+  const earlierRejections = getRejectionHistory(enrollment).slice(0, -1);
 
   return (
     <div
@@ -131,9 +244,31 @@ export const EnrollmentDetailModal = ({
         <div className="flex-1 overflow-y-auto p-5 space-y-5 custom-scrollbar">
           {/* Processing Steps */}
           <div className="bg-gray-50 rounded-xl p-4">
-            <ProcessingSteps currentStatus={enrollment.status} />
+            <ProcessingSteps currentStatus={enrollment.status} history={enrollment.history} />
           </div>
 
+          {/* Submitted Video */}
+          {enrollment.status !== 'enrolled' && enrollment.uploadedFile && (
+            <div>
+              <h4 className="text-sm font-semibold text-gray-700 mb-3">Your Submission</h4>
+              {!enrollment.uploadedFile.url || failedVideoUrl === enrollment.uploadedFile.url ? (
+                <div className="bg-gray-50 rounded-xl p-4 text-center text-sm text-gray-500">
+                  Preview unavailable for {enrollment.uploadedFile.name}
+                </div>
+              ) : (
+                <video
+                  key={enrollment.uploadedFile.url}
+                  src={enrollment.uploadedFile.url}
+                  controls
+                  playsInline
+                  preload="metadata"
+                  className="w-full max-h-80 rounded-xl bg-black"
+                  onError={() => setFailedVideoUrl(enrollment.uploadedFile?.url ?? null)}
+                />
+              )}
+            </div>
+          )}
+
           {/* Requirements Checklist */}
           <div>
             <h4 className="text-sm font-semibold text-gray-700 mb-3 flex items-center gap-2">
@@ -153,21 +288,30 @@ export const EnrollmentDetailModal = ({
           </div>
 
           {/* Status-specific content */}
-          {enrollment.status === 'enrolled' && (
+          {enrollment.status === 'enrolled' && upload && (
+            <UploadProgressPanel upload={upload} onCancel={onCancelUpload} onRetry={onRetryUpload} />
+          )}
+
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="video/*"
+            onChange={handleFileChange}
+            className="hidden"
+          />
+
+          {enrollment.status === 'enrolled' && !upload && videoChecklist}
+
+          {enrollment.status === 'enrolled' && !upload && !selectedVideo && (
             <div className="space-y-4">
               <div className="border-2 border-dashed border-gray-300 rounded-2xl p-5 text-center bg-gradient-to-br from-gray-50 to-gray-100">
                 <div className="w-12 h-12 bg-white rounded-xl shadow-lg flex items-center justify-center mx-auto mb-3">
                   <UploadIcon className="w-6 h-6 text-gray-400" />
                 </div>
                 <p className="text-gray-700 font-medium mb-1 text-sm">Upload your promotional video</p>
-                <p className="text-xs text-gray-500 mb-3">{enrollment.campaign.videoReq}</p>
-                <input
-                  ref={fileInputRef}
-                  type="file"
-                  accept="video/*"
-                  onChange={handleFileChange}
-                  className="hidden"
-                />
+                <p className="text-xs text-gray-500 mb-3">
+                  {videoRequirementsSummary || enrollment.campaign.videoReq}
+                </p>
                 <button
                   onClick={() => fileInputRef.current?.click()}
                   style={{ backgroundColor: '#E31837' }}
@@ -189,7 +333,7 @@ export const EnrollmentDetailModal = ({
                   <div>
                     <p className="font-semibold text-green-700">Video uploaded!</p>
                     <p className="text-sm text-green-600">
-                      {enrollment.uploadedFile.name} ({(enrollment.uploadedFile.size / 1024 / 1024).toFixed(2)} MB)
+                      {enrollment.uploadedFile.name} ({formatMB(enrollment.uploadedFile.size)} MB)
                     </p>
                   </div>
                 </div>
@@ -201,6 +345,11 @@ export const EnrollmentDetailModal = ({
               >
                 Submit for Review
               </button>
+              {submissionCount > 0 && (
+                <p className="text-xs text-gray-500 text-center">
+                  This will be attempt {submissionCount + 1} of {maxAttempts}
+                </p>
+              )}
             </div>
           )}
 
@@ -236,12 +385,31 @@ export const EnrollmentDetailModal = ({
               </div>
 
               <div className="bg-gray-50 rounded-xl p-4">
-                <h4 className="text-sm font-semibold text-gray-700 mb-3">Your Referral Link</h4>
+                <h4 className="text-sm font-semibold text-gray-700 mb-1">Your Referral Link</h4>
+                <p className="text-xs text-gray-500 mb-3">Use a separate link per platform to see where your audience converts</p>
+                <div className="flex flex-wrap gap-2 mb-3">
+                  {([null, ...Object.keys(referralPlatforms)] as (ReferralPlatform | null)[]).map(platform => (
+                    <button
+                      key={platform ?? 'any'}
+                      onClick={() => {
+                        setLinkPlatform(platform);
+                        setCopied(false);
+                      }}
+                      className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${
+                        linkPlatform === platform
+                          ? 'bg-gray-900 text-white'
+                          : 'bg-white border border-gray-200 text-gray-600 hover:bg-gray-100'
+                      }`}
+                    >
+                      {platform ? referralPlatforms[platform].label : 'Any platform'}
+                    </button>
+                  ))}
+                </div>
                 <div className="flex gap-2">
                   <input
                     type="text"
                     readOnly
-                    value={enrollment.referralUrl || ''}
+                    value={referralLink || ''}
                     className="flex-1 px-4 py-3 bg-white border border-gray-200 rounded-xl text-sm text-gray-700 font-mono"
                   />
                   <button
@@ -268,18 +436,18 @@ export const EnrollmentDetailModal = ({
                 </div>
               </div>
 
-              {enrollment.stats && (
+              {stats && (
                 <div className="grid grid-cols-3 gap-3">
                   <div className="bg-white border border-gray-100 rounded-xl p-4 text-center shadow-sm">
-                    <div className="text-2xl font-bold text-gray-900">{enrollment.stats.clicks}</div>
+                    <div className="text-2xl font-bold text-gray-900">{stats.clicks}</div>
                     <div className="text-xs text-gray-500 uppercase tracking-wide">Clicks</div>
                   </div>
                   <div className="bg-white border border-gray-100 rounded-xl p-4 text-center shadow-sm">
-                    <div className="text-2xl font-bold text-gray-900">{enrollment.stats.orders}</div>
+                    <div className="text-2xl font-bold text-gray-900">{stats.orders}</div>
                     <div className="text-xs text-gray-500 uppercase tracking-wide">Orders</div>
                   </div>
                   <div className="bg-gradient-to-br from-green-50 to-emerald-50 border border-green-100 rounded-xl p-4 text-center">
-                    <div className="text-2xl font-bold text-green-600">{enrollment.stats.earnings}</div>
+                    <div className="text-2xl font-bold text-green-600">{stats.earnings.toFixed(2)}</div>
                     <div className="text-xs text-green-600 uppercase tracking-wide">QAR Earned</div>
                   </div>
                 </div>
@@ -296,25 +464,68 @@ export const EnrollmentDetailModal = ({
                   </div>
                   <div>
                     <p className="font-semibold text-red-700">Content Rejected</p>
-                    <p className="text-sm text-red-600 mt-1">
+                    <p className="text-sm text-red-600 mt-1 whitespace-pre-line">
                       {enrollment.rejectionReason || 'Video did not meet the campaign requirements. Please review the guidelines and try again.'}
                     </p>
+                    <p className="text-xs text-red-500 mt-2">
+                      Attempt {Math.max(submissionCount, 1)} of {maxAttempts}
+                    </p>
                   </div>
                 </div>
               </div>
-              <input
-                ref={fileInputRef}
-                type="file"
-                accept="video/*"
-                onChange={handleFileChange}
-                className="hidden"
-              />
-              <button
-                onClick={() => fileInputRef.current?.click()}
-                className="w-full py-4 bg-snoonu-red text-white rounded-xl font-semibold text-lg hover:bg-red-600 transition-colors shadow-lg"
-              >
-                Re-upload Video
-              </button>
+
+              {earlierRejections.length > 0 && (
+                <div className="bg-gray-50 rounded-xl p-4">
+                  <h4 className="text-sm font-semibold text-gray-700 mb-2">Earlier feedback</h4>
+                  <ul className="space-y-2">
+                    {earlierRejections.map((rejection, i) => (
+                      <li key={i} className="text-xs text-gray-600">
+                        <span className="font-medium text-gray-700">Attempt {i + 1}: </span>
+                        <span className="whitespace-pre-line">{rejection.reason}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {!canResubmit(enrollment) ? (
+                <div className="bg-gray-100 rounded-xl p-4 text-center text-sm text-gray-600">
+                  {hasCampaignEnded(enrollment.campaign)
+                    ? 'This campaign has ended, so no more videos can be submitted.'
+                    : `No resubmissions left for this campaign (${maxAttempts} of ${maxAttempts} attempts used).`}
+                </div>
+              ) : upload ? (
+                <UploadProgressPanel upload={upload} onCancel={onCancelUpload} onRetry={onRetryUpload} />
+              ) : videoChecklist || (
+                <div className="space-y-2">
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="w-full py-4 bg-snoonu-red text-white rounded-xl font-semibold text-lg hover:bg-red-600 transition-colors shadow-lg"
+                  >
+                    Revise and Resubmit
+                  </button>
+                  <p className="text-xs text-gray-500 text-center">
+                    {maxAttempts - submissionCount} attempt{maxAttempts - submissionCount === 1 ? '' : 's'} left. Upload a revised video that addresses the feedback.
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+
+          {enrollment.status === 'campaign-ended' && (
+            <div className="bg-gray-50 border border-gray-200 rounded-2xl p-5 text-center">
+              <p className="font-semibold text-gray-700">Campaign Ended</p>
+              <p className="text-sm text-gray-500 mt-1">
+                {enrollment.campaign.merchant} ended before this enrollment was approved, so no more videos can be submitted.
+              </p>
+            </div>
+          )}
+
+          {/* Status History */}
+          {enrollment.history.length > 0 && (
+            <div>
+              <h4 className="text-sm font-semibold text-gray-700 mb-3">Timeline</h4>
+              <StatusTimeline history={enrollment.history} />
             </div>
           )}
         </div>
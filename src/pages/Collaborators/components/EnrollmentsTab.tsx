@@ -1,11 +1,18 @@
 import { useState, useMemo, useRef, useEffect } from 'react';
-import type { Enrollment } from '../types';
+import type { ConversionRecord, Enrollment, PerformanceStats, ReferralClick, UploadState } from '../types';
+import { summarizePerformance } from '../utils';
+import { countClicksByEnrollment } from '../referrals';
 import { EnrollmentCard } from './EnrollmentCard';
 import { EnrollmentDetailModal } from './EnrollmentDetailModal';
 
 interface EnrollmentsTabProps {
   enrollments: Enrollment[];
+  conversions: ConversionRecord[];
+  referralClicks: ReferralClick[];
   onUpload: (enrollmentId: string, file: File) => void;
+  uploads: Record<string, UploadState>;
+  onCancelUpload: (enrollmentId: string) => void;
+  onRetryUpload: (enrollmentId: string) => void;
   onSubmit: (enrollmentId: string) => void;
 }
 
@@ -16,18 +23,40 @@ const statusPriority: Record<string, number> = {
   processing: 4,      // Step 3
   uploaded: 3,        // Step 2
   enrolled: 2,        // Step 1
-  rejected: 1,        // Bottom
+  rejected: 1,
+  'campaign-ended': 0, // Bottom
 };
 
 // Animation duration in milliseconds
 const ANIMATION_DURATION = 700; // 0.7s for smoother transitions
 
-export const EnrollmentsTab = ({ enrollments, onUpload, onSubmit }: EnrollmentsTabProps) => {
+export const EnrollmentsTab = ({
+  enrollments,
+  conversions,
+  referralClicks,
+  onUpload,
+  uploads,
+  onCancelUpload,
+  onRetryUpload,
+  onSubmit,
+}: EnrollmentsTabProps) => {
   const [selectedEnrollment, setSelectedEnrollment] = useState<Enrollment | null>(null);
   const [animatingCardIds, setAnimatingCardIds] = useState<Set<string>>(new Set());
   const prevPositionsRef = useRef<Map<string, number>>(new Map());
   const cardRefsRef = useRef<Map<string, HTMLDivElement>>(new Map());
 
+  // Link clicks, orders and earnings per approved enrollment
+  const statsByEnrollment = useMemo(() => {
+    const grouped = new Map<string, ConversionRecord[]>();
+    conversions.forEach(c => grouped.set(c.enrollmentId, [...(grouped.get(c.enrollmentId) ?? []), c]));
+    const clickCounts = countClicksByEnrollment(referralClicks);
+    const stats = new Map<string, PerformanceStats>();
+    enrollments
+      .filter(e => e.status === 'approved')
+      .forEach(e => stats.set(e.id, summarizePerformance(grouped.get(e.id) ?? [], clickCounts.get(e.id) ?? 0)));
+    return stats;
+  }, [enrollments, conversions, referralClicks]);
+
   // Sort enrollments by status priority (approved at top, rejected at bottom)
   // Then by enrolledAt date (newer first within same status)
   const sortedEnrollments = useMemo(() => {
@@ -205,6 +234,7 @@ export const EnrollmentsTab = ({ enrollments, onUpload, onSubmit }: EnrollmentsT
           >
             <EnrollmentCard
               enrollment={enrollment}
+              stats={statsByEnrollment.get(enrollment.id)}
               onClick={() => setSelectedEnrollment(enrollment)}
             />
           </div>
@@ -214,8 +244,12 @@ export const EnrollmentsTab = ({ enrollments, onUpload, onSubmit }: EnrollmentsT
       {currentEnrollment && (
         <EnrollmentDetailModal
           enrollment={currentEnrollment}
+          stats={statsByEnrollment.get(currentEnrollment.id)}
           onClose={() => setSelectedEnrollment(null)}
           onUpload={(file) => onUpload(currentEnrollment.id, file)}
+          upload={uploads[currentEnrollment.id]}
+          onCancelUpload={() => onCancelUpload(currentEnrollment.id)}
+          onRetryUpload={() => onRetryUpload(currentEnrollment.id)}
           onSubmit={() => onSubmit(currentEnrollment.id)}
         />
       )}
@@ -1,7 +1,30 @@
-import { useState, useEffect, useRef, useMemo } from 'react';
-import type { Enrollment, CollaboratorProfile, MerchantLeaderboardEntry } from '../types';
-import { tierConfig } from '../constants';
-import { computeTier, getNextTier, getProgressToNextTier } from '../utils';
+import { Fragment, useState, useEffect, useRef, useMemo } from 'react';
+import type {
+  AchievementStatus,
+  Campaign,
+  CollaboratorProfile,
+  Follow,
+  LeaderboardAudience,
+  LeaderboardWindow,
+  MerchantLeaderboardEntry,
+  PostingStreak,
+  TierStanding,
+  XPEvent,
+} from '../types';
+import { LEADERBOARD_SIZE, TIER_ACTIVITY_DAYS, leaderboardWindowConfig, tierConfig } from '../constants';
+import { getAvatarUrl, getNextTier } from '../utils';
+import { summarizeXP } from '../xpEngine';
+import { evaluateAchievements, getActivityFromXPLog } from '../achievements';
+import { getFollowCounts, getFollowingIds, isFollowing } from '../followGraph';
+import { getProfilePath } from '../publicProfile';
+import { getDailyChallenge, getPostingStreak, getPostingTimesFromXPLog } from '../dailyChallenge';
+import {
+  buildSeasonHistory,
+  getDefaultCustomDates,
+  getLeaderboardRange,
+  rankCollaborators,
+} from '../leaderboardRanking';
+import type { RankingEntry } from '../leaderboardRanking';
 import { TierBadge } from './TierBadge';
 import { CollaboratorProfileModal } from './CollaboratorProfileModal';
 
@@ -298,125 +321,92 @@ const TikTokEmbedModal = ({ video, onClose }: {
 };
 
 interface LeaderboardTabProps {
-  enrollments: Enrollment[];
+  campaigns: Campaign[];
+  xpLog: XPEvent[];
+  you: CollaboratorProfile;
+  hasProfile: boolean; // Whether you have been through onboarding, and so have a public page
+  tierStanding: TierStanding;
+  achievements: AchievementStatus[];
+  postingStreak: PostingStreak;
   collaborators: CollaboratorProfile[];
+  xpLogs: Map<string, XPEvent[]>;
   merchantLeaderboard: MerchantLeaderboardEntry[];
+  follows: Follow[];
+  onToggleFollow: (collaborator: CollaboratorProfile) => void;
 }
 
-type LeaderboardTimeFilter = 'monthly' | 'allTime';
-
 export const LeaderboardTab = ({
-  enrollments,
+  campaigns,
+  xpLog,
+  you,
+  hasProfile,
+  tierStanding,
+  achievements,
+  postingStreak,
   collaborators,
+  xpLogs,
   merchantLeaderboard,
+  follows,
+  onToggleFollow,
 }: LeaderboardTabProps) => {
   const [selectedCollaborator, setSelectedCollaborator] = useState<CollaboratorProfile | null>(null);
   const [selectedVideo, setSelectedVideo] = useState<typeof FEATURED_VIDEOS[0] | null>(null);
-  const [timeFilter, setTimeFilter] = useState<LeaderboardTimeFilter>('monthly');
+  const [timeFilter, setTimeFilter] = useState<LeaderboardWindow>('monthly');
+  const [customDates, setCustomDates] = useState(getDefaultCustomDates);
+  const [audience, setAudience] = useState<LeaderboardAudience>('everyone');
   const [imageErrors, setImageErrors] = useState<Set<string>>(new Set());
 
-  // Helper function to get image URL with base path
-  // In Vite, public folder assets are accessible at BASE_URL + path
-  const getImageUrl = (avatar: string) => {
-    if (!avatar || !avatar.startsWith('/')) return null;
-    const baseUrl = import.meta.env.BASE_URL || '/';
-    // BASE_URL already ends with /, so we need to remove leading / from avatar if baseUrl ends with /
-    if (baseUrl.endsWith('/') && avatar.startsWith('/')) {
-      return baseUrl + avatar.slice(1);
-    }
-    return baseUrl + avatar;
-  };
-
   // Handle image load errors
   const handleImageError = (avatar: string, e: React.SyntheticEvent<HTMLImageElement, Event>) => {
     console.error('Failed to load avatar image:', avatar, e);
     setImageErrors(prev => new Set(prev).add(avatar));
   };
 
-  const approvedCount = enrollments.filter(e => e.status === 'approved').length;
-
-  // Calculate time-based XP and sort collaborators
-  // In production, this would come from an API with proper time-based filtering
-  const filteredCollaborators = useMemo(() => {
-    // Helper function to generate deterministic "random" value from string
-    const hashString = (str: string): number => {
-      let hash = 0;
-      for (let i = 0; i < str.length; i++) {
-        const char = str.charCodeAt(i);
-        hash = ((hash << 5) - hash) + char;
-        hash = hash & hash; // Convert to 32-bit integer
-      }
-      return Math.abs(hash) % 100 / 100; // Return value between 0 and 1
-    };
-    
-    // Map collaborators with time-based XP and approvals
-    const collaboratorsWithTimeXP = collaborators.map(collab => {
-      // Parse joinedDate to determine activity period
-      const joinedDateStr = collab.joinedDate || '';
-      const joinedRecently = joinedDateStr.includes('Dec') || joinedDateStr.includes('Jan');
-      
-      // Use deterministic hash based on collaborator ID for consistent values
-      const hashValue = hashString(collab.id);
-      
-      if (timeFilter === 'monthly') {
-        // For monthly view: calculate XP and approvals earned in the current month
-        // Estimate monthly values based on:
-        // - If joined this month: use smaller fraction (they're new)
-        // - If joined earlier: use higher fraction (active user)
-        // - Base it on a percentage of total values, but scale it realistically
-        
-        let monthlyXP: number;
-        let monthlyApprovals: number;
-        
-        if (joinedRecently) {
-          // Joined recently (Dec/Jan) - estimate 20-30% of total XP as monthly
-          monthlyXP = Math.floor(collab.totalXP * (0.20 + hashValue * 0.10));
-          // Approvals: estimate 25-35% of total approvals as monthly
-          monthlyApprovals = Math.floor(collab.approvedCount * (0.25 + hashValue * 0.10));
-        } else {
-          // Joined earlier - estimate 15-25% of total XP as monthly
-          // More established users might have earned more total XP, but monthly is still a fraction
-          monthlyXP = Math.floor(collab.totalXP * (0.15 + hashValue * 0.10));
-          // Approvals: estimate 20-30% of total approvals as monthly
-          monthlyApprovals = Math.floor(collab.approvedCount * (0.20 + hashValue * 0.10));
-        }
-        
-        // Ensure monthly values are at least 1 if user has any approvals
-        if (collab.approvedCount > 0) {
-          monthlyApprovals = Math.max(monthlyApprovals, 1);
-        }
-        
-        // Ensure monthly XP is at least a minimum based on monthly approvals
-        // More active users should have more monthly XP
-        const minMonthlyXP = Math.floor(monthlyApprovals * 50); // Base XP per approval
-        monthlyXP = Math.max(monthlyXP, minMonthlyXP);
-        
-        // Don't exceed total values
-        monthlyXP = Math.min(monthlyXP, collab.totalXP);
-        monthlyApprovals = Math.min(monthlyApprovals, collab.approvedCount);
-        
-        return {
-          ...collab,
-          displayXP: monthlyXP,
-          displayApprovals: monthlyApprovals,
-        };
-      } else {
-        // All time view: use full totalXP and approvedCount
-        return {
-          ...collab,
-          displayXP: collab.totalXP,
-          displayApprovals: collab.approvedCount,
-        };
-      }
-    });
-    
-    // Sort by display XP (descending order - highest XP first)
-    return collaboratorsWithTimeXP.sort((a, b) => b.displayXP - a.displayXP);
-  }, [collaborators, timeFilter]);
-  const currentTier = computeTier(approvedCount);
+  // Every collaborator's XP log, you included
+  const rankingEntries = useMemo((): RankingEntry[] => [
+    ...collaborators.map(collaborator => ({ collaborator, events: xpLogs.get(collaborator.id) ?? [] })),
+    { collaborator: you, events: xpLog, isYou: true },
+  ], [collaborators, xpLogs, you, xpLog]);
+  const followingIds = useMemo(() => getFollowingIds(follows, you.id), [follows, you.id]);
+  // Rankings for the selected window, summed from those logs; the Following
+  // audience ranks you against the people you follow
+  const rankedCollaborators = useMemo(() => {
+    const entries = audience === 'following'
+      ? rankingEntries.filter(entry => entry.isYou || followingIds.has(entry.collaborator.id))
+      : rankingEntries;
+    return rankCollaborators(entries, getLeaderboardRange(timeFilter, new Date(), customDates));
+  }, [rankingEntries, audience, followingIds, timeFilter, customDates]);
+  const yourRow = rankedCollaborators.find(row => row.isYou);
+  // Places 4-10, plus your own row when you are outside the top 10
+  const listedCollaborators = [
+    ...rankedCollaborators.slice(3, LEADERBOARD_SIZE),
+    ...(yourRow && yourRow.rank > LEADERBOARD_SIZE ? [yourRow] : []),
+  ];
+  // Today's challenge, and yesterday's for its final winner
+  const [todaysChallenge, yesterdaysChallenge] = useMemo(() => {
+    const now = new Date();
+    const yesterday = new Date(now.getFullYear(), now.getMonth(), now.getDate() - 1);
+    return [getDailyChallenge(campaigns, rankingEntries, now), getDailyChallenge(campaigns, rankingEntries, yesterday)];
+  }, [campaigns, rankingEntries]);
+  // Current posting streak per collaborator, yours from your uploads
+  const streaks = useMemo(() => new Map(rankingEntries.map(({ collaborator, events, isYou }) => [
+    collaborator.id,
+    isYou ? postingStreak.current : getPostingStreak(getPostingTimesFromXPLog(events)).current,
+  ])), [rankingEntries, postingStreak]);
+  const yourXP = useMemo(() => summarizeXP(xpLog), [xpLog]);
+  const { tier: currentTier, rollingApprovals, progress, demotion } = tierStanding;
   const nextTier = getNextTier(currentTier);
-  const progress = getProgressToNextTier(approvedCount);
   const tierInfo = tierConfig[currentTier];
+  const seasonHistory = useMemo(
+    () => (selectedCollaborator ? buildSeasonHistory(selectedCollaborator.id, rankingEntries) : []),
+    [selectedCollaborator, rankingEntries],
+  );
+  // Yours are tracked from enrollments and conversions; others' are read from their XP logs
+  const selectedAchievements = useMemo(() => {
+    if (!selectedCollaborator) return [];
+    if (selectedCollaborator.id === you.id) return achievements;
+    return evaluateAchievements(getActivityFromXPLog(xpLogs.get(selectedCollaborator.id) ?? [], campaigns));
+  }, [selectedCollaborator, you.id, achievements, xpLogs, campaigns]);
 
   const hasData = collaborators.length > 0 || merchantLeaderboard.length > 0;
 
@@ -440,13 +430,42 @@ export const LeaderboardTab = ({
               <span>{tierInfo.icon}</span>
               <span>{tierInfo.label}</span>
             </div>
+            <div className="text-sm opacity-80 mt-1">
+              {yourXP.totalXP.toLocaleString()} XP · {yourXP.monthlyXP.toLocaleString()} this month
+            </div>
+            {yourRow && (
+              <div className="text-sm opacity-80">
+                #{yourRow.rank} of {rankedCollaborators.length} · {leaderboardWindowConfig[timeFilter].label}
+              </div>
+            )}
           </div>
           <div className="text-right">
-            <div className="text-3xl font-bold">{approvedCount}</div>
-            <div className="text-sm opacity-80">Approvals</div>
+            <div className="text-3xl font-bold">{rollingApprovals}</div>
+            <div className="text-sm opacity-80">Approvals this window</div>
+            <div className="text-xs opacity-70">{you.approvedCount} all time</div>
           </div>
         </div>
 
+        {demotion && (
+          <div className="mb-4 px-3 py-2 bg-white/20 rounded-lg text-sm">
+            ⚠️ Drops to {tierConfig[demotion.to].label} on{' '}
+            {demotion.at.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} unless you reach{' '}
+            {tierConfig[currentTier].threshold} approvals in the last {TIER_ACTIVITY_DAYS} days
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2 mb-4 text-xs">
+          {tierInfo.benefits.rewardBoostPercent > 0 && (
+            <span className="px-2.5 py-1 bg-white/20 rounded-full">+{tierInfo.benefits.rewardBoostPercent}% rewards</span>
+          )}
+          {tierInfo.benefits.earlyAccessHours > 0 && (
+            <span className="px-2.5 py-1 bg-white/20 rounded-full">{tierInfo.benefits.earlyAccessHours}h early access</span>
+          )}
+          <span className="px-2.5 py-1 bg-white/20 rounded-full">
+            {tierInfo.benefits.maxActiveEnrollments} enrollments at a time
+          </span>
+        </div>
+
         {nextTier && (
           <div>
             <div className="flex justify-between text-sm mb-1">
@@ -463,11 +482,89 @@ export const LeaderboardTab = ({
         )}
       </div>
 
+      {/* Daily Challenge & Streak */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-5">
+          <div className="flex items-center justify-between mb-3">
+            <h4 className="font-bold text-gray-900 flex items-center gap-2">
+              <span className="text-lg">🎯</span>
+              Today's Challenge
+            </h4>
+            {todaysChallenge.campaign && (
+              <span className="text-xs text-gray-500">Most XP on {todaysChallenge.campaign.merchant} wins</span>
+            )}
+          </div>
+          {todaysChallenge.campaign ? (
+            <>
+              <div className="flex items-center gap-3 mb-4">
+                <div className="w-12 h-12 rounded-xl bg-white border border-gray-100 flex items-center justify-center overflow-hidden shadow-sm">
+                  {todaysChallenge.campaign.logo.startsWith('http') ? (
+                    <img src={todaysChallenge.campaign.logo} alt={todaysChallenge.campaign.merchant} className="w-10 h-10 object-contain" />
+                  ) : (
+                    <span className="text-2xl">{todaysChallenge.campaign.logo}</span>
+                  )}
+                </div>
+                <div>
+                  <div className="font-semibold text-gray-900">{todaysChallenge.campaign.merchant}</div>
+                  <div className="text-xs text-gray-500">{todaysChallenge.campaign.category} · Featured today</div>
+                </div>
+              </div>
+              {todaysChallenge.winner ? (
+                <div className="flex items-center justify-between px-3 py-2 bg-amber-50 rounded-lg">
+                  <span className="text-sm text-gray-700">
+                    👑 <span className="font-semibold">{todaysChallenge.winner.handle}</span> leads today
+                  </span>
+                  <span className="text-sm font-bold text-emerald-500">{todaysChallenge.winner.xpEarned.toLocaleString()} XP</span>
+                </div>
+              ) : (
+                <div className="px-3 py-2 bg-gray-50 rounded-lg text-sm text-gray-500">
+                  No XP on {todaysChallenge.campaign.merchant} yet today. Be the first!
+                </div>
+              )}
+            </>
+          ) : (
+            <p className="text-sm text-gray-500">No campaign is open today. Check back tomorrow.</p>
+          )}
+          {yesterdaysChallenge.winner && (
+            <p className="text-xs text-gray-500 mt-3">
+              Yesterday: {yesterdaysChallenge.winner.handle} won on {yesterdaysChallenge.winner.merchant} with{' '}
+              {yesterdaysChallenge.winner.xpEarned.toLocaleString()} XP
+            </p>
+          )}
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-5">
+          <h4 className="font-bold text-gray-900 flex items-center gap-2 mb-3">
+            <span className="text-lg">🔥</span>
+            Your Streak
+          </h4>
+          <div className="flex items-end gap-6 mb-3">
+            <div>
+              <div className="text-3xl font-bold text-gray-900">
+                {postingStreak.current} <span className="text-base font-medium text-gray-500">day{postingStreak.current !== 1 ? 's' : ''}</span>
+              </div>
+              <div className="text-xs text-gray-500">Current</div>
+            </div>
+            <div>
+              <div className="text-xl font-bold text-gray-700">{postingStreak.longest}</div>
+              <div className="text-xs text-gray-500">Longest</div>
+            </div>
+          </div>
+          <p className="text-sm text-gray-600">
+            {postingStreak.postedToday
+              ? 'You posted today. Come back tomorrow to keep it going!'
+              : postingStreak.current > 0
+                ? 'Upload a video today to keep your streak alive.'
+                : 'Upload a video to start a streak.'}
+          </p>
+        </div>
+      </div>
+
       {/* Collaborator Leaderboard with Podium */}
       {collaborators.length > 0 && (
         <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
           {/* Header */}
-          <div className="px-5 py-4 border-b border-gray-100 bg-gradient-to-r from-snoonu-red/5 to-transparent flex items-center justify-between">
+          <div className="px-5 py-4 border-b border-gray-100 bg-gradient-to-r from-snoonu-red/5 to-transparent flex flex-wrap items-center justify-between gap-3">
             <div>
               <h4 className="font-bold text-gray-900 flex items-center gap-2">
                 <span className="w-8 h-8 bg-snoonu-red/10 rounded-lg flex items-center justify-center">
@@ -475,61 +572,101 @@ export const LeaderboardTab = ({
                 </span>
                 Top Collaborators
               </h4>
-              <p className="text-xs text-gray-500 mt-1">Content creators with highest XP</p>
+              <p className="text-xs text-gray-500 mt-1">{leaderboardWindowConfig[timeFilter].description}</p>
             </div>
-            <div className="flex items-center bg-gray-100/80 rounded-xl p-1 shadow-inner">
-              <button 
-                onClick={() => setTimeFilter('monthly')}
-                className={`px-4 py-1.5 rounded-lg text-sm font-medium transition-all duration-200 ${
-                  timeFilter === 'monthly' 
-                    ? 'bg-white text-gray-900 shadow-sm' 
-                    : 'text-gray-500 hover:text-gray-700'
-                }`}
-              >
-                Monthly
-              </button>
-              <button 
-                onClick={() => setTimeFilter('allTime')}
-                className={`px-4 py-1.5 rounded-lg text-sm font-medium transition-all duration-200 ${
-                  timeFilter === 'allTime' 
-                    ? 'bg-white text-gray-900 shadow-sm' 
-                    : 'text-gray-500 hover:text-gray-700'
-                }`}
-              >
-                All Time
-              </button>
+            <div className="flex flex-wrap items-center gap-2">
+              <div className="flex items-center bg-gray-100/80 rounded-xl p-1 shadow-inner">
+                {(['everyone', 'following'] as LeaderboardAudience[]).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setAudience(option)}
+                    aria-pressed={audience === option}
+                    className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-all duration-200 ${
+                      audience === option
+                        ? 'bg-white text-gray-900 shadow-sm'
+                        : 'text-gray-500 hover:text-gray-700'
+                    }`}
+                  >
+                    {option === 'everyone' ? 'Everyone' : `Following (${followingIds.size})`}
+                  </button>
+                ))}
+              </div>
+              <div className="flex items-center bg-gray-100/80 rounded-xl p-1 shadow-inner">
+                {(Object.keys(leaderboardWindowConfig) as LeaderboardWindow[]).map(window => (
+                  <button
+                    key={window}
+                    onClick={() => setTimeFilter(window)}
+                    className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-all duration-200 ${
+                      timeFilter === window
+                        ? 'bg-white text-gray-900 shadow-sm'
+                        : 'text-gray-500 hover:text-gray-700'
+                    }`}
+                  >
+                    {leaderboardWindowConfig[window].label}
+                  </button>
+                ))}
+              </div>
             </div>
           </div>
 
+          {timeFilter === 'custom' && (
+            <div className="px-5 py-3 border-b border-gray-100 flex flex-wrap items-center gap-3 text-sm text-gray-600">
+              <label className="flex items-center gap-2">
+                From
+                <input
+                  type="date"
+                  value={customDates.from}
+                  onChange={(e) => setCustomDates(prev => ({ ...prev, from: e.target.value }))}
+                  className="px-2 py-1 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-snoonu-red/30"
+                />
+              </label>
+              <label className="flex items-center gap-2">
+                To
+                <input
+                  type="date"
+                  value={customDates.to}
+                  onChange={(e) => setCustomDates(prev => ({ ...prev, to: e.target.value }))}
+                  className="px-2 py-1 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-snoonu-red/30"
+                />
+              </label>
+            </div>
+          )}
+
+          {audience === 'following' && followingIds.size === 0 && (
+            <div className="px-5 py-3 border-b border-gray-100 text-sm text-gray-500">
+              You are not following anyone yet. Open a creator's profile to follow them.
+            </div>
+          )}
+
           {/* Podium Section */}
           <div className="px-6 py-6 pt-12">
             <div className="relative flex items-end justify-center gap-4" style={{ minHeight: 'calc(260px * 0.95)' }}>
               {/* 2nd Place - Left */}
-              {filteredCollaborators[1] && (
+              {rankedCollaborators[1] && (
                 <button
-                  onClick={() => setSelectedCollaborator(filteredCollaborators[1])}
+                  onClick={() => setSelectedCollaborator(rankedCollaborators[1])}
                   className="relative flex flex-col items-center group cursor-pointer transition-transform hover:scale-105"
                 >
                   {/* XP Badge */}
                   <div className="absolute -top-2 left-1/2 -translate-x-1/2 bg-gradient-to-r from-amber-400 to-orange-400 text-white text-xs font-bold px-3 py-1 rounded-full shadow-lg z-10">
-                    {(filteredCollaborators[1] as any).displayXP?.toLocaleString() || filteredCollaborators[1].totalXP.toLocaleString()}
+                    {rankedCollaborators[1].windowXP.toLocaleString()}
                     <span className="ml-1 opacity-90">XP</span>
                   </div>
                   
                   {/* Avatar Ring */}
                   <div className="relative mb-2 mt-6">
                     <div className="w-20 h-20 rounded-full bg-gradient-to-br from-gray-300 to-gray-400 p-1 shadow-lg overflow-hidden">
-                      {filteredCollaborators[1].avatar && filteredCollaborators[1].avatar.startsWith('/') && !imageErrors.has(filteredCollaborators[1].avatar) ? (
+                      {getAvatarUrl(rankedCollaborators[1].avatar) && !imageErrors.has(rankedCollaborators[1].avatar) ? (
                         <img
-                          src={getImageUrl(filteredCollaborators[1].avatar) || filteredCollaborators[1].avatar}
-                          alt={filteredCollaborators[1].handle}
+                          src={getAvatarUrl(rankedCollaborators[1].avatar) ?? undefined}
+                          alt={rankedCollaborators[1].handle}
                           className="w-full h-full object-cover rounded-full"
-                          onError={(e) => handleImageError(filteredCollaborators[1].avatar, e)}
+                          onError={(e) => handleImageError(rankedCollaborators[1].avatar, e)}
                           loading="lazy"
                         />
                       ) : (
-                        <div className={`w-full h-full rounded-full bg-gradient-to-br ${tierConfig[filteredCollaborators[1].tier].gradient} flex items-center justify-center text-white font-bold text-xl`}>
-                          {filteredCollaborators[1].handle.replace('@', '').charAt(0).toUpperCase()}
+                        <div className={`w-full h-full rounded-full bg-gradient-to-br ${tierConfig[rankedCollaborators[1].tier].gradient} flex items-center justify-center text-white font-bold text-xl`}>
+                          {rankedCollaborators[1].handle.replace('@', '').charAt(0).toUpperCase()}
                         </div>
                       )}
                     </div>
@@ -540,8 +677,8 @@ export const LeaderboardTab = ({
                   
                   {/* Name & Stats */}
                   <div className="text-center mt-2">
-                    <div className="text-gray-900 font-semibold text-sm truncate max-w-[100px]">{filteredCollaborators[1].handle}</div>
-                    <div className="text-gray-500 text-xs mt-0.5">{(filteredCollaborators[1] as any).displayApprovals?.toLocaleString() || filteredCollaborators[1].approvedCount} approvals</div>
+                    <div className="text-gray-900 font-semibold text-sm truncate max-w-[100px]">{rankedCollaborators[1].handle}</div>
+                    <div className="text-gray-500 text-xs mt-0.5">{rankedCollaborators[1].windowApprovals.toLocaleString()} approvals</div>
                   </div>
 
                   {/* Podium Stand */}
@@ -552,9 +689,9 @@ export const LeaderboardTab = ({
               )}
 
               {/* 1st Place - Center (Elevated) */}
-              {filteredCollaborators[0] && (
+              {rankedCollaborators[0] && (
                 <button
-                  onClick={() => setSelectedCollaborator(filteredCollaborators[0])}
+                  onClick={() => setSelectedCollaborator(rankedCollaborators[0])}
                   className="relative flex flex-col items-center group cursor-pointer transition-transform hover:scale-105 z-10"
                 >
                   {/* Crown */}
@@ -564,24 +701,24 @@ export const LeaderboardTab = ({
                   
                   {/* XP Badge */}
                   <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-gradient-to-r from-amber-400 to-orange-400 text-white text-xs font-bold px-3 py-1 rounded-full shadow-lg z-10">
-                    {(filteredCollaborators[0] as any).displayXP?.toLocaleString() || filteredCollaborators[0].totalXP.toLocaleString()}
+                    {rankedCollaborators[0].windowXP.toLocaleString()}
                     <span className="ml-1 opacity-90">XP</span>
                   </div>
                   
                   {/* Avatar Ring - Larger for 1st */}
                   <div className="relative mb-2 mt-12">
                     <div className="w-24 h-24 rounded-full bg-gradient-to-br from-yellow-400 to-amber-500 p-1 shadow-xl ring-4 ring-yellow-400/30 overflow-hidden">
-                      {filteredCollaborators[0].avatar && filteredCollaborators[0].avatar.startsWith('/') && !imageErrors.has(filteredCollaborators[0].avatar) ? (
+                      {getAvatarUrl(rankedCollaborators[0].avatar) && !imageErrors.has(rankedCollaborators[0].avatar) ? (
                         <img
-                          src={getImageUrl(filteredCollaborators[0].avatar) || filteredCollaborators[0].avatar}
-                          alt={filteredCollaborators[0].handle}
+                          src={getAvatarUrl(rankedCollaborators[0].avatar) ?? undefined}
+                          alt={rankedCollaborators[0].handle}
                           className="w-full h-full object-cover rounded-full"
-                          onError={(e) => handleImageError(filteredCollaborators[0].avatar, e)}
+                          onError={(e) => handleImageError(rankedCollaborators[0].avatar, e)}
                           loading="lazy"
                         />
                       ) : (
-                        <div className={`w-full h-full rounded-full bg-gradient-to-br ${tierConfig[filteredCollaborators[0].tier].gradient} flex items-center justify-center text-white font-bold text-2xl`}>
-                          {filteredCollaborators[0].handle.replace('@', '').charAt(0).toUpperCase()}
+                        <div className={`w-full h-full rounded-full bg-gradient-to-br ${tierConfig[rankedCollaborators[0].tier].gradient} flex items-center justify-center text-white font-bold text-2xl`}>
+                          {rankedCollaborators[0].handle.replace('@', '').charAt(0).toUpperCase()}
                         </div>
                       )}
                     </div>
@@ -592,8 +729,8 @@ export const LeaderboardTab = ({
                   
                   {/* Name & Stats */}
                   <div className="text-center mt-2">
-                    <div className="text-gray-900 font-bold text-base truncate max-w-[120px]">{filteredCollaborators[0].handle}</div>
-                    <div className="text-gray-500 text-xs mt-0.5">{(filteredCollaborators[0] as any).displayApprovals?.toLocaleString() || filteredCollaborators[0].approvedCount} approvals</div>
+                    <div className="text-gray-900 font-bold text-base truncate max-w-[120px]">{rankedCollaborators[0].handle}</div>
+                    <div className="text-gray-500 text-xs mt-0.5">{rankedCollaborators[0].windowApprovals.toLocaleString()} approvals</div>
                   </div>
 
                   {/* Podium Stand - Tallest */}
@@ -606,31 +743,31 @@ export const LeaderboardTab = ({
               )}
 
               {/* 3rd Place - Right */}
-              {filteredCollaborators[2] && (
+              {rankedCollaborators[2] && (
                 <button
-                  onClick={() => setSelectedCollaborator(filteredCollaborators[2])}
+                  onClick={() => setSelectedCollaborator(rankedCollaborators[2])}
                   className="relative flex flex-col items-center group cursor-pointer transition-transform hover:scale-105"
                 >
                   {/* XP Badge */}
                   <div className="absolute -top-2 left-1/2 -translate-x-1/2 bg-gradient-to-r from-amber-400 to-orange-400 text-white text-xs font-bold px-3 py-1 rounded-full shadow-lg z-10">
-                    {(filteredCollaborators[2] as any).displayXP?.toLocaleString() || filteredCollaborators[2].totalXP.toLocaleString()}
+                    {rankedCollaborators[2].windowXP.toLocaleString()}
                     <span className="ml-1 opacity-90">XP</span>
                   </div>
                   
                   {/* Avatar Ring */}
                   <div className="relative mb-2 mt-6">
                     <div className="w-18 h-18 rounded-full bg-gradient-to-br from-amber-600 to-amber-700 p-1 shadow-lg overflow-hidden" style={{ width: '72px', height: '72px' }}>
-                      {filteredCollaborators[2].avatar && filteredCollaborators[2].avatar.startsWith('/') && !imageErrors.has(filteredCollaborators[2].avatar) ? (
+                      {getAvatarUrl(rankedCollaborators[2].avatar) && !imageErrors.has(rankedCollaborators[2].avatar) ? (
                         <img
-                          src={getImageUrl(filteredCollaborators[2].avatar) || filteredCollaborators[2].avatar}
-                          alt={filteredCollaborators[2].handle}
+                          src={getAvatarUrl(rankedCollaborators[2].avatar) ?? undefined}
+                          alt={rankedCollaborators[2].handle}
                           className="w-full h-full object-cover rounded-full"
-                          onError={(e) => handleImageError(filteredCollaborators[2].avatar, e)}
+                          onError={(e) => handleImageError(rankedCollaborators[2].avatar, e)}
                           loading="lazy"
                         />
                       ) : (
-                        <div className={`w-full h-full rounded-full bg-gradient-to-br ${tierConfig[filteredCollaborators[2].tier].gradient} flex items-center justify-center text-white font-bold text-lg`}>
-                          {filteredCollaborators[2].handle.replace('@', '').charAt(0).toUpperCase()}
+                        <div className={`w-full h-full rounded-full bg-gradient-to-br ${tierConfig[rankedCollaborators[2].tier].gradient} flex items-center justify-center text-white font-bold text-lg`}>
+                          {rankedCollaborators[2].handle.replace('@', '').charAt(0).toUpperCase()}
                         </div>
                       )}
                     </div>
@@ -641,8 +778,8 @@ export const LeaderboardTab = ({
                   
                   {/* Name & Stats */}
                   <div className="text-center mt-2">
-                    <div className="text-gray-900 font-semibold text-sm truncate max-w-[100px]">{filteredCollaborators[2].handle}</div>
-                    <div className="text-gray-500 text-xs mt-0.5">{(filteredCollaborators[2] as any).displayApprovals?.toLocaleString() || filteredCollaborators[2].approvedCount} approvals</div>
+                    <div className="text-gray-900 font-semibold text-sm truncate max-w-[100px]">{rankedCollaborators[2].handle}</div>
+                    <div className="text-gray-500 text-xs mt-0.5">{rankedCollaborators[2].windowApprovals.toLocaleString()} approvals</div>
                   </div>
 
                   {/* Podium Stand */}
@@ -655,42 +792,54 @@ export const LeaderboardTab = ({
           </div>
 
           {/* Remaining Leaderboard (4-10) - Same style as merchants */}
-          {filteredCollaborators.length > 3 && (
+          {listedCollaborators.length > 0 && (
             <div className="divide-y divide-gray-50">
-              {filteredCollaborators.slice(3, 10).map((collab, i) => (
-                <button
-                  key={collab.id}
-                  onClick={() => setSelectedCollaborator(collab)}
-                  className="w-full px-5 py-4 flex items-center gap-4 hover:bg-gray-50/50 transition-colors text-left"
-                >
-                  <div className="w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center text-sm font-bold text-gray-500">
-                    {i + 4}
-                  </div>
-                  <div className={`w-12 h-12 rounded-full bg-gradient-to-br ${tierConfig[collab.tier].gradient} flex items-center justify-center text-white font-bold shadow-sm overflow-hidden`}>
-                    {collab.avatar && collab.avatar.startsWith('/') && !imageErrors.has(collab.avatar) ? (
-                      <img
-                        src={getImageUrl(collab.avatar) || collab.avatar}
-                        alt={collab.handle}
-                        className="w-full h-full object-cover rounded-full"
-                        onError={(e) => handleImageError(collab.avatar, e)}
-                        loading="lazy"
-                      />
-                    ) : (
-                      <span>{collab.handle.replace('@', '').charAt(0).toUpperCase()}</span>
-                    )}
-                  </div>
-                  <div className="flex-1 min-w-0">
-                    <div className="font-semibold text-gray-900 truncate">{collab.handle}</div>
-                    <div className="text-xs text-gray-500 flex items-center gap-1 mt-0.5">
-                      <TierBadge tier={collab.tier} size="sm" />
-                      <span className="text-gray-300">•</span>
-                      <span>{(collab as any).displayApprovals?.toLocaleString() || collab.approvedCount} approvals</span>
+              {listedCollaborators.map(collab => (
+                <Fragment key={collab.id}>
+                  {collab.rank > LEADERBOARD_SIZE && (
+                    <div className="px-5 py-1 text-center text-gray-300 tracking-widest">···</div>
+                  )}
+                  <button
+                    onClick={() => setSelectedCollaborator(collab)}
+                    className={`w-full px-5 py-4 flex items-center gap-4 transition-colors text-left ${
+                      collab.isYou ? 'bg-snoonu-red/5 hover:bg-snoonu-red/10' : 'hover:bg-gray-50/50'
+                    }`}
+                  >
+                    <div className="w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center text-sm font-bold text-gray-500">
+                      {collab.rank}
                     </div>
-                  </div>
-                  <div className="text-right">
-                    <div className="text-sm font-bold text-emerald-500">{(collab as any).displayXP?.toLocaleString() || collab.totalXP.toLocaleString()} XP</div>
-                  </div>
-                </button>
+                    <div className={`w-12 h-12 rounded-full bg-gradient-to-br ${tierConfig[collab.tier].gradient} flex items-center justify-center text-white font-bold shadow-sm overflow-hidden`}>
+                      {getAvatarUrl(collab.avatar) && !imageErrors.has(collab.avatar) ? (
+                        <img
+                          src={getAvatarUrl(collab.avatar) ?? undefined}
+                          alt={collab.handle}
+                          className="w-full h-full object-cover rounded-full"
+                          onError={(e) => handleImageError(collab.avatar, e)}
+                          loading="lazy"
+                        />
+                      ) : (
+                        <span>{collab.handle.replace('@', '').charAt(0).toUpperCase()}</span>
+                      )}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="font-semibold text-gray-900 truncate">
+                        {collab.handle}
+                        {collab.isYou && hasProfile && <span className="ml-1 text-xs font-medium text-snoonu-red">(you)</span>}
+                        {(streaks.get(collab.id) ?? 0) >= 2 && (
+                          <span className="ml-2 text-xs font-medium text-orange-500">🔥 {streaks.get(collab.id)}</span>
+                        )}
+                      </div>
+                      <div className="text-xs text-gray-500 flex items-center gap-1 mt-0.5">
+                        <TierBadge tier={collab.tier} size="sm" />
+                        <span className="text-gray-300">•</span>
+                        <span>{collab.windowApprovals.toLocaleString()} approvals</span>
+                      </div>
+                    </div>
+                    <div className="text-right">
+                      <div className="text-sm font-bold text-emerald-500">{collab.windowXP.toLocaleString()} XP</div>
+                    </div>
+                  </button>
+                </Fragment>
               ))}
             </div>
           )}
@@ -848,6 +997,12 @@ export const LeaderboardTab = ({
       {selectedCollaborator && (
         <CollaboratorProfileModal
           collaborator={selectedCollaborator}
+          seasonHistory={seasonHistory}
+          achievements={selectedAchievements}
+          followCounts={getFollowCounts(follows, selectedCollaborator.id)}
+          isFollowing={isFollowing(follows, you.id, selectedCollaborator.id)}
+          onToggleFollow={selectedCollaborator.id === you.id ? undefined : () => onToggleFollow(selectedCollaborator)}
+          profilePath={selectedCollaborator.id !== you.id || hasProfile ? getProfilePath(selectedCollaborator.handle) : null}
           onClose={() => setSelectedCollaborator(null)}
         />
       )}
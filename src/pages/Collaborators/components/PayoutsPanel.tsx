@@ -0,0 +1,200 @@
+import { useState, useMemo } from 'react';
+import type { LedgerEntry, Payout, PayoutMethod } from '../types';
+import { MIN_PAYOUT_AMOUNT, payoutStatusConfig, walletProviders } from '../constants';
+import { summarizeLedger } from '../earningsLedger';
+import { describePayoutMethod, getPayoutBlocker, normalizeIban } from '../payouts';
+import { formatDateTime } from '../utils';
+import type { Result } from '../../../lib/result';
+
+interface PayoutsPanelProps {
+  ledger: LedgerEntry[];
+  payoutMethod: PayoutMethod | null;
+  payouts: Payout[];
+  onSavePayoutMethod: (method: PayoutMethod) => Promise<Result<PayoutMethod>>;
+  onWithdraw: () => Promise<void>;
+}
+
+interface PayoutMethodFormProps {
+  initial: PayoutMethod | null;
+  onSave: (method: PayoutMethod) => Promise<Result<PayoutMethod>>;
+  onCancel: () => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-snoonu-red/20 focus:border-snoonu-red bg-white';
+
+const PayoutMethodForm = ({ initial, onSave, onCancel }: PayoutMethodFormProps) => {
+  const [type, setType] = useState<PayoutMethod['type']>(initial?.type ?? 'iban');
+  const [accountName, setAccountName] = useState(initial?.type === 'iban' ? initial.accountName : '');
+  const [iban, setIban] = useState(initial?.type === 'iban' ? initial.iban : '');
+  const [provider, setProvider] = useState(initial?.type === 'wallet' ? initial.provider : walletProviders[0]);
+  const [phoneNumber, setPhoneNumber] = useState(initial?.type === 'wallet' ? initial.phoneNumber : '');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    const result = await onSave(type === 'iban'
+      ? { type, accountName: accountName.trim(), iban: normalizeIban(iban) }
+      : { type, provider, phoneNumber: phoneNumber.trim() });
+    setIsSaving(false);
+    if (!result.ok) setError(result.error.message);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="flex rounded-lg bg-gray-100 p-1">
+        {(['iban', 'wallet'] as PayoutMethod['type'][]).map(option => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => {
+              setType(option);
+              setError(null);
+            }}
+            className={`flex-1 px-3 py-1.5 text-xs font-medium rounded-md transition-all ${
+              type === option ? 'bg-white text-snoonu-red shadow-sm' : 'text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            {option === 'iban' ? 'Bank (IBAN)' : 'Wallet'}
+          </button>
+        ))}
+      </div>
+
+      {type === 'iban' ? (
+        <>
+          <input
+            value={accountName}
+            onChange={(e) => setAccountName(e.target.value)}
+            placeholder="Account holder name"
+            className={inputClassName}
+          />
+          <input
+            value={iban}
+            onChange={(e) => setIban(e.target.value)}
+            placeholder="QA00 XXXX 0000 0000 0000 0000 0000 0"
+            className={`${inputClassName} font-mono`}
+          />
+        </>
+      ) : (
+        <>
+          <select value={provider} onChange={(e) => setProvider(e.target.value)} className={inputClassName}>
+            {walletProviders.map(name => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+          <input
+            value={phoneNumber}
+            onChange={(e) => setPhoneNumber(e.target.value)}
+            placeholder="+974 5555 1234"
+            className={inputClassName}
+          />
+        </>
+      )}
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="flex-1 py-2 bg-gray-900 text-white text-sm font-semibold rounded-lg hover:bg-gray-800 transition-colors disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Save Method'}
+        </button>
+        {initial && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 bg-white border border-gray-200 text-gray-700 text-sm font-semibold rounded-lg hover:bg-gray-100 transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+    </form>
+  );
+};
+
+// Withdraw the available balance to a saved payout method, and past withdrawals
+export const PayoutsPanel = ({ ledger, payoutMethod, payouts, onSavePayoutMethod, onWithdraw }: PayoutsPanelProps) => {
+  const [isEditingMethod, setEditingMethod] = useState(false);
+  const [isWithdrawing, setIsWithdrawing] = useState(false);
+  const balance = useMemo(() => summarizeLedger(ledger), [ledger]);
+  const blocker = getPayoutBlocker(balance.available, payoutMethod, payouts);
+
+  const handleWithdraw = async () => {
+    setIsWithdrawing(true);
+    await onWithdraw();
+    setIsWithdrawing(false);
+  };
+
+  const handleSaveMethod = async (method: PayoutMethod) => {
+    const result = await onSavePayoutMethod(method);
+    if (result.ok) setEditingMethod(false);
+    return result;
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
+      <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wide">Payouts</h3>
+      <p className="text-xs text-gray-400 mb-4">Minimum withdrawal {MIN_PAYOUT_AMOUNT} QAR</p>
+
+      <div className="flex items-end justify-between gap-4 mb-4">
+        <div>
+          <p className="text-xs text-gray-500">Available to withdraw</p>
+          <p className="text-2xl font-bold text-gray-900">
+            {balance.available.toFixed(2)} <span className="text-sm font-normal text-gray-500">QAR</span>
+          </p>
+          {balance.withdrawing > 0 && (
+            <p className="text-xs text-blue-600">{balance.withdrawing.toFixed(2)} QAR on its way</p>
+          )}
+        </div>
+        <button
+          onClick={handleWithdraw}
+          disabled={blocker !== null || isWithdrawing}
+          className="px-4 py-2 bg-gradient-to-r from-snoonu-red to-red-600 text-white text-sm font-medium rounded-lg shadow-md hover:shadow-lg transition-shadow disabled:opacity-40 disabled:shadow-none disabled:cursor-not-allowed"
+        >
+          {isWithdrawing ? 'Requesting...' : 'Withdraw'}
+        </button>
+      </div>
+      {blocker && payoutMethod && <p className="text-xs text-gray-500 -mt-2 mb-4">{blocker}</p>}
+
+      <div className="bg-gray-50 rounded-xl p-4 mb-6">
+        <h4 className="text-xs font-semibold text-gray-700 uppercase tracking-wide mb-3">Payout Method</h4>
+        {payoutMethod && !isEditingMethod ? (
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-sm font-medium text-gray-900">{describePayoutMethod(payoutMethod)}</span>
+            <button onClick={() => setEditingMethod(true)} className="text-xs font-medium text-snoonu-red hover:underline">
+              Change
+            </button>
+          </div>
+        ) : (
+          <PayoutMethodForm initial={payoutMethod} onSave={handleSaveMethod} onCancel={() => setEditingMethod(false)} />
+        )}
+      </div>
+
+      <h4 className="text-xs font-semibold text-gray-700 uppercase tracking-wide mb-3">Withdrawal History</h4>
+      {payouts.length > 0 ? (
+        <ul className="divide-y divide-gray-100">
+          {payouts.map(payout => (
+            <li key={payout.id} className="py-2.5">
+              <div className="flex items-center justify-between gap-2 text-sm">
+                <span className="font-semibold text-gray-900">{payout.amount.toFixed(2)} QAR</span>
+                <span className={`inline-flex px-2.5 py-1 rounded-md text-xs font-medium ${payoutStatusConfig[payout.status].className}`}>
+                  {payoutStatusConfig[payout.status].label}
+                </span>
+              </div>
+              <p className="text-xs text-gray-400">
+                {formatDateTime(payout.requestedAt)} · {describePayoutMethod(payout.method)}
+              </p>
+              {payout.failureReason && <p className="text-xs text-red-600 mt-0.5">{payout.failureReason}</p>}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-400">No withdrawals yet</p>
+      )}
+    </div>
+  );
+};
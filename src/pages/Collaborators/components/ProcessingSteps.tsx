@@ -1,16 +1,22 @@
-import type { EnrollmentStatus } from '../types';
+import type { EnrollmentStatus, StatusChange } from '../types';
 import { statusConfig } from '../constants';
+import { formatDateTime } from '../utils';
 import { CheckIcon } from './Icons';
 
 interface ProcessingStepsProps {
   currentStatus: EnrollmentStatus;
+  history?: StatusChange[];
 }
 
 const steps: EnrollmentStatus[] = ['enrolled', 'uploaded', 'processing', 'under-review', 'approved'];
 
-export const ProcessingSteps = ({ currentStatus }: ProcessingStepsProps) => {
+export const ProcessingSteps = ({ currentStatus, history = [] }: ProcessingStepsProps) => {
   const currentIdx = steps.indexOf(currentStatus);
 
+  // Latest time each step was reached (a resubmission reaches 'uploaded' again)
+  const reachedAt = new Map<EnrollmentStatus, Date>();
+  history.forEach(change => reachedAt.set(change.to, change.at));
+
   return (
     <div className="flex items-center justify-between px-4">
       {steps.map((step, idx) => {
@@ -61,6 +67,9 @@ export const ProcessingSteps = ({ currentStatus }: ProcessingStepsProps) => {
               >
                 {stepInfo.label}
               </div>
+              {reachedAt.has(step) && (isComplete || isCurrent) && (
+                <div className="text-[10px] text-gray-400 mt-0.5">{formatDateTime(reachedAt.get(step)!)}</div>
+              )}
             </div>
           </div>
         );
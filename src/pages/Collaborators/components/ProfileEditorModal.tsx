@@ -0,0 +1,327 @@
+import { useEffect, useRef, useState } from 'react';
+import type { CollaboratorProfile, ProfileDraft, ProfileStep, SocialAccount } from '../types';
+import { MAX_PROFILE_CATEGORIES, contentCategories, payoutCountries, profileStepConfig, referralPlatforms } from '../constants';
+import { profileSteps, toProfileDraft, validateProfileDraft, validateProfileStep } from '../creatorProfile';
+import { getAvatarUrl } from '../utils';
+import type { Result } from '../../../lib/result';
+import { CloseIcon, UploadIcon } from './Icons';
+
+interface ProfileEditorModalProps {
+  profile: CollaboratorProfile | null; // null for onboarding
+  takenHandles: string[]; // Other collaborators' handles
+  onSave: (draft: ProfileDraft) => Promise<Result<CollaboratorProfile>>;
+  onUploadAvatar: (file: File) => Promise<Result<string>>;
+  onClose: () => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-snoonu-red/20 focus:border-snoonu-red bg-white';
+
+/**
+ * Onboarding for creators without a profile, one step at a time, and the
+ * editor for those who have one, where any step can be saved from.
+ */
+export const ProfileEditorModal = ({ profile, takenHandles, onSave, onUploadAvatar, onClose }: ProfileEditorModalProps) => {
+  const modalRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [draft, setDraft] = useState(() => toProfileDraft(profile));
+  const [step, setStep] = useState<ProfileStep>('identity');
+  const [error, setError] = useState<string | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isOnboarding = profile === null;
+  const stepIndex = profileSteps.indexOf(step);
+  const isLastStep = stepIndex === profileSteps.length - 1;
+  const avatarUrl = getAvatarUrl(draft.avatar);
+
+  useEffect(() => {
+    modalRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [onClose]);
+
+  const update = (changes: Partial<ProfileDraft>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+    setError(null);
+  };
+
+  const updateSocial = (platform: SocialAccount['platform'], changes: Partial<SocialAccount>) =>
+    update({ socials: draft.socials.map(account => account.platform === platform ? { ...account, ...changes } : account) });
+
+  const toggleCategory = (category: string) =>
+    update({
+      categories: draft.categories.includes(category)
+        ? draft.categories.filter(c => c !== category)
+        : [...draft.categories, category].slice(-MAX_PROFILE_CATEGORIES),
+    });
+
+  const goToStep = (next: ProfileStep) => {
+    setStep(next);
+    setError(null);
+  };
+
+  const handleAvatarChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsUploading(true);
+    const result = await onUploadAvatar(file);
+    setIsUploading(false);
+    if (result.ok) {
+      update({ avatar: result.data });
+    } else {
+      setError(result.error.message);
+    }
+  };
+
+  const handleNext = () => {
+    const problem = validateProfileStep(step, draft, takenHandles);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    goToStep(profileSteps[stepIndex + 1]);
+  };
+
+  const handleSave = async () => {
+    const invalid = validateProfileDraft(draft, takenHandles);
+    if (invalid) {
+      setStep(invalid.step);
+      setError(invalid.problem);
+      return;
+    }
+
+    setIsSaving(true);
+    const result = await onSave(draft);
+    setIsSaving(false);
+    if (result.ok) {
+      onClose();
+    } else {
+      setError(result.error.message);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 animate-fade-in"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div
+        ref={modalRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="profile-editor-title"
+        tabIndex={-1}
+        className="bg-white rounded-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto shadow-xl animate-slide-up motion-reduce:animate-none custom-scrollbar"
+      >
+        <div className="p-6 border-b border-gray-100">
+          <div className="flex items-start justify-between gap-3">
+            <div>
+              <h2 id="profile-editor-title" className="text-xl font-bold text-gray-900">
+                {isOnboarding ? 'Set up your creator profile' : 'Edit profile'}
+              </h2>
+              <p className="text-sm text-gray-500 mt-1">{profileStepConfig[step].description}</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+              aria-label="Close profile editor"
+            >
+              <CloseIcon className="w-5 h-5 text-gray-600" />
+            </button>
+          </div>
+
+          {/* Steps; when editing, any of them can be opened directly */}
+          <div className="flex gap-2 mt-4">
+            {profileSteps.map((option, index) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => goToStep(option)}
+                disabled={isOnboarding && index > stepIndex}
+                className={`flex-1 text-left disabled:cursor-default ${index <= stepIndex || !isOnboarding ? '' : 'opacity-50'}`}
+              >
+                <div className={`h-1 rounded-full ${index <= stepIndex ? 'bg-snoonu-red' : 'bg-gray-200'}`} />
+                <div className={`text-xs mt-1.5 ${option === step ? 'font-semibold text-gray-900' : 'text-gray-500'}`}>
+                  {index + 1}. {profileStepConfig[option].label}
+                </div>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {step === 'identity' && (
+            <>
+              <div className="flex items-center gap-4">
+                <div className="w-20 h-20 rounded-full bg-gradient-to-br from-gray-300 to-gray-400 overflow-hidden flex items-center justify-center text-3xl text-white font-bold flex-shrink-0">
+                  {avatarUrl ? (
+                    <img src={avatarUrl} alt="Your avatar" className="w-full h-full object-cover" />
+                  ) : (
+                    draft.handle.replace('@', '').charAt(0).toUpperCase() || '?'
+                  )}
+                </div>
+                <div>
+                  <button
+                    type="button"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isUploading}
+                    className="inline-flex items-center gap-2 px-3 py-2 bg-white border border-gray-200 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-50"
+                  >
+                    <UploadIcon className="w-4 h-4" />
+                    {isUploading ? 'Uploading...' : avatarUrl ? 'Change photo' : 'Upload photo'}
+                  </button>
+                  <p className="text-xs text-gray-400 mt-1">Square images look best</p>
+                  <input ref={fileInputRef} type="file" accept="image/*" onChange={handleAvatarChange} className="hidden" />
+                </div>
+              </div>
+
+              <label className="block">
+                <span className="text-xs font-medium text-gray-700">Handle</span>
+                <div className="relative mt-1">
+                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm text-gray-400">@</span>
+                  <input
+                    value={draft.handle}
+                    onChange={(e) => update({ handle: e.target.value.replace(/^@/, '').toLowerCase() })}
+                    placeholder="your_handle"
+                    className={`${inputClassName} pl-7`}
+                  />
+                </div>
+              </label>
+
+              <label className="block">
+                <span className="text-xs font-medium text-gray-700">Bio <span className="text-gray-400">(optional)</span></span>
+                <textarea
+                  value={draft.bio}
+                  onChange={(e) => update({ bio: e.target.value })}
+                  rows={3}
+                  placeholder="Food lover sharing the best spots in Doha"
+                  className={`${inputClassName} mt-1 resize-none`}
+                />
+              </label>
+            </>
+          )}
+
+          {step === 'socials' && draft.socials.map(account => (
+            <div key={account.platform}>
+              <div className="flex items-center gap-1.5 text-xs font-medium text-gray-700 mb-1">
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: referralPlatforms[account.platform].color }} />
+                {referralPlatforms[account.platform].label}
+              </div>
+              <div className="grid grid-cols-[1fr_8rem] gap-2">
+                <input
+                  value={account.handle}
+                  onChange={(e) => updateSocial(account.platform, { handle: e.target.value })}
+                  placeholder="Handle"
+                  aria-label={`${referralPlatforms[account.platform].label} handle`}
+                  className={inputClassName}
+                />
+                <input
+                  type="number"
+                  min={0}
+                  value={account.followers ?? ''}
+                  onChange={(e) => updateSocial(account.platform, {
+                    followers: e.target.value === '' ? undefined : Number(e.target.value),
+                  })}
+                  placeholder="Followers"
+                  aria-label={`${referralPlatforms[account.platform].label} followers`}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+          ))}
+
+          {step === 'interests' && (
+            <>
+              <div>
+                <span className="text-xs font-medium text-gray-700">
+                  Content categories <span className="text-gray-400">(up to {MAX_PROFILE_CATEGORIES})</span>
+                </span>
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {contentCategories.map(category => (
+                    <button
+                      key={category}
+                      type="button"
+                      onClick={() => toggleCategory(category)}
+                      aria-pressed={draft.categories.includes(category)}
+                      className={`px-3 py-1.5 rounded-full text-xs font-medium border transition-colors ${
+                        draft.categories.includes(category)
+                          ? 'bg-snoonu-red text-white border-snoonu-red'
+                          : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'
+                      }`}
+                    >
+                      {category}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <label className="block">
+                <span className="text-xs font-medium text-gray-700">Payout country</span>
+                <select
+                  value={draft.payoutCountry}
+                  onChange={(e) => update({ payoutCountry: e.target.value })}
+                  className={`${inputClassName} mt-1`}
+                >
+                  {payoutCountries.map(country => (
+                    <option key={country.code} value={country.code}>{country.label}</option>
+                  ))}
+                </select>
+              </label>
+            </>
+          )}
+
+          {error && <p className="text-xs text-red-600">{error}</p>}
+        </div>
+
+        <div className="flex gap-2 px-6 pb-6">
+          {stepIndex > 0 ? (
+            <button
+              type="button"
+              onClick={() => goToStep(profileSteps[stepIndex - 1])}
+              className="px-4 py-2 bg-white border border-gray-200 text-gray-700 text-sm font-semibold rounded-lg hover:bg-gray-100 transition-colors"
+            >
+              Back
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 bg-white border border-gray-200 text-gray-700 text-sm font-semibold rounded-lg hover:bg-gray-100 transition-colors"
+            >
+              {isOnboarding ? 'Later' : 'Cancel'}
+            </button>
+          )}
+          {!isLastStep && (
+            <button
+              type="button"
+              onClick={handleNext}
+              className={`flex-1 py-2 text-sm font-semibold rounded-lg transition-colors ${
+                isOnboarding ? 'bg-gray-900 text-white hover:bg-gray-800' : 'bg-white border border-gray-200 text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              Next
+            </button>
+          )}
+          {(isLastStep || !isOnboarding) && (
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={isSaving || isUploading}
+              className="flex-1 py-2 bg-gray-900 text-white text-sm font-semibold rounded-lg hover:bg-gray-800 transition-colors disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : isOnboarding ? 'Finish' : 'Save Profile'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
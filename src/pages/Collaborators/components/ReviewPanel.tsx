@@ -0,0 +1,172 @@
+import { useState } from 'react';
+import type { ReviewItem } from '../types';
+import { rejectionReasonTemplates } from '../constants';
+import { composeRejectionReason } from '../utils';
+import { getMaxAttempts, getRejectionHistory, getSubmissionCount } from '../enrollmentStateMachine';
+import { CheckIcon, CloseIcon } from './Icons';
+
+interface ReviewPanelProps {
+  item: ReviewItem;
+  onApprove: () => Promise<void>;
+  onReject: (reason: string) => Promise<void>;
+}
+
+// Video and requirement checklist for one submission, with the approve / reject decision
+export const ReviewPanel = ({ item, onApprove, onReject }: ReviewPanelProps) => {
+  const { enrollment } = item;
+  const { campaign } = enrollment;
+  const [checked, setChecked] = useState<Set<number>>(new Set());
+  const [templateId, setTemplateId] = useState(rejectionReasonTemplates[0].id);
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [videoError, setVideoError] = useState(false);
+
+  const previousRejections = getRejectionHistory(enrollment);
+  const allChecked = checked.size === campaign.requirements.length;
+  const template = rejectionReasonTemplates.find(t => t.id === templateId) ?? rejectionReasonTemplates[0];
+
+  const toggleRequirement = (index: number) => {
+    setChecked(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const decide = async (decision: () => Promise<void>) => {
+    setIsSaving(true);
+    try {
+      await decision();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-bold text-gray-900">{campaign.merchant}</h2>
+          <p className="text-sm text-gray-500">
+            {campaign.productName || campaign.category} · {campaign.videoReq}
+          </p>
+          <p className="text-xs text-gray-400 mt-1">
+            Attempt {Math.max(getSubmissionCount(enrollment), 1)} of {getMaxAttempts(campaign)}
+          </p>
+        </div>
+        <div className="text-right text-xs text-gray-400">
+          <div>Collaborator</div>
+          <div className="font-mono text-gray-600 truncate max-w-[180px]">{item.collaboratorId}</div>
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        {/* Video */}
+        <div>
+          {enrollment.uploadedFile?.url && !videoError ? (
+            <video
+              key={enrollment.uploadedFile.url}
+              src={enrollment.uploadedFile.url}
+              controls
+              playsInline
+              preload="metadata"
+              className="w-full max-h-[480px] rounded-xl bg-black"
+              onError={() => setVideoError(true)}
+            />
+          ) : (
+            <div className="aspect-[9/16] max-h-[480px] w-full rounded-xl bg-gray-100 flex items-center justify-center p-6 text-center text-sm text-gray-500">
+              {enrollment.uploadedFile
+                ? `Video unavailable for ${enrollment.uploadedFile.name}`
+                : 'No video attached to this submission'}
+            </div>
+          )}
+        </div>
+
+        {/* Requirements checklist */}
+        <div className="space-y-4">
+          <div>
+            <h4 className="text-sm font-semibold text-gray-700 mb-3">
+              Requirements ({checked.size}/{campaign.requirements.length})
+            </h4>
+            <ul className="space-y-2">
+              {campaign.requirements.map((req, i) => (
+                <li key={i}>
+                  <label className="flex items-start gap-3 text-sm text-gray-600 bg-gray-50 rounded-lg p-3 cursor-pointer hover:bg-gray-100 transition-colors">
+                    <input
+                      type="checkbox"
+                      checked={checked.has(i)}
+                      onChange={() => toggleRequirement(i)}
+                      className="mt-0.5 w-4 h-4 accent-green-600"
+                    />
+                    {req}
+                  </label>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {previousRejections.length > 0 && (
+            <div className="bg-red-50 border border-red-100 rounded-lg p-3 text-sm text-red-800 space-y-1">
+              <div className="font-semibold">Previously rejected</div>
+              {previousRejections.map((rejection, i) => (
+                <p key={i} className="text-xs whitespace-pre-line">
+                  Attempt {i + 1}: {rejection.reason}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {campaign.reviewNotes && (
+            <div className="bg-yellow-50 border border-yellow-100 rounded-lg p-3 text-sm text-yellow-800">
+              <span className="font-semibold">Review notes: </span>
+              {campaign.reviewNotes}
+            </div>
+          )}
+
+          <button
+            onClick={() => decide(onApprove)}
+            disabled={!allChecked || isSaving}
+            className="w-full py-3 bg-green-600 text-white rounded-xl font-semibold flex items-center justify-center gap-2 hover:bg-green-700 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            <CheckIcon className="w-5 h-5" />
+            Approve
+          </button>
+          {!allChecked && (
+            <p className="text-xs text-gray-500 -mt-2">Tick every requirement to approve.</p>
+          )}
+        </div>
+      </div>
+
+      {/* Rejection */}
+      <div className="border-t border-gray-100 pt-6 space-y-3">
+        <h4 className="text-sm font-semibold text-gray-700">Reject submission</h4>
+        <select
+          value={templateId}
+          onChange={(e) => setTemplateId(e.target.value)}
+          className="w-full px-4 py-2.5 bg-white border border-gray-200 rounded-xl text-sm text-gray-700"
+        >
+          {rejectionReasonTemplates.map(t => (
+            <option key={t.id} value={t.id}>{t.label}</option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-500">{template.reason}</p>
+        <textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Optional note for the collaborator"
+          rows={3}
+          className="w-full px-4 py-3 bg-white border border-gray-200 rounded-xl text-sm text-gray-700 resize-none"
+        />
+        <button
+          onClick={() => decide(() => onReject(composeRejectionReason(template, note)))}
+          disabled={isSaving}
+          className="w-full py-3 bg-red-600 text-white rounded-xl font-semibold flex items-center justify-center gap-2 hover:bg-red-700 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          <CloseIcon className="w-5 h-5" />
+          Reject
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,35 @@
+import type { StatusChange } from '../types';
+import { statusConfig } from '../constants';
+import { formatDateTime } from '../utils';
+
+interface StatusTimelineProps {
+  history: StatusChange[];
+}
+
+// Every status change of an enrollment, oldest first
+export const StatusTimeline = ({ history }: StatusTimelineProps) => (
+  <ol className="relative border-l-2 border-gray-200 ml-2 space-y-4">
+    {history.map((change, i) => {
+      const info = statusConfig[change.to];
+      return (
+        <li key={i} className="ml-4">
+          <span
+            className={`absolute -left-[7px] mt-1 w-3 h-3 rounded-full border-2 border-white ${info.bg}`}
+            aria-hidden="true"
+          />
+          <div className="flex items-center justify-between gap-2">
+            <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${info.bg} ${info.text}`}>
+              {info.label}
+            </span>
+            <time className="text-xs text-gray-400" dateTime={change.at.toISOString()}>
+              {formatDateTime(change.at)}
+            </time>
+          </div>
+          {change.note && (
+            <p className="text-xs text-gray-500 mt-1 whitespace-pre-line">{change.note}</p>
+          )}
+        </li>
+      );
+    })}
+  </ol>
+);
@@ -0,0 +1,67 @@
+import type { VideoCheck } from '../types';
+import { CheckIcon, CloseIcon } from './Icons';
+
+interface VideoChecklistProps {
+  fileName: string;
+  checks: VideoCheck[] | null; // null while the file's metadata is being read
+  onConfirm: () => void;
+  onChooseAnother: () => void;
+}
+
+export const VideoChecklist = ({ fileName, checks, onConfirm, onChooseAnother }: VideoChecklistProps) => {
+  const allPassed = checks !== null && checks.every(check => check.passed);
+
+  return (
+    <div className="bg-gray-50 border border-gray-200 rounded-2xl p-5 space-y-4">
+      <div>
+        <h4 className="text-sm font-semibold text-gray-700">Before you upload</h4>
+        <p className="text-xs text-gray-500 truncate">{fileName}</p>
+      </div>
+
+      {checks === null ? (
+        <p className="text-sm text-gray-500 animate-pulse">Checking your video...</p>
+      ) : (
+        <ul className="space-y-2">
+          {checks.map(check => (
+            <li key={check.id} className="flex items-start gap-3 bg-white rounded-lg p-3">
+              <div
+                className={`w-5 h-5 rounded-full flex items-center justify-center flex-shrink-0 mt-0.5 ${
+                  check.passed ? 'bg-green-500' : 'bg-red-500'
+                }`}
+              >
+                {check.passed
+                  ? <CheckIcon className="w-3 h-3 text-white" />
+                  : <CloseIcon className="w-3 h-3 text-white" />}
+              </div>
+              <div>
+                <p className={`text-sm font-medium ${check.passed ? 'text-gray-700' : 'text-red-700'}`}>{check.label}</p>
+                <p className={`text-xs ${check.passed ? 'text-gray-500' : 'text-red-600'}`}>{check.detail}</p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {checks !== null && !allPassed && (
+        <p className="text-xs text-red-600">This clip doesn't meet the campaign's video requirements. Please choose another file.</p>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={onChooseAnother}
+          className="flex-1 py-2.5 bg-white border border-gray-200 text-gray-700 rounded-xl text-sm font-semibold hover:bg-gray-100 transition-colors"
+        >
+          Choose Another
+        </button>
+        <button
+          onClick={onConfirm}
+          disabled={!allPassed}
+          style={allPassed ? { backgroundColor: '#E31837' } : undefined}
+          className="flex-1 py-2.5 text-white rounded-xl text-sm font-semibold shadow-lg transition-all disabled:bg-gray-300 disabled:shadow-none disabled:cursor-not-allowed"
+        >
+          Upload Video
+        </button>
+      </div>
+    </div>
+  );
+};
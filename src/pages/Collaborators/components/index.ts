@@ -8,12 +8,20 @@ export * from './StatsCard';
 export * from './LineChart';
 export * from './TabSwitcher';
 export * from './ProcessingSteps';
+export * from './StatusTimeline';
+export * from './VideoChecklist';
+export * from './BudgetBar';
 
 // Charts
 export * from './PieChart';
 export * from './AreaChart';
 export * from './MiniChart';
 
+// Earnings
+export * from './EarningsPanel';
+export * from './PayoutsPanel';
+export * from './EarningsEstimator';
+
 // Cards
 export * from './CampaignCard';
 export * from './EnrollmentCard';
@@ -22,6 +30,10 @@ export * from './EnrollmentCard';
 export * from './CampaignDetailModal';
 export * from './EnrollmentDetailModal';
 export * from './CollaboratorProfileModal';
+export * from './ProfileEditorModal';
+
+// Review
+export * from './ReviewPanel';
 
 // Tab Content
 export * from './AnnouncementsTab';
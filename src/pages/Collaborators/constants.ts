@@ -1,24 +1,55 @@
 import type { 
+  AchievementConfig,
+  AchievementId,
   Campaign, 
+  CampaignPhase,
   CollaboratorProfile, 
+  LeaderboardWindow,
   MerchantLeaderboardEntry, 
   TierConfig,
   StatusConfig,
   Tier,
-  EnrollmentStatus
+  EnrollmentStatus,
+  RejectionReasonTemplate,
+  LedgerEntryState,
+  PayoutStatus,
+  ProfileStep,
+  ReferralPlatform,
+  ReferralPlatformConfig
 } from './types';
 
 // ==================== TIER SYSTEM ====================
 export const tierConfig: Record<Tier, TierConfig> = {
-  rookie: { label: 'Rookie', threshold: 0, color: 'text-gray-600', bgColor: 'bg-gray-100', icon: '🌱', gradient: 'from-gray-400 to-gray-600' },
-  bronze: { label: 'Bronze', threshold: 3, color: 'text-amber-700', bgColor: 'bg-amber-100', icon: '🥉', gradient: 'from-amber-400 to-amber-600' },
-  silver: { label: 'Silver', threshold: 10, color: 'text-slate-600', bgColor: 'bg-slate-200', icon: '🥈', gradient: 'from-slate-400 to-slate-600' },
-  gold: { label: 'Gold', threshold: 25, color: 'text-yellow-600', bgColor: 'bg-yellow-100', icon: '🥇', gradient: 'from-yellow-400 to-yellow-600' },
-  platinum: { label: 'Platinum', threshold: 50, color: 'text-purple-600', bgColor: 'bg-purple-100', icon: '💎', gradient: 'from-purple-400 to-purple-600' },
+  rookie: {
+    label: 'Rookie', threshold: 0, color: 'text-gray-600', bgColor: 'bg-gray-100', icon: '🌱', gradient: 'from-gray-400 to-gray-600',
+    benefits: { rewardBoostPercent: 0, earlyAccessHours: 0, maxActiveEnrollments: 3 },
+  },
+  bronze: {
+    label: 'Bronze', threshold: 3, color: 'text-amber-700', bgColor: 'bg-amber-100', icon: '🥉', gradient: 'from-amber-400 to-amber-600',
+    benefits: { rewardBoostPercent: 5, earlyAccessHours: 0, maxActiveEnrollments: 4 },
+  },
+  silver: {
+    label: 'Silver', threshold: 10, color: 'text-slate-600', bgColor: 'bg-slate-200', icon: '🥈', gradient: 'from-slate-400 to-slate-600',
+    benefits: { rewardBoostPercent: 10, earlyAccessHours: 24, maxActiveEnrollments: 5 },
+  },
+  gold: {
+    label: 'Gold', threshold: 25, color: 'text-yellow-600', bgColor: 'bg-yellow-100', icon: '🥇', gradient: 'from-yellow-400 to-yellow-600',
+    benefits: { rewardBoostPercent: 15, earlyAccessHours: 48, maxActiveEnrollments: 6 },
+  },
+  platinum: {
+    label: 'Platinum', threshold: 50, color: 'text-purple-600', bgColor: 'bg-purple-100', icon: '💎', gradient: 'from-purple-400 to-purple-600',
+    benefits: { rewardBoostPercent: 25, earlyAccessHours: 96, maxActiveEnrollments: 8 },
+  },
 };
 
 export const tierOrder: Tier[] = ['rookie', 'bronze', 'silver', 'gold', 'platinum'];
 
+// ==================== SEASONS ====================
+// Tier thresholds count approvals from this many days back. Promotions apply at once;
+// a tier can only drop at the end of a season, after a grace period to win it back.
+export const TIER_ACTIVITY_DAYS = 180;
+export const TIER_GRACE_DAYS = 14;
+
 // ==================== STATUS CONFIG ====================
 export const statusConfig: Record<EnrollmentStatus, StatusConfig> = {
   enrolled: { label: 'Pending Upload', color: 'text-yellow-700', bgColor: 'bg-yellow-100', bg: 'bg-yellow-100', text: 'text-yellow-700' },
@@ -27,9 +58,89 @@ export const statusConfig: Record<EnrollmentStatus, StatusConfig> = {
   'under-review': { label: 'Under Review', color: 'text-purple-700', bgColor: 'bg-purple-100', bg: 'bg-purple-100', text: 'text-purple-700' },
   approved: { label: 'Approved', color: 'text-green-700', bgColor: 'bg-green-100', bg: 'bg-green-100', text: 'text-green-700' },
   rejected: { label: 'Rejected', color: 'text-red-700', bgColor: 'bg-red-100', bg: 'bg-red-100', text: 'text-red-700' },
+  'campaign-ended': { label: 'Campaign Ended', color: 'text-gray-600', bgColor: 'bg-gray-100', bg: 'bg-gray-100', text: 'text-gray-600' },
+};
+
+// ==================== REVIEW ====================
+// Submissions per enrollment (first attempt plus resubmissions) unless the campaign sets maxAttempts
+export const DEFAULT_MAX_ATTEMPTS = 3;
+
+// Reasons offered in the reviewer console; the first one is also used by Demo Mode
+export const rejectionReasonTemplates: RejectionReasonTemplate[] = [
+  { id: 'discount-code', label: 'Discount code missing', reason: 'Video did not meet the campaign guidelines. Please ensure you mention the discount code clearly.' },
+  { id: 'product-visibility', label: 'Product not shown', reason: 'The product is not clearly visible in the video. Please show it on screen for a few seconds.' },
+  { id: 'requirements', label: 'Requirements not covered', reason: 'The video does not cover all of the campaign requirements. Please review the checklist and try again.' },
+  { id: 'quality', label: 'Low video quality', reason: 'The video quality is too low (blurry, dark or hard to hear). Please record again in good lighting.' },
+  { id: 'brand-safety', label: 'Brand safety', reason: 'The video contains content that does not fit the brand guidelines.' },
+];
+
+// ==================== EARNINGS ====================
+// Days an earning stays pending, so cancelled or refunded orders can still be reversed
+export const EARNINGS_HOLD_DAYS = 14;
+
+export const ledgerStateConfig: Record<LedgerEntryState, { label: string; className: string }> = {
+  pending: { label: 'Pending', className: 'bg-yellow-100 text-yellow-700' },
+  cleared: { label: 'Cleared', className: 'bg-blue-100 text-blue-700' },
+  paid: { label: 'Paid', className: 'bg-green-100 text-green-700' },
+  reversed: { label: 'Reversed', className: 'bg-gray-100 text-gray-500' },
+};
+
+// ==================== PAYOUTS ====================
+// Smallest withdrawal, in QAR
+export const MIN_PAYOUT_AMOUNT = 50;
+
+export const walletProviders = ['Ooredoo Money', 'Vodafone Cash', 'QPay'];
+
+export const payoutStatusConfig: Record<PayoutStatus, { label: string; className: string }> = {
+  requested: { label: 'Requested', className: 'bg-yellow-100 text-yellow-700' },
+  processing: { label: 'Processing', className: 'bg-blue-100 text-blue-700' },
+  paid: { label: 'Paid', className: 'bg-green-100 text-green-700' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-700' },
+};
+
+// ==================== REFERRALS ====================
+export const referralPlatforms: Record<ReferralPlatform, ReferralPlatformConfig> = {
+  tiktok: { label: 'TikTok', color: '#111827' },
+  instagram: { label: 'Instagram', color: '#E1306C' },
+  snapchat: { label: 'Snapchat', color: '#FFB800' },
+};
+
+// utm_medium on every platform variant, so Snoonu's own analytics can tell creator traffic apart
+export const REFERRAL_UTM_MEDIUM = 'creator_video';
+
+// ==================== CAMPAIGN LIFECYCLE ====================
+// Live campaigns within this many days of their end date are badged as ending soon
+export const ENDING_SOON_DAYS = 3;
+
+export const campaignPhaseConfig: Record<CampaignPhase, { label: string; className: string }> = {
+  upcoming: { label: 'Starts soon', className: 'bg-blue-500 text-white' },
+  live: { label: 'Live', className: 'bg-green-500 text-white' },
+  'ending-soon': { label: 'Ending soon', className: 'bg-amber-500 text-white' },
+  ended: { label: 'Ended', className: 'bg-gray-800/90 text-white' },
 };
 
+// ==================== CAMPAIGN BUDGET ====================
+// Share of the referral budget left below which campaign cards warn creators
+export const BUDGET_LOW_RATIO = 0.1;
+
 // ==================== MOCK CAMPAIGNS ====================
+// Mock schedules are offsets in days from today, so the demo always has
+// upcoming, live, ending-soon and ended campaigns
+const mockSchedule = (startDay: number, endDay: number): Pick<Campaign, 'timeline' | 'startsAt' | 'endsAt'> => {
+  const startsAt = new Date();
+  startsAt.setDate(startsAt.getDate() + startDay);
+  startsAt.setHours(0, 0, 0, 0);
+  const endsAt = new Date();
+  endsAt.setDate(endsAt.getDate() + endDay);
+  endsAt.setHours(23, 59, 59, 999);
+
+  return {
+    timeline: `Campaign runs until ${endsAt.toLocaleDateString('en-US', { month: 'short', day: '2-digit', year: 'numeric' })}`,
+    startsAt: startsAt.toISOString(),
+    endsAt: endsAt.toISOString(),
+  };
+};
+
 export const campaigns: Campaign[] = [
   {
     id: "camp-1",
@@ -50,7 +161,7 @@ export const campaigns: Campaign[] = [
       "No competitor mentions"
     ],
     budget: "600 referrals available",
-    timeline: "Campaign runs until Mar 10, 2026",
+    ...mockSchedule(-20, 40),
     reviewNotes: "Keep it cozy and quick—hook in the first 2 seconds performs best.",
     productImage: "https://images.snoonu.com/image_product/2022-09/VHuOXJm9L6.png?format=webp",
     productName: "Spanish Wrap"
@@ -74,7 +185,8 @@ export const campaigns: Campaign[] = [
       "Family-friendly content only"
     ],
     budget: "250 referrals available",
-    timeline: "Campaign runs until Apr 05, 2026",
+    ...mockSchedule(-10, 60),
+    minTier: "silver",
     reviewNotes: "Before/after or quick wear-test style content usually gets approved fastest.",
     productImage: "https://images.snoonu.com/product/2024-8/475e2562-4602-4870-bedb-9adcf89b0029_21CCOOLIVORY.jpg",
     productName: "Tirtir Mask Fit Red Cushion - Natural Beige 29N"
@@ -98,7 +210,7 @@ export const campaigns: Campaign[] = [
       "No competitor mentions"
     ],
     budget: "1200 referrals available",
-    timeline: "Campaign runs until Feb 20, 2026",
+    ...mockSchedule(-30, 2),
     reviewNotes: "Unboxing + first bite reaction tends to perform best.",
     productImage: "https://images.snoonu.com/brand_product/2025-09/e06e089c-196e-4208-9496-8fa8b40174fd_output.png?format=webp",
     productName: "Snoonu Bundle"
@@ -122,7 +234,7 @@ export const campaigns: Campaign[] = [
       "Family-friendly content only"
     ],
     budget: "500 referrals available",
-    timeline: "Campaign runs until Mar 01, 2026",
+    ...mockSchedule(-5, 45),
     reviewNotes: "Short karak-pour clips + cozy vibes usually get strong engagement.",
     productImage: "https://images.snoonu.com/menu_item/2024-8/e278955f-07d1-4d40-a5dd-7b82d9e32109_del34.jpg?format=webp",
     productName: "Signature Karak"
@@ -146,7 +258,7 @@ export const campaigns: Campaign[] = [
       "Clear, steady shots preferred"
     ],
     budget: "220 referrals available",
-    timeline: "Campaign runs until Apr 12, 2026",
+    ...mockSchedule(4, 50),
     reviewNotes: "Quick 'before/after' (plain phone → new case) works well.",
     productImage: "https://images.snoonu.com/brand_product/2025-08/37a30f14-2e47-4a36-a37e-eb77d66a3cc2_output.png?format=webp",
     productName: "iPhone 16 Pro Black Case"
@@ -170,7 +282,8 @@ export const campaigns: Campaign[] = [
       "No competitor mentions"
     ],
     budget: "140 referrals available",
-    timeline: "Campaign runs until Mar 25, 2026",
+    ...mockSchedule(-15, 30),
+    minTier: "bronze",
     reviewNotes: "If your cat interacts with it on camera, approval is usually quick.",
     productImage: "https://images.snoonu.com/product/2025-10/4fb0fc3d-d60f-4471-abc4-e3fb2a4edae4_download13.png?format=webp",
     productName: "Whisker Fiesta Cactus Cat Tree"
@@ -194,7 +307,7 @@ export const campaigns: Campaign[] = [
       "No gambling framing (keep it collectible-focused)"
     ],
     budget: "160 referrals available",
-    timeline: "Campaign runs until May 01, 2026",
+    ...mockSchedule(-25, 35),
     reviewNotes: "Top-down unboxing shots with clear audio work best.",
     productImage: "https://images.snoonu.com/brand_product/2025-12/addcde0c-4d18-40d3-87b6-55c36875d8d5_output.png?format=webp",
     productName: "2024 Leaf Soccer Blaster Box"
@@ -218,7 +331,7 @@ export const campaigns: Campaign[] = [
       "Clean lighting (outdoor golden hour is great)"
     ],
     budget: "90 referrals available",
-    timeline: "Campaign runs until Mar 18, 2026",
+    ...mockSchedule(-40, -2),
     reviewNotes: "Lifestyle 'fit check' style performs better than a pure product shot.",
     productImage: "https://images.snoonu.com/images/7e12ad52-3922-49c5-874b-5f06d1e2b2bd_4089.jpg",
     productName: "Rayban Sg 3584N Sunglasses"
@@ -242,7 +355,7 @@ export const campaigns: Campaign[] = [
       "Avoid shaky footage (use stable shots)"
     ],
     budget: "180 referrals available",
-    timeline: "Campaign runs until Apr 22, 2026",
+    ...mockSchedule(-12, 25),
     reviewNotes: "Night ambiance videos tend to get higher saves/shares.",
     productImage: "https://images.snoonu.com/product/2025-8/b9343cdf-8a28-4463-968b-9bc5fd89f7ae_3DCrystalBallNightLightFerrisWheel.jpg?format=webp",
     productName: "3D Crystal Ball Night Light"
@@ -266,7 +379,7 @@ export const campaigns: Campaign[] = [
       "No unsafe lifting demonstrations"
     ],
     budget: "120 referrals available",
-    timeline: "Campaign runs until Mar 30, 2026",
+    ...mockSchedule(-18, 1),
     reviewNotes: "Quick 'home gym' routine demos work best (2–3 moves).",
     productImage: "https://images.snoonu.com/brand_product/2024-11/fab1a664-8508-4aef-a494-39ab323def75_output.png",
     productName: "Adjustable Dumbbell Bench"
@@ -290,7 +403,7 @@ export const campaigns: Campaign[] = [
       "Aesthetic lighting preferred"
     ],
     budget: "300 referrals available",
-    timeline: "Campaign runs until Feb 29, 2026",
+    ...mockSchedule(-8, 20),
     reviewNotes: "Unwrap + reaction + final beauty shot (3-step) is the winning format.",
     productImage: "https://images.snoonu.com/images/9360b3b5-320e-4ac0-92e9-6f4ecdf692b6_FlowerBouquet7738.jpg?format=webp",
     productName: "Flower Bouquet"
@@ -300,14 +413,15 @@ export const campaigns: Campaign[] = [
 // ==================== XP SYSTEM ====================
 // XP is earned through activity and engagement, not tied to monetary values
 // Base XP per approval: 100 XP
-// Quality bonus: up to 50 XP
-// Engagement bonus: up to 100 XP (based on clicks/conversions)
+// Quality bonus: up to 50 XP (full on the first attempt, shrinking with each resubmission)
+// Engagement bonus: up to 100 XP per approval, 10 XP per conversion
 // Tier bonus multiplier: Rookie 1x, Bronze 1.1x, Silver 1.25x, Gold 1.5x, Platinum 2x
 
 export const XP_CONFIG = {
   baseApprovalXP: 100,
   qualityBonus: 50,
   maxEngagementBonus: 100,
+  conversionXP: 10,
   tierMultipliers: {
     rookie: 1,
     bronze: 1.1,
@@ -317,6 +431,59 @@ export const XP_CONFIG = {
   },
 };
 
+// ==================== LEADERBOARD ====================
+export const LEADERBOARD_SIZE = 10;
+
+// Weekly rankings start on Sunday, the first working day in Qatar
+export const leaderboardWindowConfig: Record<LeaderboardWindow, { label: string; description: string }> = {
+  weekly: { label: 'Weekly', description: 'XP earned since Sunday' },
+  monthly: { label: 'Monthly', description: 'XP earned this month' },
+  season: { label: 'Season', description: 'XP earned this quarter; rankings reset each season' },
+  allTime: { label: 'All Time', description: 'Content creators with highest XP' },
+  custom: { label: 'Custom', description: 'XP earned between the selected dates' },
+};
+
+// ==================== ACHIEVEMENTS ====================
+// Listed in badge shelf order
+export const achievementConfig: Record<AchievementId, AchievementConfig> = {
+  'first-approval': { label: 'First Approval', description: 'Get your first video approved', icon: '🎬', target: 1 },
+  'conversion-rush': { label: 'Rush Hour', description: 'Drive 10 orders in a single day', icon: '⚡', target: 10 },
+  'category-explorer': { label: 'Explorer', description: 'Get approved in 5 different categories', icon: '🧭', target: 5 },
+  'weekly-streak': { label: 'On a Roll', description: 'Get an approval every week for 4 weeks in a row', icon: '🔥', target: 4 },
+};
+
+// ==================== CREATOR PROFILE ====================
+export const profileStepConfig: Record<ProfileStep, { label: string; description: string }> = {
+  identity: { label: 'Profile', description: 'How you appear on the leaderboard and your public page' },
+  socials: { label: 'Socials', description: 'Where you post, and how many people follow you there' },
+  interests: { label: 'Interests', description: 'What you make content about, and where you get paid' },
+};
+
+export const MAX_PROFILE_CATEGORIES = 3;
+
+export const contentCategories = [
+  'Food & Drinks',
+  'Groceries',
+  'Beauty & Skincare',
+  'Fashion',
+  'Home & Living',
+  'Fitness & Wellness',
+  'Family & Kids',
+  'Pets',
+  'Tech & Gadgets',
+  'Lifestyle',
+];
+
+// Payout methods are only validated for Qatar so far; it comes first as the default
+export const payoutCountries: { code: string; label: string }[] = [
+  { code: 'QA', label: 'Qatar' },
+  { code: 'AE', label: 'United Arab Emirates' },
+  { code: 'SA', label: 'Saudi Arabia' },
+  { code: 'KW', label: 'Kuwait' },
+  { code: 'BH', label: 'Bahrain' },
+  { code: 'OM', label: 'Oman' },
+];
+
 // ==================== MOCK LEADERBOARD DATA ====================
 export const mockCollaborators: CollaboratorProfile[] = [
   {
@@ -332,6 +499,8 @@ export const mockCollaborators: CollaboratorProfile[] = [
       { merchant: 'Karak Mqanes', logo: 'https://images.deliveryhero.io/image/talabat/restaurants/logo_94637864896607282057.jpg?width=180', xp: 2800 },
     ],
     joinedDate: 'Oct 2025',
+    bio: 'Doha food explorer. Burgers, karak and everything in between.',
+    socials: [{ platform: 'tiktok', handle: 'yusuf_fares' }, { platform: 'instagram', handle: 'yusuf.fares' }],
   },
   {
     id: 'collab-2',
@@ -345,6 +514,8 @@ export const mockCollaborators: CollaboratorProfile[] = [
       { merchant: 'McDonalds', logo: 'https://www.mcdonalds.com/content/dam/sites/ArabiaGWS/arabic/nfl/logo/McDonalds_Logo.png', xp: 1980 },
     ],
     joinedDate: 'Nov 2025',
+    bio: 'Skincare routines and honest fast food reviews.',
+    socials: [{ platform: 'tiktok', handle: 'david_bratu' }, { platform: 'instagram', handle: 'davidbratu' }],
   },
   {
     id: 'collab-3',
@@ -357,6 +528,8 @@ export const mockCollaborators: CollaboratorProfile[] = [
       { merchant: 'Toysimo', logo: 'https://images.snoonu.com/brand/header_image/2024-03/010ca983-af9b-4449-9ef0-d35c66da220b_FavoritebrandToysimo.png?format=webp', xp: 2150 },
     ],
     joinedDate: 'Dec 2025',
+    bio: 'Toy unboxings for big kids.',
+    socials: [{ platform: 'tiktok', handle: 'ali_baba' }, { platform: 'snapchat', handle: 'alibaba.qa' }],
   },
   {
     id: 'collab-4',
@@ -370,6 +543,8 @@ export const mockCollaborators: CollaboratorProfile[] = [
       { merchant: 'Cat Planet', logo: 'https://images.snoonu.com/brand/header_image/2024-04/8908d507-e801-4afe-b267-80b8fcd2f5b3_Popularbrand7.png?format=webp', xp: 1420 },
     ],
     joinedDate: 'Nov 2025',
+    bio: 'Tea lover and proud cat parent.',
+    socials: [{ platform: 'instagram', handle: 'yusuf_frumosul' }],
   },
   {
     id: 'collab-5',
@@ -382,6 +557,8 @@ export const mockCollaborators: CollaboratorProfile[] = [
       { merchant: 'Karak Mqanes', logo: 'https://images.deliveryhero.io/image/talabat/restaurants/logo_94637864896607282057.jpg?width=180', xp: 920 },
     ],
     joinedDate: 'Jan 2026',
+    bio: 'New to creating. Karak reviews every morning.',
+    socials: [{ platform: 'tiktok', handle: 'andrei_popescu' }],
   },
 ];
 
@@ -0,0 +1,160 @@
+import type { Campaign, ConversionRecord, Enrollment, ReferralClick } from './types';
+import { formatConversionDate } from './utils';
+import { calculateEarning, getRewardTerms } from './rewardModel';
+import { getTierBenefits, getTiersAtApproval } from './tierBenefits';
+import { applyReferralBudget, getBudgetTotal } from './campaignBudget';
+import { getCampaignSchedule } from './campaignLifecycle';
+import { createSeededRandom, hashString } from './seededRandom';
+
+/**
+ * Local conversion and referral click data for approved enrollments when Supabase has none.
+ *
+ * Each enrollment gets its own seeded random generator, so the same
+ * enrollment always produces the same orders, amounts and timestamps.
+ * Rewards come from the campaign's terms via the earnings calculator.
+ * Timestamps are offsets from the approval time; orders that would fall
+ * in the future are left out until their time comes, and none are placed
+ * after the campaign ends. Other creators are assumed to have used part of
+ * each campaign's referral budget already, so some campaigns run low or out.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+const REVERSAL_RATE = 0.08;
+const REVERSAL_REASONS = [
+  'Order cancelled by customer',
+  'Order cancelled by merchant',
+  'Refunded: items missing',
+  'Refunded: late delivery',
+];
+
+const CLICK_SOURCES = ['tiktok', 'instagram', 'snapchat', 'direct'];
+const USER_AGENTS = [
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Mobile/15E148',
+  'Mozilla/5.0 (Linux; Android 14; SM-S918B) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0 Mobile Safari/537.36',
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0 Safari/537.36',
+];
+
+// Referrals other creators have used, between 30% and all of the budget
+export const generateBudgetUsedByOthers = (campaign: Campaign): number => {
+  const total = getBudgetTotal(campaign);
+  if (total === null) return 0;
+  const random = createSeededRandom(hashString(`${campaign.id}:budget`));
+  return Math.min(total, Math.round(total * (0.3 + random() * 0.75)));
+};
+
+const getApprovedAt = (enrollment: Enrollment): Date =>
+  enrollment.history.find(change => change.to === 'approved')?.at ?? enrollment.enrolledAt;
+
+export const generateEnrollmentConversions = (
+  enrollment: Enrollment,
+  now = new Date(),
+  rewardBoostPercent = 0,
+): ConversionRecord[] => {
+  if (enrollment.status !== 'approved') return [];
+
+  const seed = hashString(enrollment.id);
+  const random = createSeededRandom(seed);
+  const approvedAt = getApprovedAt(enrollment).getTime();
+
+  const orderCount = 10 + Math.floor(random() * 40);
+  const terms = getRewardTerms(enrollment.campaign);
+  // Baskets start at the campaign minimum and run up to 2.5x it
+  const smallestBasket = Math.max(terms.minOrder, 40);
+  const orderPrefix = 1000 + (seed % 9000);
+  const { endsAt } = getCampaignSchedule(enrollment.campaign);
+
+  const conversions: ConversionRecord[] = [];
+  for (let i = 0; i < orderCount; i++) {
+    // Most orders arrive soon after the video goes live, then taper off over a month
+    const spread = random();
+    const daysAfterApproval = spread < 0.4
+      ? random()
+      : spread < 0.7
+        ? 1 + random() * 6
+        : 7 + random() * 23;
+    const orderValue = Math.round(smallestBasket * (1 + random() * 1.5) * 100) / 100;
+    const clicks = 3 + Math.floor(random() * 10);
+    const source = CLICK_SOURCES[Math.floor(random() * CLICK_SOURCES.length)];
+    // A few orders are cancelled or refunded within days of being placed
+    const reversalDays = random() < REVERSAL_RATE ? 0.1 + random() * 5 : null;
+    const reversalReason = REVERSAL_REASONS[Math.floor(random() * REVERSAL_REASONS.length)];
+
+    const timestamp = new Date(approvedAt + daysAfterApproval * DAY_MS);
+    if (timestamp > now || (endsAt && timestamp > endsAt)) continue;
+    const reversedAt = reversalDays === null ? null : new Date(timestamp.getTime() + reversalDays * DAY_MS);
+
+    conversions.push({
+      enrollmentId: enrollment.id,
+      merchant: enrollment.campaign.merchant,
+      amount: calculateEarning(terms, orderValue, rewardBoostPercent).earning,
+      orderValue,
+      date: formatConversionDate(timestamp, now),
+      orderId: `ORD-${orderPrefix}-${String(i + 1).padStart(3, '0')}`,
+      timestamp,
+      clicks,
+      source,
+      reversal: reversedAt && reversedAt <= now ? { at: reversedAt, reason: reversalReason } : undefined,
+    });
+  }
+
+  const total = getBudgetTotal(enrollment.campaign);
+  return total === null
+    ? conversions
+    : applyReferralBudget(conversions, total - generateBudgetUsedByOthers(enrollment.campaign));
+};
+
+// Click events behind an enrollment's orders: each order's clicks land in the
+// hours before it, plus visitors who never ordered, spread like the orders are
+export const generateEnrollmentClicks = (enrollment: Enrollment, now = new Date()): ReferralClick[] => {
+  const conversions = generateEnrollmentConversions(enrollment, now);
+  if (conversions.length === 0) return [];
+
+  const random = createSeededRandom(hashString(`${enrollment.id}:clicks`));
+  const approvedAt = getApprovedAt(enrollment).getTime();
+  const pick = <T>(values: T[]): T => values[Math.floor(random() * values.length)];
+
+  const clicks: ReferralClick[] = [];
+  const addClick = (time: number, source: string) => {
+    if (time > now.getTime()) return;
+    clicks.push({
+      id: `${enrollment.id}-click-${clicks.length + 1}`,
+      code: enrollment.referralCode ?? '',
+      enrollmentId: enrollment.id,
+      clickedAt: new Date(Math.max(time, approvedAt)),
+      source,
+      userAgent: pick(USER_AGENTS),
+    });
+  };
+
+  // An order's clicks all come from the platform it was attributed to
+  conversions.forEach(order => {
+    for (let i = 0; i < order.clicks; i++) {
+      addClick(order.timestamp.getTime() - random() * 6 * HOUR_MS, order.source);
+    }
+  });
+
+  const browsingClicks = conversions.length * (2 + Math.floor(random() * 4));
+  for (let i = 0; i < browsingClicks; i++) {
+    const daysAfterApproval = random() < 0.5 ? random() * 2 : 2 + random() * 28;
+    addClick(approvedAt + daysAfterApproval * DAY_MS, pick(CLICK_SOURCES));
+  }
+
+  return clicks;
+};
+
+export const generateClicks = (enrollments: Enrollment[], now = new Date()): ReferralClick[] =>
+  enrollments
+    .flatMap(enrollment => generateEnrollmentClicks(enrollment, now))
+    .sort((a, b) => b.clickedAt.getTime() - a.clickedAt.getTime());
+
+export const generateConversions = (enrollments: Enrollment[], now = new Date()): ConversionRecord[] => {
+  const tiersAtApproval = getTiersAtApproval(enrollments);
+  return enrollments
+    .flatMap(enrollment => {
+      const tier = tiersAtApproval.get(enrollment.id);
+      return generateEnrollmentConversions(enrollment, now, tier ? getTierBenefits(tier).rewardBoostPercent : 0);
+    })
+    .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+};
@@ -0,0 +1,103 @@
+import type { CollaboratorProfile, ProfileDraft, ProfileStep, ReferralPlatform, SocialAccount } from './types';
+import { MAX_PROFILE_CATEGORIES, contentCategories, payoutCountries, referralPlatforms } from './constants';
+import { normalizeHandle } from './publicProfile';
+
+/**
+ * The current creator's own profile: the draft the onboarding flow and the
+ * profile editor fill in, how each step is validated, and how a saved draft
+ * becomes the CollaboratorProfile shown on the leaderboard.
+ */
+
+export const profileSteps: ProfileStep[] = ['identity', 'socials', 'interests'];
+
+const HANDLE_PATTERN = /^[a-z0-9._]{3,24}$/;
+const SOCIAL_HANDLE_PATTERN = /^[A-Za-z0-9._]{1,30}$/;
+const MAX_BIO_LENGTH = 160;
+
+// ==================== DRAFTS ====================
+// One account per platform, blank where the creator is not on it
+export const toProfileDraft = (profile: CollaboratorProfile | null): ProfileDraft => ({
+  handle: profile ? normalizeHandle(profile.handle) : '',
+  avatar: profile?.avatar ?? '',
+  bio: profile?.bio ?? '',
+  socials: (Object.keys(referralPlatforms) as ReferralPlatform[]).map(platform =>
+    profile?.socials?.find(s => s.platform === platform) ?? { platform, handle: '' }
+  ),
+  categories: profile?.categories ?? [],
+  payoutCountry: profile?.payoutCountry ?? payoutCountries[0].code,
+});
+
+const getListedSocials = (draft: ProfileDraft): SocialAccount[] =>
+  draft.socials
+    .map(account => ({ ...account, handle: account.handle.trim().replace(/^@/, '') }))
+    .filter(account => account.handle !== '');
+
+// ==================== VALIDATION ====================
+// Problem with one step of the draft, or null if it can move on.
+// `takenHandles` are other collaborators' handles, with or without the @.
+export const validateProfileStep = (step: ProfileStep, draft: ProfileDraft, takenHandles: string[]): string | null => {
+  switch (step) {
+    case 'identity': {
+      const handle = normalizeHandle(draft.handle.trim());
+      if (!HANDLE_PATTERN.test(handle)) return 'Handles are 3-24 letters, numbers, dots or underscores';
+      if (takenHandles.some(taken => normalizeHandle(taken) === handle)) return `@${handle} is already taken`;
+      if (draft.bio.length > MAX_BIO_LENGTH) return `Keep your bio under ${MAX_BIO_LENGTH} characters`;
+      return null;
+    }
+    case 'socials': {
+      const listed = getListedSocials(draft);
+      if (listed.length === 0) return 'Add at least one account you post from';
+      const invalid = listed.find(account => !SOCIAL_HANDLE_PATTERN.test(account.handle));
+      if (invalid) return `Enter a valid ${referralPlatforms[invalid.platform].label} handle`;
+      const uncounted = listed.find(account =>
+        account.followers === undefined || !Number.isInteger(account.followers) || account.followers < 0
+      );
+      if (uncounted) return `Enter your follower count on ${referralPlatforms[uncounted.platform].label}`;
+      return null;
+    }
+    case 'interests': {
+      if (draft.categories.length === 0) return 'Pick at least one content category';
+      if (draft.categories.length > MAX_PROFILE_CATEGORIES) return `Pick up to ${MAX_PROFILE_CATEGORIES} categories`;
+      if (draft.categories.some(category => !contentCategories.includes(category))) return 'Pick categories from the list';
+      if (!payoutCountries.some(country => country.code === draft.payoutCountry)) return 'Choose your payout country';
+      return null;
+    }
+  }
+};
+
+// The first step with a problem, or null if the whole draft can be saved
+export const validateProfileDraft = (
+  draft: ProfileDraft,
+  takenHandles: string[],
+): { step: ProfileStep; problem: string } | null => {
+  for (const step of profileSteps) {
+    const problem = validateProfileStep(step, draft, takenHandles);
+    if (problem) return { step, problem };
+  }
+  return null;
+};
+
+// ==================== SAVING ====================
+// The draft over the saved profile, or over a new one joining today.
+// XP, tier and approvals are left for the creator's log to fill in.
+export const applyProfileDraft = (
+  id: string,
+  profile: CollaboratorProfile | null,
+  draft: ProfileDraft,
+  now = new Date(),
+): CollaboratorProfile => ({
+  ...(profile ?? {
+    id,
+    tier: 'rookie',
+    approvedCount: 0,
+    totalXP: 0,
+    topCampaigns: [],
+    joinedDate: now.toLocaleDateString('en-US', { month: 'short', year: 'numeric' }),
+  }),
+  handle: `@${normalizeHandle(draft.handle.trim())}`,
+  avatar: draft.avatar,
+  bio: draft.bio.trim() || undefined,
+  socials: getListedSocials(draft),
+  categories: draft.categories,
+  payoutCountry: draft.payoutCountry,
+});
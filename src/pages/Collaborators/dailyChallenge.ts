@@ -0,0 +1,84 @@
+import type { Campaign, DailyChallenge, DailyWinner, Enrollment, PostingStreak, XPEvent } from './types';
+import { isAcceptingEnrollments } from './campaignLifecycle';
+import { createSeededRandom, hashString } from './seededRandom';
+import { getApprovalTimes } from './xpEngine';
+import { rankCollaborators, startOfDay, toDateInputValue } from './leaderboardRanking';
+import type { RankingEntry } from './leaderboardRanking';
+
+/**
+ * Daily challenge and posting streaks. Each day features one open campaign,
+ * picked from the date so every creator sees the same one, and whoever earns
+ * the most XP on it that day is the winner.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days since the epoch in local time; rounding absorbs DST shifts
+const toDayNumber = (date: Date): number => Math.round(startOfDay(date).getTime() / DAY_MS);
+
+// ==================== DAILY CHALLENGE ====================
+export const getFeaturedCampaign = (campaigns: Campaign[], day = new Date()): Campaign | null => {
+  const open = campaigns.filter(c => isAcceptingEnrollments(c, day));
+  if (open.length === 0) return null;
+  const random = createSeededRandom(hashString(`featured:${toDateInputValue(day)}`));
+  return open[Math.floor(random() * open.length)];
+};
+
+export const getDailyWinner = (entries: RankingEntry[], campaign: Campaign, day = new Date()): DailyWinner | null => {
+  const from = startOfDay(day);
+  const onCampaign = entries.map(entry => ({
+    ...entry,
+    events: entry.events.filter(e => e.merchant === campaign.merchant),
+  }));
+  const [top] = rankCollaborators(onCampaign, { from, to: new Date(from.getTime() + DAY_MS) });
+  const collaborator = top && top.windowXP > 0 && entries.find(e => e.collaborator.id === top.id)?.collaborator;
+  if (!collaborator) return null;
+
+  return {
+    collaboratorId: collaborator.id,
+    handle: collaborator.handle,
+    collaborator,
+    campaign: campaign.id,
+    merchant: campaign.merchant,
+    xpEarned: top.windowXP,
+  };
+};
+
+export const getDailyChallenge = (campaigns: Campaign[], entries: RankingEntry[], day = new Date()): DailyChallenge => {
+  const campaign = getFeaturedCampaign(campaigns, day);
+  return {
+    day: startOfDay(day),
+    campaign,
+    winner: campaign && getDailyWinner(entries, campaign, day),
+  };
+};
+
+// ==================== POSTING STREAKS ====================
+// Every video upload, resubmissions included
+export const getPostingTimes = (enrollments: Enrollment[]): Date[] =>
+  enrollments.flatMap(e => e.history.filter(change => change.to === 'uploaded').map(change => change.at));
+
+// For collaborators whose enrollments are not loaded, approved posts stand in
+export const getPostingTimesFromXPLog = (events: XPEvent[]): Date[] => getApprovalTimes(events);
+
+export const getPostingStreak = (postedAt: Date[], now = new Date()): PostingStreak => {
+  const today = toDayNumber(now);
+  const past = postedAt.filter(at => at <= now);
+  const days = [...new Set(past.map(toDayNumber))].sort((a, b) => a - b);
+
+  let longest = 0;
+  let run = 0;
+  days.forEach((day, i) => {
+    run = i > 0 && day === days[i - 1] + 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+
+  const lastDay = days[days.length - 1];
+  return {
+    // Yesterday's post keeps the streak alive until today is over
+    current: lastDay !== undefined && lastDay >= today - 1 ? run : 0,
+    longest,
+    postedToday: lastDay === today,
+    lastPostedAt: past.length > 0 ? new Date(Math.max(...past.map(at => at.getTime()))) : null,
+  };
+};
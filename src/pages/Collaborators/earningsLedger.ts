@@ -0,0 +1,153 @@
+import type { ConversionRecord, EarningsBalance, LedgerEntry, LedgerEntryState, Payout } from './types';
+import { EARNINGS_HOLD_DAYS } from './constants';
+
+/**
+ * Earnings ledger: one entry per conversion, moving from pending to
+ * cleared when its hold period ends, then to paid once a payout covers it.
+ * A cancelled or refunded order reverses its entry, taking the reward back
+ * out of every balance: before payout it is simply not paid, and after
+ * payout it is owed back and deducted from the next withdrawal. Balances are
+ * always summed from the entries, never stored on their own.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const getClearsAt = (earnedAt: Date): Date => new Date(earnedAt.getTime() + EARNINGS_HOLD_DAYS * DAY_MS);
+
+export const createLedgerEntry = (conversion: ConversionRecord): LedgerEntry => {
+  const entry: LedgerEntry = {
+    id: `earning-${conversion.orderId}`,
+    enrollmentId: conversion.enrollmentId,
+    orderId: conversion.orderId,
+    merchant: conversion.merchant,
+    amount: conversion.amount,
+    state: 'pending',
+    earnedAt: conversion.timestamp,
+    clearsAt: getClearsAt(conversion.timestamp),
+  };
+  return conversion.reversal ? reverseLedgerEntry(entry, conversion.reversal.at, conversion.reversal.reason) : entry;
+};
+
+// Claw back an entry's reward, whatever state it reached
+export const reverseLedgerEntry = (entry: LedgerEntry, at: Date, reason: string): LedgerEntry => ({
+  ...entry,
+  state: 'reversed',
+  reversedAt: at,
+  reversalReason: reason,
+});
+
+// Pending entries whose hold period has ended are cleared; other states only change on events
+export const settleLedgerEntry = (entry: LedgerEntry, now = new Date()): LedgerEntry =>
+  entry.state === 'pending' && entry.clearsAt <= now ? { ...entry, state: 'cleared' } : entry;
+
+// Ledger for conversions that have no stored entries, newest first.
+// Orders placed after the campaign budget ran out earned nothing, so they get no entry.
+export const buildLedger = (conversions: ConversionRecord[], now = new Date()): LedgerEntry[] =>
+  conversions
+    .filter(conversion => !conversion.outOfBudget)
+    .map(conversion => settleLedgerEntry(createLedgerEntry(conversion), now))
+    .sort((a, b) => b.earnedAt.getTime() - a.earnedAt.getTime());
+
+// Mark entries claimed by a payout, and paid once the payout is. A failed
+// payout releases its entries so they can be withdrawn again.
+// An entry reversed after its payout was paid keeps the payout and paid date,
+// which makes it owed back; one reversed while the payout was in flight is
+// dropped from it. Owed entries a later payout deducted are marked recovered.
+export const applyPayouts = (entries: LedgerEntry[], payouts: Payout[]): LedgerEntry[] => {
+  const payoutByEntry = new Map<string, Payout>();
+  const recoveringPayoutByEntry = new Map<string, Payout>();
+  payouts
+    .filter(payout => payout.status !== 'failed')
+    .forEach(payout => {
+      payout.entryIds.forEach(id => payoutByEntry.set(id, payout));
+      payout.debitEntryIds?.forEach(id => recoveringPayoutByEntry.set(id, payout));
+    });
+  if (payoutByEntry.size === 0) return entries;
+
+  return entries.map(entry => {
+    const payout = payoutByEntry.get(entry.id);
+    if (!payout) return entry;
+    if (entry.state === 'reversed') {
+      const reversedAfterPayment = payout.status === 'paid' && entry.reversedAt !== undefined && entry.reversedAt >= payout.updatedAt;
+      if (!reversedAfterPayment) return entry;
+      const recoveredBy = recoveringPayoutByEntry.get(entry.id);
+      return {
+        ...entry,
+        payoutId: payout.id,
+        paidAt: payout.updatedAt,
+        recoveredByPayoutId: recoveredBy?.id,
+        recoveredAt: recoveredBy?.status === 'paid' ? recoveredBy.updatedAt : undefined,
+      };
+    }
+    if (entry.state !== 'cleared') return entry;
+    return payout.status === 'paid'
+      ? { ...entry, state: 'paid', payoutId: payout.id, paidAt: payout.updatedAt }
+      : { ...entry, payoutId: payout.id };
+  });
+};
+
+// Cleared entries no payout has claimed yet
+export const getWithdrawableEntries = (entries: LedgerEntry[]): LedgerEntry[] =>
+  entries.filter(e => e.state === 'cleared' && !e.payoutId);
+
+// Reversed after being paid out, and not yet deducted from a later payout
+export const getOwedEntries = (entries: LedgerEntry[]): LedgerEntry[] =>
+  entries.filter(e => e.state === 'reversed' && e.paidAt && !e.recoveredByPayoutId);
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+const sumAmounts = (entries: LedgerEntry[]): number => roundAmount(entries.reduce((sum, e) => sum + e.amount, 0));
+
+const inState = (entries: LedgerEntry[], state: LedgerEntryState) => entries.filter(e => e.state === state);
+
+// What a payout sends: its entries, less any reversed before it was paid,
+// and less the owed rewards it deducts
+export const getPayoutAmount = (payout: Payout, entries: LedgerEntry[]): number => {
+  const entryIds = new Set(payout.entryIds);
+  const debitIds = new Set(payout.debitEntryIds ?? []);
+  const sent = entries.filter(e => entryIds.has(e.id) && (e.state !== 'reversed' || e.paidAt));
+  return roundAmount(sumAmounts(sent) - sumAmounts(entries.filter(e => debitIds.has(e.id))));
+};
+
+// Payouts with their amounts following later reversals; failed ones keep what was requested
+export const withLedgerAmounts = (payouts: Payout[], entries: LedgerEntry[]): Payout[] =>
+  payouts.map(payout => payout.status === 'failed' ? payout : { ...payout, amount: getPayoutAmount(payout, entries) });
+
+// Owed rewards count against the payout that deducts them: `withdrawing`
+// while it is in flight, `paid` once it is paid
+export const summarizeLedger = (entries: LedgerEntry[]): EarningsBalance => {
+  const owed = sumAmounts(getOwedEntries(entries));
+  const recovering = sumAmounts(entries.filter(e => e.recoveredByPayoutId && !e.recoveredAt));
+  const recovered = sumAmounts(entries.filter(e => e.recoveredAt));
+  return {
+    pending: sumAmounts(inState(entries, 'pending')),
+    available: roundAmount(sumAmounts(getWithdrawableEntries(entries)) - owed),
+    withdrawing: roundAmount(sumAmounts(inState(entries, 'cleared').filter(e => e.payoutId)) - recovering),
+    // Money that went out, including rewards reversed since
+    paid: roundAmount(sumAmounts(entries.filter(e => e.state === 'paid' || (e.state === 'reversed' && e.paidAt))) - recovered),
+    reversed: sumAmounts(inState(entries, 'reversed')),
+    owed,
+  };
+};
+
+export interface ClearingDay {
+  date: Date; // Start of the day the entries clear
+  amount: number;
+  count: number;
+}
+
+// Pending earnings grouped by the day they clear, soonest first
+export const getClearingSchedule = (entries: LedgerEntry[]): ClearingDay[] => {
+  const days = new Map<number, ClearingDay>();
+  entries
+    .filter(e => e.state === 'pending')
+    .forEach(e => {
+      const date = new Date(e.clearsAt.getFullYear(), e.clearsAt.getMonth(), e.clearsAt.getDate());
+      const day = days.get(date.getTime()) ?? { date, amount: 0, count: 0 };
+      days.set(date.getTime(), { ...day, amount: day.amount + e.amount, count: day.count + 1 });
+    });
+
+  return [...days.values()]
+    .map(day => ({ ...day, amount: Math.round(day.amount * 100) / 100 }))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+};
@@ -0,0 +1,105 @@
+import type { Campaign, Enrollment, EnrollmentStatus, StatusChange } from './types';
+import { DEFAULT_MAX_ATTEMPTS } from './constants';
+import { hasCampaignEnded } from './campaignLifecycle';
+
+/**
+ * Enrollment state machine.
+ * Every status change goes through transitionEnrollment, which refuses
+ * moves that are not listed in enrollmentTransitions (or fail their guard)
+ * and appends the change to the enrollment's history.
+ */
+
+export const enrollmentTransitions: Record<EnrollmentStatus, EnrollmentStatus[]> = {
+  enrolled: ['uploaded', 'campaign-ended'],
+  uploaded: ['processing', 'campaign-ended'],
+  processing: ['under-review', 'campaign-ended'],
+  'under-review': ['approved', 'rejected', 'campaign-ended'],
+  approved: [],
+  rejected: ['uploaded', 'campaign-ended'], // Resubmission with a new video
+  'campaign-ended': [],
+};
+
+// Transitions the app makes on its own once an enrollment has spent `delayMs` in a status
+export const automaticTransitions: Partial<Record<EnrollmentStatus, { to: EnrollmentStatus; delayMs: number }>> = {
+  processing: { to: 'under-review', delayMs: 4000 },
+};
+
+// ==================== ATTEMPTS ====================
+export const getMaxAttempts = (campaign: Campaign): number => campaign.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+
+// Each move into processing is one submitted attempt
+export const getSubmissionCount = (enrollment: Enrollment): number =>
+  enrollment.history.filter(change => change.to === 'processing').length;
+
+export const getRemainingAttempts = (enrollment: Enrollment): number =>
+  Math.max(getMaxAttempts(enrollment.campaign) - getSubmissionCount(enrollment), 0);
+
+// Reviewer feedback from every rejection, oldest first
+export const getRejectionHistory = (enrollment: Enrollment): { at: Date; reason: string }[] =>
+  enrollment.history
+    .filter(change => change.to === 'rejected')
+    .map(change => ({ at: change.at, reason: change.note ?? '' }));
+
+// Conditions on top of enrollmentTransitions, keyed by "from->to".
+// Nothing can be uploaded, submitted or approved once the campaign has ended.
+const transitionGuards: Partial<Record<`${EnrollmentStatus}->${EnrollmentStatus}`, (enrollment: Enrollment) => boolean>> = {
+  'enrolled->uploaded': enrollment => !hasCampaignEnded(enrollment.campaign),
+  'rejected->uploaded': enrollment => getRemainingAttempts(enrollment) > 0 && !hasCampaignEnded(enrollment.campaign),
+  'uploaded->processing': enrollment => getRemainingAttempts(enrollment) > 0 && !hasCampaignEnded(enrollment.campaign),
+  'under-review->approved': enrollment => !hasCampaignEnded(enrollment.campaign),
+  // A rejection with no attempts left is already final
+  'rejected->campaign-ended': enrollment => getRemainingAttempts(enrollment) > 0,
+};
+
+// ==================== TRANSITIONS ====================
+// Happy path, used by Demo Mode's "Next Step"
+const happyPath: EnrollmentStatus[] = ['enrolled', 'uploaded', 'processing', 'under-review', 'approved'];
+
+export const canTransition = (from: EnrollmentStatus, to: EnrollmentStatus): boolean =>
+  enrollmentTransitions[from].includes(to);
+
+export const isTerminalState = (status: EnrollmentStatus): boolean =>
+  enrollmentTransitions[status].length === 0;
+
+export const nextEnrollmentState = (status: EnrollmentStatus): EnrollmentStatus | null => {
+  const currentIndex = happyPath.indexOf(status);
+  if (currentIndex === -1 || currentIndex === happyPath.length - 1) return null;
+  return happyPath[currentIndex + 1];
+};
+
+export const canTransitionEnrollment = (enrollment: Enrollment, to: EnrollmentStatus): boolean => {
+  const guard = transitionGuards[`${enrollment.status}->${to}`];
+  return canTransition(enrollment.status, to) && (!guard || guard(enrollment));
+};
+
+// A rejected enrollment that still has attempts left can be revised and resubmitted
+export const canResubmit = (enrollment: Enrollment): boolean =>
+  enrollment.status === 'rejected' && canTransitionEnrollment(enrollment, 'uploaded');
+
+export const initialHistory = (at: Date): StatusChange[] => [{ from: null, to: 'enrolled', at }];
+
+// Returns the updated enrollment, or null if the move is not allowed from its current status
+export const transitionEnrollment = (
+  enrollment: Enrollment,
+  to: EnrollmentStatus,
+  options: { at?: Date; note?: string } = {},
+): Enrollment | null => {
+  if (!canTransitionEnrollment(enrollment, to)) {
+    console.warn(`[enrollmentStateMachine] Illegal transition ${enrollment.status} -> ${to} for ${enrollment.id}`);
+    return null;
+  }
+
+  const change: StatusChange = { from: enrollment.status, to, at: options.at ?? new Date() };
+  if (options.note) change.note = options.note;
+
+  return { ...enrollment, status: to, history: [...enrollment.history, change] };
+};
+
+// When the enrollment entered its current status. Enrollments cached
+// before history was recorded fall back to their enrollment date.
+export const enteredCurrentStatusAt = (enrollment: Enrollment): Date => {
+  for (let i = enrollment.history.length - 1; i >= 0; i--) {
+    if (enrollment.history[i].to === enrollment.status) return enrollment.history[i].at;
+  }
+  return enrollment.enrolledAt;
+};
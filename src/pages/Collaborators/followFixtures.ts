@@ -0,0 +1,15 @@
+import type { CollaboratorProfile, Follow } from './types';
+import { createSeededRandom, hashString } from './seededRandom';
+
+/**
+ * Seeded follows between collaborators that have none stored, so profiles
+ * show follower counts before anyone has followed anyone. Collaborators with
+ * more XP are likelier to be followed.
+ */
+export const generateFollows = (follower: CollaboratorProfile, collaborators: CollaboratorProfile[]): Follow[] => {
+  const random = createSeededRandom(hashString(`${follower.id}:follows`));
+  const maxXP = Math.max(1, ...collaborators.map(c => c.totalXP));
+  return collaborators
+    .filter(c => c.id !== follower.id && random() < 0.25 + 0.5 * (c.totalXP / maxXP))
+    .map(c => ({ followerId: follower.id, followeeId: c.id }));
+};
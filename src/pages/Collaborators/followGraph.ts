@@ -0,0 +1,23 @@
+import type { Follow, FollowCounts } from './types';
+
+/**
+ * Who follows whom. The graph is a flat list of follower -> followee edges;
+ * counts and filters are read from it rather than kept per profile.
+ */
+
+export const isFollowing = (follows: Follow[], followerId: string, followeeId: string): boolean =>
+  follows.some(f => f.followerId === followerId && f.followeeId === followeeId);
+
+export const getFollowingIds = (follows: Follow[], followerId: string): Set<string> =>
+  new Set(follows.filter(f => f.followerId === followerId).map(f => f.followeeId));
+
+export const getFollowCounts = (follows: Follow[], collaboratorId: string): FollowCounts => ({
+  followers: follows.filter(f => f.followeeId === collaboratorId).length,
+  following: follows.filter(f => f.followerId === collaboratorId).length,
+});
+
+// Adds or removes one edge, leaving the rest of the graph as it was
+export const withFollow = (follows: Follow[], follow: Follow, following: boolean): Follow[] => {
+  const others = follows.filter(f => f.followerId !== follow.followerId || f.followeeId !== follow.followeeId);
+  return following ? [...others, follow] : others;
+};
@@ -0,0 +1,52 @@
+import { useState, useEffect, useMemo } from 'react';
+import type { Achievement, AchievementStatus, ConversionRecord, Enrollment } from '../types';
+import { evaluateAchievements, getActivityFromEnrollments, getUnlockedAchievements } from '../achievements';
+import { getCreatorId } from '../../../lib/creator';
+import { listAchievements, recordAchievements } from '../../../lib/achievementsStore';
+
+/**
+ * The current creator's achievements, re-evaluated whenever enrollments or
+ * conversions change. New unlocks are recorded and passed to onUnlock once,
+ * when they are first stored.
+ */
+export const useAchievements = (
+  enrollments: Enrollment[],
+  conversions: ConversionRecord[],
+  onUnlock: (achievements: Achievement[]) => void,
+): AchievementStatus[] => {
+  const [creatorId] = useState(getCreatorId);
+  // null until stored unlocks have loaded, so nothing is announced twice
+  const [storedUnlocks, setStoredUnlocks] = useState<Achievement[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    listAchievements(creatorId).then(result => {
+      if (!cancelled) setStoredUnlocks(result.ok ? result.data : []);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [creatorId]);
+
+  const statuses = useMemo(
+    () => evaluateAchievements(getActivityFromEnrollments(enrollments, conversions), storedUnlocks ?? []),
+    [enrollments, conversions, storedUnlocks],
+  );
+
+  useEffect(() => {
+    if (storedUnlocks === null) return;
+    const newUnlocks = getUnlockedAchievements(creatorId, statuses)
+      .filter(unlock => !storedUnlocks.some(stored => stored.achievementId === unlock.achievementId));
+    if (newUnlocks.length === 0) return;
+
+    recordAchievements(newUnlocks).then(result => {
+      if (!result.ok) return;
+      setStoredUnlocks(prev => [...(prev ?? []), ...newUnlocks]);
+      if (result.data.length > 0) onUnlock(result.data);
+    });
+  }, [creatorId, statuses, storedUnlocks, onUnlock]);
+
+  return statuses;
+};
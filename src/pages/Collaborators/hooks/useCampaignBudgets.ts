@@ -0,0 +1,31 @@
+import { useCallback, useMemo } from 'react';
+import type { Campaign, CampaignBudget, ConversionRecord, Enrollment } from '../types';
+import { countCreditedReferrals, summarizeBudget } from '../campaignBudget';
+import { generateBudgetUsedByOthers } from '../conversionFixtures';
+import { isSupabaseConfigured } from '../../../lib/supabase';
+
+/**
+ * Remaining referral budget per campaign.
+ * Campaign rows that track budget_used already count every creator. For the
+ * rest only this creator's credited conversions are known; without Supabase
+ * they are added to the seeded usage of everyone else, so the budget shrinks
+ * as new orders come in.
+ */
+export const useCampaignBudgets = (
+  enrollments: Enrollment[],
+  conversions: ConversionRecord[],
+): ((campaign: Campaign) => CampaignBudget | null) => {
+  const creditedByCampaign = useMemo(
+    () => countCreditedReferrals(conversions, enrollments),
+    [conversions, enrollments],
+  );
+
+  return useCallback(
+    (campaign: Campaign) => {
+      const usedByYou = creditedByCampaign.get(campaign.id) ?? 0;
+      const usedByOthers = isSupabaseConfigured() ? 0 : generateBudgetUsedByOthers(campaign);
+      return summarizeBudget(campaign, campaign.budgetUsed ?? usedByOthers + usedByYou);
+    },
+    [creditedByCampaign],
+  );
+};
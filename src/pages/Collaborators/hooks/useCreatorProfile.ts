@@ -0,0 +1,54 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { CollaboratorProfile, ProfileDraft } from '../types';
+import { applyProfileDraft, validateProfileDraft } from '../creatorProfile';
+import { getCreatorId } from '../../../lib/creator';
+import { fail, type Result } from '../../../lib/result';
+import { getProfile, saveProfile as storeProfile } from '../../../lib/profileStore';
+import { uploadAvatar as storeAvatar } from '../../../lib/avatarUpload';
+
+interface UseCreatorProfileReturn {
+  // null until the creator has been through onboarding
+  profile: CollaboratorProfile | null;
+  isLoading: boolean;
+  saveProfile: (draft: ProfileDraft) => Promise<Result<CollaboratorProfile>>;
+  // Resolves to the avatar URL to put on the draft
+  uploadAvatar: (file: File) => Promise<Result<string>>;
+}
+
+/**
+ * The current creator's saved profile. Handles must not clash with any of
+ * the leaderboard's collaborators.
+ */
+export const useCreatorProfile = (collaborators: CollaboratorProfile[]): UseCreatorProfileReturn => {
+  const [creatorId] = useState(getCreatorId);
+  const [profile, setProfile] = useState<CollaboratorProfile | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getProfile(creatorId).then(result => {
+      if (cancelled) return;
+      if (result.ok) setProfile(result.data);
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [creatorId]);
+
+  const saveProfile = useCallback(async (draft: ProfileDraft): Promise<Result<CollaboratorProfile>> => {
+    const takenHandles = collaborators.filter(c => c.id !== creatorId).map(c => c.handle);
+    const invalid = validateProfileDraft(draft, takenHandles);
+    if (invalid) return fail({ kind: 'invalid-input', message: invalid.problem });
+
+    const result = await storeProfile(applyProfileDraft(creatorId, profile, draft));
+    if (result.ok) setProfile(result.data);
+    return result;
+  }, [collaborators, creatorId, profile]);
+
+  const uploadAvatar = useCallback((file: File) => storeAvatar(creatorId, file), [creatorId]);
+
+  return { profile, isLoading, saveProfile, uploadAvatar };
+};
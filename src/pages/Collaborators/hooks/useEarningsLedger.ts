@@ -0,0 +1,42 @@
+import { useState, useEffect, useMemo } from 'react';
+import type { ConversionRecord, LedgerEntry, Payout } from '../types';
+import { applyPayouts, buildLedger, settleLedgerEntry } from '../earningsLedger';
+import { isSupabaseConfigured } from '../../../lib/supabase';
+import { getCreatorId } from '../../../lib/creator';
+import { listLedgerEntries } from '../../../lib/earningsStore';
+
+/**
+ * Earnings ledger for the current creator.
+ * With Supabase only stored earnings_ledger rows count, since payouts are
+ * real: an empty table or a failed query leaves nothing to withdraw. Without
+ * it the ledger is built from the conversions, with the creator's payouts
+ * applied on top.
+ */
+export const useEarningsLedger = (conversions: ConversionRecord[], payouts: Payout[]): LedgerEntry[] => {
+  const [creatorId] = useState(getCreatorId);
+  const [remoteEntries, setRemoteEntries] = useState<LedgerEntry[]>([]);
+
+  // New conversions mean new entries on the server too
+  const conversionCount = conversions.length;
+
+  useEffect(() => {
+    if (!isSupabaseConfigured()) return;
+    let cancelled = false;
+
+    listLedgerEntries(creatorId).then(result => {
+      if (cancelled) return;
+      if (result.ok) setRemoteEntries(result.data);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [creatorId, conversionCount]);
+
+  return useMemo(
+    () => isSupabaseConfigured()
+      ? remoteEntries.map(entry => settleLedgerEntry(entry))
+      : applyPayouts(buildLedger(conversions), payouts),
+    [remoteEntries, conversions, payouts],
+  );
+};
@@ -0,0 +1,64 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import type { CollaboratorProfile, Follow } from '../types';
+import { isFollowing, withFollow } from '../followGraph';
+import { generateFollows } from '../followFixtures';
+import { isSupabaseConfigured } from '../../../lib/supabase';
+import { getCreatorId } from '../../../lib/creator';
+import { fail, ok, type Result } from '../../../lib/result';
+import { listFollows, saveFollow } from '../../../lib/followsStore';
+
+interface UseFollowsReturn {
+  follows: Follow[];
+  // Follows or unfollows a collaborator; resolves to whether you now follow them
+  toggleFollow: (collaboratorId: string) => Promise<Result<boolean>>;
+}
+
+/**
+ * The follow graph between the current creator and the leaderboard.
+ * Without Supabase, collaborators who follow no one in storage get seeded
+ * follows; with it, and for the current creator, only stored follows count.
+ */
+export const useFollows = (collaborators: CollaboratorProfile[]): UseFollowsReturn => {
+  const [creatorId] = useState(getCreatorId);
+  const [storedFollows, setStoredFollows] = useState<Follow[]>([]);
+
+  const idsKey = [creatorId, ...collaborators.map(c => c.id)].join(',');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    listFollows(idsKey.split(',')).then(result => {
+      if (!cancelled && result.ok) setStoredFollows(result.data);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [idsKey]);
+
+  const follows = useMemo(() => {
+    if (isSupabaseConfigured()) return storedFollows;
+
+    const storedFollowers = new Set(storedFollows.map(f => f.followerId));
+    return [
+      ...storedFollows,
+      ...collaborators
+        .filter(c => !storedFollowers.has(c.id))
+        .flatMap(c => generateFollows(c, collaborators)),
+    ];
+  }, [collaborators, storedFollows]);
+
+  const toggleFollow = useCallback(async (collaboratorId: string): Promise<Result<boolean>> => {
+    if (collaboratorId === creatorId) return fail({ kind: 'invalid-input', message: 'You cannot follow yourself' });
+
+    const follow = { followerId: creatorId, followeeId: collaboratorId };
+    const following = !isFollowing(storedFollows, creatorId, collaboratorId);
+    const result = await saveFollow(follow, following);
+    if (!result.ok) return result;
+
+    setStoredFollows(prev => withFollow(prev, follow, following));
+    return ok(following);
+  }, [creatorId, storedFollows]);
+
+  return { follows, toggleFollow };
+};
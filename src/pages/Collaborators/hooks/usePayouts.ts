@@ -0,0 +1,105 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { LedgerEntry, Payout, PayoutMethod } from '../types';
+import { createPayout, getNetAmount, getPayoutBlocker, isPayoutInFlight, validatePayoutMethod } from '../payouts';
+import { isSupabaseConfigured } from '../../../lib/supabase';
+import { getCreatorId } from '../../../lib/creator';
+import { fail, type Result } from '../../../lib/result';
+import { mockPayoutProvider } from '../../../lib/payoutProvider';
+import {
+  getPayoutMethod,
+  savePayoutMethod as storePayoutMethod,
+  listPayouts,
+  requestPayout,
+  saveLocalPayout,
+} from '../../../lib/payoutsStore';
+
+// How often to re-read in-flight payouts that a server-side provider is processing
+const PAYOUT_POLL_MS = 15000;
+
+interface UsePayoutsReturn {
+  payoutMethod: PayoutMethod | null;
+  payouts: Payout[];
+  savePayoutMethod: (method: PayoutMethod) => Promise<Result<PayoutMethod>>;
+  // Withdraw the given cleared entries to the saved payout method, less the owed `debits`
+  requestWithdrawal: (entries: LedgerEntry[], debits?: LedgerEntry[]) => Promise<Result<Payout>>;
+}
+
+/**
+ * Payout method and withdrawal history for the current creator.
+ * Without Supabase, the mock payout provider settles requests locally.
+ */
+export const usePayouts = (): UsePayoutsReturn => {
+  const [creatorId] = useState(getCreatorId);
+  const [payoutMethod, setPayoutMethod] = useState<PayoutMethod | null>(null);
+  const [payouts, setPayouts] = useState<Payout[]>([]);
+  // Set while a withdrawal is being requested, so a second one cannot claim the same entries
+  const isRequestingRef = useRef(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([getPayoutMethod(creatorId), listPayouts(creatorId)]).then(([methodResult, payoutsResult]) => {
+      if (cancelled) return;
+      if (methodResult.ok) setPayoutMethod(methodResult.data);
+      if (payoutsResult.ok) setPayouts(payoutsResult.data);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [creatorId]);
+
+  const hasPayoutInFlight = payouts.some(isPayoutInFlight);
+
+  // Local development: let the mock provider move in-flight payouts along
+  useEffect(() => {
+    if (isSupabaseConfigured()) return;
+
+    const stops = payouts.filter(isPayoutInFlight).map(payout =>
+      mockPayoutProvider.track(payout, update => {
+        const updated: Payout = { ...payout, status: update.status, updatedAt: update.at, failureReason: update.failureReason };
+        saveLocalPayout(updated);
+        setPayouts(prev => prev.map(p => p.id === updated.id ? updated : p));
+      })
+    );
+
+    return () => stops.forEach(stop => stop());
+  }, [payouts]);
+
+  // With Supabase, the provider updates rows server-side; poll until they settle
+  useEffect(() => {
+    if (!isSupabaseConfigured() || !hasPayoutInFlight) return;
+
+    const interval = setInterval(() => {
+      listPayouts(creatorId).then(result => {
+        if (result.ok) setPayouts(result.data);
+      });
+    }, PAYOUT_POLL_MS);
+
+    return () => clearInterval(interval);
+  }, [creatorId, hasPayoutInFlight]);
+
+  const savePayoutMethod = useCallback(async (method: PayoutMethod): Promise<Result<PayoutMethod>> => {
+    const problem = validatePayoutMethod(method);
+    if (problem) return fail({ kind: 'invalid-input', message: problem });
+
+    const result = await storePayoutMethod(creatorId, method);
+    if (result.ok) setPayoutMethod(result.data);
+    return result;
+  }, [creatorId]);
+
+  const requestWithdrawal = useCallback(async (entries: LedgerEntry[], debits: LedgerEntry[] = []): Promise<Result<Payout>> => {
+    const blocker = getPayoutBlocker(getNetAmount(entries, debits), payoutMethod, payouts);
+    if (blocker || !payoutMethod) return fail({ kind: 'invalid-input', message: blocker ?? 'Add a payout method first' });
+
+    if (isRequestingRef.current) return fail({ kind: 'invalid-input', message: 'A withdrawal is already being requested' });
+
+    isRequestingRef.current = true;
+    const result = await requestPayout(creatorId, createPayout(entries, payoutMethod, debits));
+    if (result.ok) setPayouts(prev => [result.data, ...prev]);
+    isRequestingRef.current = false;
+    return result;
+  }, [creatorId, payoutMethod, payouts]);
+
+  return { payoutMethod, payouts, savePayoutMethod, requestWithdrawal };
+};
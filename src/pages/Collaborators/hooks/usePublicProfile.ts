@@ -0,0 +1,84 @@
+import { useState, useEffect, useMemo } from 'react';
+import type { CollaboratorProfile, Enrollment, XPEvent } from '../types';
+import { mockCollaborators } from '../constants';
+import { findCollaboratorByHandle } from '../publicProfile';
+import { getApprovalTimes, withXPFromLog } from '../xpEngine';
+import { getCollaborators } from '../../../lib/repository';
+import { getCreatorId } from '../../../lib/creator';
+import { getProfile } from '../../../lib/profileStore';
+import { listEnrollments } from '../../../lib/enrollmentsStore';
+import { useCollaboratorXPLogs } from './useCollaboratorXPLogs';
+
+interface UsePublicProfileReturn {
+  isLoading: boolean;
+  // null when no collaborator has the handle
+  collaborator: CollaboratorProfile | null;
+  xpLog: XPEvent[];
+  // Approved enrollments with an uploaded video, newest first
+  videos: Enrollment[];
+}
+
+/**
+ * A collaborator's public profile, looked up by handle among the leaderboard
+ * collaborators (the mock ones when Supabase has none) and this browser's
+ * creator, with their XP log and approved videos.
+ */
+export const usePublicProfile = (handle: string): UsePublicProfileReturn => {
+  const [collaborators, setCollaborators] = useState<CollaboratorProfile[] | null>(null);
+  const [loadedVideos, setLoadedVideos] = useState<{ collaboratorId: string; videos: Enrollment[] } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([getCollaborators(), getProfile(getCreatorId())]).then(([collabResult, profileResult]) => {
+      if (cancelled) return;
+      const listed = collabResult.ok && collabResult.data.length > 0 ? collabResult.data : mockCollaborators;
+      const own = profileResult.ok ? profileResult.data : null;
+      setCollaborators(own && !listed.some(c => c.id === own.id) ? [...listed, own] : listed);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const found = useMemo(
+    () => (collaborators ? findCollaboratorByHandle(collaborators, handle) : null),
+    [collaborators, handle],
+  );
+  const profiles = useMemo(() => (found ? [found] : []), [found]);
+  const xpLogs = useCollaboratorXPLogs(profiles);
+  const xpLog = useMemo(() => (found ? xpLogs.get(found.id) ?? [] : []), [found, xpLogs]);
+
+  // Without Supabase no one else's videos are available, so the gallery stays empty
+  useEffect(() => {
+    if (!found) return;
+    let cancelled = false;
+
+    listEnrollments(found.id).then(result => {
+      if (cancelled) return;
+      const videos = result.ok
+        ? result.data.filter(e => e.status === 'approved' && e.uploadedFile?.url)
+        : [];
+      setLoadedVideos({ collaboratorId: found.id, videos });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [found]);
+
+  // Approvals are counted from the log too; a saved profile does not keep them up to date
+  const collaborator = useMemo(() => {
+    if (!found) return null;
+    const approvedCount = xpLog.length > 0 ? getApprovalTimes(xpLog).length : found.approvedCount;
+    return { ...withXPFromLog(found, xpLog), approvedCount };
+  }, [found, xpLog]);
+
+  return {
+    isLoading: collaborators === null,
+    collaborator,
+    xpLog,
+    videos: found && loadedVideos?.collaboratorId === found.id ? loadedVideos.videos : [],
+  };
+};
@@ -0,0 +1,35 @@
+import { useState, useEffect, useMemo } from 'react';
+import type { Enrollment, ReferralClick } from '../types';
+import { generateClicks } from '../conversionFixtures';
+import { isSupabaseConfigured } from '../../../lib/supabase';
+import { listReferralClicks } from '../../../lib/referralsStore';
+
+/**
+ * Click events on the current creator's referral links.
+ * Uses the Supabase referral_clicks table when it has rows; otherwise the
+ * seeded fixtures plus any clicks recorded locally by the landing page.
+ */
+export const useReferralClicks = (enrollments: Enrollment[]): ReferralClick[] => {
+  const [fetchedClicks, setFetchedClicks] = useState<ReferralClick[]>([]);
+
+  // Re-fetch when a new link is minted
+  const codesKey = enrollments.flatMap(e => (e.referralCode ? [e.referralCode] : [])).join(',');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    listReferralClicks(codesKey ? codesKey.split(',') : []).then(result => {
+      if (!cancelled && result.ok) setFetchedClicks(result.data);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [codesKey]);
+
+  const fixtureClicks = useMemo(() => generateClicks(enrollments), [enrollments]);
+
+  if (isSupabaseConfigured() && fetchedClicks.length > 0) return fetchedClicks;
+  // Without Supabase, fetched clicks are the ones recorded in this browser
+  return isSupabaseConfigured() ? fixtureClicks : [...fetchedClicks, ...fixtureClicks];
+};
@@ -0,0 +1,99 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { Enrollment, ReviewItem } from '../types';
+import { withApproval, withRejection } from '../utils';
+import { getReferralCodes } from '../referrals';
+import { isSupabaseConfigured } from '../../../lib/supabase';
+import { getCreatorId } from '../../../lib/creator';
+import { listEnrollmentsByStatus, updateEnrollment } from '../../../lib/enrollmentsStore';
+import { ok, fail, type Result, type DataError } from '../../../lib/result';
+import { useSyncedEnrollments } from './useSyncedEnrollments';
+
+interface UseReviewQueueReturn {
+  items: ReviewItem[];
+  isLoading: boolean;
+  error: DataError | null;
+  approve: (item: ReviewItem) => Promise<Result<Enrollment>>;
+  reject: (item: ReviewItem, reason: string) => Promise<Result<Enrollment>>;
+}
+
+// Postgres unique_violation: the minted referral code is already taken
+const UNIQUE_VIOLATION = '23505';
+const MAX_APPROVAL_ATTEMPTS = 3;
+
+/**
+ * Enrollments waiting for a reviewer decision.
+ * With Supabase the queue spans every collaborator; without it, it falls back
+ * to the enrollments cached in this browser so the flow still works locally.
+ */
+export const useReviewQueue = (): UseReviewQueueReturn => {
+  const [localEnrollments, setLocalEnrollments] = useSyncedEnrollments();
+  const [creatorId] = useState(getCreatorId);
+  const [remoteItems, setRemoteItems] = useState<ReviewItem[]>([]);
+  const [isLoading, setIsLoading] = useState(isSupabaseConfigured);
+  const [error, setError] = useState<DataError | null>(null);
+
+  useEffect(() => {
+    if (!isSupabaseConfigured()) return;
+    let cancelled = false;
+
+    listEnrollmentsByStatus('under-review').then(result => {
+      if (cancelled) return;
+      if (result.ok) setRemoteItems(result.data);
+      else setError(result.error);
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const items = useMemo(() => isSupabaseConfigured()
+    ? remoteItems
+    : localEnrollments
+        .filter(e => e.status === 'under-review')
+        .sort((a, b) => a.enrolledAt.getTime() - b.enrolledAt.getTime())
+        .map(enrollment => ({ collaboratorId: creatorId, enrollment })),
+  [remoteItems, localEnrollments, creatorId]);
+
+  const saveDecision = useCallback(async (item: ReviewItem, updated: Enrollment | null): Promise<Result<Enrollment>> => {
+    if (!updated) {
+      return fail({
+        kind: 'invalid-transition',
+        message: `Enrollment is ${item.enrollment.status}, not under review`,
+      });
+    }
+
+    if (!isSupabaseConfigured()) {
+      setLocalEnrollments(prev => prev.map(e => e.id === updated.id ? updated : e));
+      return ok(updated);
+    }
+
+    const result = await updateEnrollment(item.collaboratorId, updated);
+    if (result.ok) {
+      setRemoteItems(prev => prev.filter(i => i.enrollment.id !== updated.id));
+    }
+    return result;
+  }, [setLocalEnrollments]);
+
+  // Referral codes are unique in the enrollments table; a code minted by
+  // another reviewer in the meantime is skipped and a fresh one tried
+  const approve = useCallback(async (item: ReviewItem): Promise<Result<Enrollment>> => {
+    const takenCodes = getReferralCodes(isSupabaseConfigured() ? remoteItems.map(i => i.enrollment) : localEnrollments);
+    for (let attempt = 1; ; attempt++) {
+      const updated = withApproval(item.enrollment, takenCodes);
+      const result = await saveDecision(item, updated);
+      if (result.ok || result.error.code !== UNIQUE_VIOLATION || !updated?.referralCode || attempt === MAX_APPROVAL_ATTEMPTS) {
+        return result;
+      }
+      takenCodes.add(updated.referralCode);
+    }
+  }, [saveDecision, remoteItems, localEnrollments]);
+
+  const reject = useCallback(
+    (item: ReviewItem, reason: string) => saveDecision(item, withRejection(item.enrollment, reason)),
+    [saveDecision],
+  );
+
+  return { items, isLoading, error, approve, reject };
+};
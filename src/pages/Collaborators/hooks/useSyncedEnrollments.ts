@@ -0,0 +1,197 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { Dispatch, SetStateAction } from 'react';
+import type { Enrollment, StatusChange } from '../types';
+import { isSupabaseConfigured } from '../../../lib/supabase';
+import { getCreatorId } from '../../../lib/creator';
+import { listEnrollments, createEnrollment, updateEnrollment } from '../../../lib/enrollmentsStore';
+
+const ENROLLMENTS_STORAGE_KEY = 'snoonu-collaborators-enrollments';
+const ENROLLMENTS_OUTBOX_STORAGE_KEY = 'snoonu-collaborators-enrollments-outbox';
+
+type StoredStatusChange = Omit<StatusChange, 'at'> & { at: string };
+type StoredEnrollment = Omit<Enrollment, 'enrolledAt' | 'history'> & {
+  enrolledAt: string;
+  history?: StoredStatusChange[]; // Missing on enrollments cached before history was recorded
+};
+
+// Enrollment id -> write that has not reached Supabase yet
+type Outbox = Record<string, 'create' | 'update'>;
+
+// Helper functions to serialize/deserialize enrollments with Date objects.
+// Loading is exported for pages that only need to read the local cache.
+export const loadEnrollmentsFromStorage = (): Enrollment[] => {
+  try {
+    const stored = localStorage.getItem(ENROLLMENTS_STORAGE_KEY);
+    if (!stored) return [];
+
+    const parsed: StoredEnrollment[] = JSON.parse(stored);
+    // Convert enrolledAt and history timestamps from ISO strings back to Dates
+    return parsed.map(e => ({
+      ...e,
+      enrolledAt: new Date(e.enrolledAt),
+      history: (e.history ?? []).map(change => ({ ...change, at: new Date(change.at) })),
+    }));
+  } catch (error) {
+    console.error('[useSyncedEnrollments] Failed to load enrollments from localStorage:', error);
+    return [];
+  }
+};
+
+const saveEnrollmentsToStorage = (enrollments: Enrollment[]): void => {
+  try {
+    // Convert Date objects to ISO strings for JSON serialization
+    const serialized: StoredEnrollment[] = enrollments.map(e => ({
+      ...e,
+      enrolledAt: e.enrolledAt.toISOString(),
+      history: e.history.map(change => ({ ...change, at: change.at.toISOString() })),
+    }));
+    localStorage.setItem(ENROLLMENTS_STORAGE_KEY, JSON.stringify(serialized));
+  } catch (error) {
+    console.error('[useSyncedEnrollments] Failed to save enrollments to localStorage:', error);
+  }
+};
+
+const loadOutbox = (): Outbox => {
+  try {
+    const stored = localStorage.getItem(ENROLLMENTS_OUTBOX_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('[useSyncedEnrollments] Failed to load sync outbox from localStorage:', error);
+    return {};
+  }
+};
+
+const saveOutbox = (outbox: Outbox): void => {
+  try {
+    localStorage.setItem(ENROLLMENTS_OUTBOX_STORAGE_KEY, JSON.stringify(outbox));
+  } catch (error) {
+    console.error('[useSyncedEnrollments] Failed to save sync outbox to localStorage:', error);
+  }
+};
+
+/**
+ * Enrollments state backed by the Supabase enrollments table.
+ *
+ * localStorage is the offline cache: state is restored from it synchronously,
+ * then replaced by the server copy once it loads. Every created or changed
+ * enrollment is queued in an outbox and written through to Supabase; writes
+ * that fail (offline, server error) stay queued and are retried when the
+ * browser comes back online. Without Supabase credentials it behaves like
+ * the old localStorage-only store.
+ */
+export const useSyncedEnrollments = (): [Enrollment[], Dispatch<SetStateAction<Enrollment[]>>] => {
+  const [enrollments, setEnrollments] = useState<Enrollment[]>(() => loadEnrollmentsFromStorage());
+  const [creatorId] = useState(getCreatorId);
+
+  const enrollmentsRef = useRef(enrollments);
+  // Last version of each enrollment already handed to the outbox, used to detect changes
+  const knownRef = useRef(new Map(enrollments.map(e => [e.id, e])));
+  const isFlushingRef = useRef(false);
+  const flushRequestedRef = useRef(false);
+
+  const flushOutbox = useCallback(async () => {
+    if (!isSupabaseConfigured() || !navigator.onLine) return;
+    if (isFlushingRef.current) {
+      flushRequestedRef.current = true;
+      return;
+    }
+
+    isFlushingRef.current = true;
+    try {
+      for (const [id, op] of Object.entries(loadOutbox())) {
+        const enrollment = enrollmentsRef.current.find(e => e.id === id);
+        const result = enrollment
+          ? await (op === 'create' ? createEnrollment : updateEnrollment)(creatorId, enrollment)
+          : null;
+
+        // Keep this and later writes queued for the next reconnect
+        if (result && !result.ok) break;
+
+        // Re-read the outbox: it may have gained entries while the request was in flight.
+        // Only clear the entry if the enrollment did not change again in the meantime.
+        const outbox = loadOutbox();
+        if (enrollmentsRef.current.find(e => e.id === id) === enrollment) {
+          delete outbox[id];
+          saveOutbox(outbox);
+        } else if (outbox[id] === 'create' && enrollment) {
+          outbox[id] = 'update';
+          saveOutbox(outbox);
+        }
+      }
+    } finally {
+      isFlushingRef.current = false;
+    }
+
+    if (flushRequestedRef.current) {
+      flushRequestedRef.current = false;
+      flushOutbox();
+    }
+  }, [creatorId]);
+
+  // Cache every change locally and queue it for Supabase
+  useEffect(() => {
+    enrollmentsRef.current = enrollments;
+    saveEnrollmentsToStorage(enrollments);
+
+    const known = knownRef.current;
+    knownRef.current = new Map(enrollments.map(e => [e.id, e]));
+    if (!isSupabaseConfigured()) return;
+
+    const outbox = loadOutbox();
+    let hasChanges = false;
+    enrollments.forEach(e => {
+      const previous = known.get(e.id);
+      if (previous === e) return;
+      // An enrollment created offline stays a create until it reaches the server
+      outbox[e.id] = previous ? (outbox[e.id] ?? 'update') : 'create';
+      hasChanges = true;
+    });
+
+    if (hasChanges) {
+      saveOutbox(outbox);
+      flushOutbox();
+    }
+  }, [enrollments, flushOutbox]);
+
+  // Load the server copy on mount and merge it with anything still queued locally
+  useEffect(() => {
+    if (!isSupabaseConfigured()) return;
+    let cancelled = false;
+
+    listEnrollments(creatorId).then(result => {
+      if (cancelled || !result.ok) return;
+
+      const outbox = loadOutbox();
+      const local = enrollmentsRef.current;
+      const remoteIds = new Set(result.data.map(e => e.id));
+
+      // Unsynced local edits win over the server copy
+      const merged = [
+        ...result.data.map(remote => (outbox[remote.id] && local.find(e => e.id === remote.id)) || remote),
+        ...local.filter(e => !remoteIds.has(e.id)),
+      ];
+
+      // Local-only enrollments (e.g. cached before sync existed) still need creating
+      local.forEach(e => {
+        if (!remoteIds.has(e.id) && !outbox[e.id]) outbox[e.id] = 'create';
+      });
+      saveOutbox(outbox);
+
+      knownRef.current = new Map(merged.map(e => [e.id, e]));
+      setEnrollments(merged);
+      flushOutbox();
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [creatorId, flushOutbox]);
+
+  // Retry queued writes when the connection returns
+  useEffect(() => {
+    window.addEventListener('online', flushOutbox);
+    return () => window.removeEventListener('online', flushOutbox);
+  }, [flushOutbox]);
+
+  return [enrollments, setEnrollments];
+};
@@ -0,0 +1,81 @@
+import { useState, useCallback, useRef } from 'react';
+import type { UploadState } from '../types';
+import { getCreatorId } from '../../../lib/creator';
+import { startVideoUpload, type UploadedVideo, type VideoUpload } from '../../../lib/videoUpload';
+
+interface UseVideoUploadsReturn {
+  uploads: Record<string, UploadState>;
+  startUpload: (enrollmentId: string, file: File) => void;
+  cancelUpload: (enrollmentId: string) => void;
+  retryUpload: (enrollmentId: string) => void;
+}
+
+/**
+ * Tracks in-flight video uploads per enrollment.
+ * The selected File is kept in memory so a failed upload can be retried
+ * (the upload module resumes from the last chunk the server stored).
+ */
+export const useVideoUploads = (
+  onUploaded: (enrollmentId: string, file: File, video: UploadedVideo) => void,
+  onFailed: (enrollmentId: string, message: string) => void,
+): UseVideoUploadsReturn => {
+  const [uploads, setUploads] = useState<Record<string, UploadState>>({});
+  const [creatorId] = useState(getCreatorId);
+  const filesRef = useRef(new Map<string, File>());
+  const activeRef = useRef(new Map<string, VideoUpload>());
+
+  const clearUpload = useCallback((enrollmentId: string) => {
+    setUploads(prev => {
+      const next = { ...prev };
+      delete next[enrollmentId];
+      return next;
+    });
+  }, []);
+
+  const startUpload = useCallback((enrollmentId: string, file: File) => {
+    activeRef.current.get(enrollmentId)?.cancel();
+    filesRef.current.set(enrollmentId, file);
+    setUploads(prev => ({
+      ...prev,
+      [enrollmentId]: { status: 'uploading', fileName: file.name, bytesUploaded: 0, bytesTotal: file.size, percentage: 0 },
+    }));
+
+    const upload = startVideoUpload(enrollmentId, `${creatorId}/${enrollmentId}`, file, (progress) => {
+      setUploads(prev => prev[enrollmentId]?.status === 'uploading'
+        ? { ...prev, [enrollmentId]: { ...prev[enrollmentId], ...progress } }
+        : prev);
+    });
+    activeRef.current.set(enrollmentId, upload);
+
+    upload.result.then(result => {
+      // A newer upload for the same enrollment replaced this one
+      if (activeRef.current.get(enrollmentId) !== upload) return;
+      activeRef.current.delete(enrollmentId);
+
+      if (result.ok) {
+        filesRef.current.delete(enrollmentId);
+        clearUpload(enrollmentId);
+        onUploaded(enrollmentId, file, result.data);
+      } else if (result.error.kind === 'cancelled') {
+        clearUpload(enrollmentId);
+      } else {
+        setUploads(prev => ({
+          ...prev,
+          [enrollmentId]: { ...prev[enrollmentId], status: 'failed', error: result.error.message },
+        }));
+        onFailed(enrollmentId, result.error.message);
+      }
+    });
+  }, [creatorId, clearUpload, onUploaded, onFailed]);
+
+  const cancelUpload = useCallback((enrollmentId: string) => {
+    activeRef.current.get(enrollmentId)?.cancel();
+  }, []);
+
+  const retryUpload = useCallback((enrollmentId: string) => {
+    const file = filesRef.current.get(enrollmentId);
+    if (file) startUpload(enrollmentId, file);
+  }, [startUpload]);
+
+  return { uploads, startUpload, cancelUpload, retryUpload };
+};
@@ -0,0 +1,47 @@
+import { useState, useEffect, useMemo } from 'react';
+import type { ConversionRecord, Enrollment, XPEvent } from '../types';
+import { buildXPEvents, mergeXPLog } from '../xpEngine';
+import { getCreatorId } from '../../../lib/creator';
+import { listXPEvents, recordXPEvents } from '../../../lib/xpStore';
+
+/**
+ * The current creator's XP event log.
+ * Events earned by approvals and conversions are appended to the stored log
+ * as they appear; events already stored are kept even if their source data
+ * is no longer loaded.
+ */
+export const useXPLog = (enrollments: Enrollment[], conversions: ConversionRecord[]): XPEvent[] => {
+  const [creatorId] = useState(getCreatorId);
+  // null until the stored log has loaded, so nothing is recorded twice
+  const [storedEvents, setStoredEvents] = useState<XPEvent[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    listXPEvents([creatorId]).then(result => {
+      if (!cancelled) setStoredEvents(result.ok ? result.data : []);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [creatorId]);
+
+  const earnedEvents = useMemo(
+    () => buildXPEvents(creatorId, enrollments, conversions),
+    [creatorId, enrollments, conversions],
+  );
+
+  useEffect(() => {
+    if (storedEvents === null) return;
+    const storedIds = new Set(storedEvents.map(e => e.id));
+    const newEvents = earnedEvents.filter(e => !storedIds.has(e.id));
+    if (newEvents.length === 0) return;
+
+    recordXPEvents(newEvents).then(result => {
+      if (result.ok) setStoredEvents(prev => mergeXPLog(prev ?? [], newEvents));
+    });
+  }, [earnedEvents, storedEvents]);
+
+  return useMemo(() => mergeXPLog(storedEvents ?? [], earnedEvents), [storedEvents, earnedEvents]);
+};
@@ -1,4 +1,6 @@
+import { useState } from 'react';
 import { useCollaborators } from './hooks/useCollaborators';
+import { getAvatarUrl } from './utils';
 import {
   TabSwitcher,
   Toast,
@@ -7,34 +9,86 @@ import {
   AnalyticsTab,
   LeaderboardTab,
   DemoControls,
+  ProfileEditorModal,
 } from './components';
 
 export const Collaborators = () => {
   const {
     activeTab,
     setActiveTab,
+    campaigns,
+    isCampaignsLoading,
+    getCampaignBudget,
+    getCampaignAccess,
     enrollments,
     enrollInCampaign,
     uploadFile,
+    uploads,
+    cancelUpload,
+    retryUpload,
     submitForReview,
     advanceEnrollment,
     advanceToApproved,
     rejectEnrollment,
+    conversions,
+    conversionsError,
+    referralClicks,
+    ledger,
+    payoutMethod,
+    payouts,
+    savePayoutMethod,
+    withdrawEarnings,
+    xpLog,
+    you,
+    tierStanding,
+    achievements,
+    postingStreak,
+    profile,
+    isProfileLoading,
+    saveProfile,
+    uploadAvatar,
     collaborators,
+    xpLogs,
     merchantLeaderboard,
+    follows,
+    toggleFollow,
     isDemoExpanded,
     setDemoExpanded,
     enrollSampleCampaign,
     toast,
   } = useCollaborators();
+  const [isEditingProfile, setEditingProfile] = useState(false);
+  // "Later" on onboarding only holds until the next visit
+  const [isOnboardingDismissed, setOnboardingDismissed] = useState(false);
+  const showProfileEditor = isEditingProfile || (!isProfileLoading && !profile && !isOnboardingDismissed);
+  const avatarUrl = profile && getAvatarUrl(profile.avatar);
 
   return (
     <div className="min-h-screen bg-gray-50 pb-8">
       {/* Header */}
       <div className="bg-white shadow-sm sticky top-0 z-30">
-        <div className="max-w-7xl mx-auto px-6 lg:px-8 py-6">
-          <h1 className="text-2xl font-bold text-gray-900">Collaborators</h1>
-          <p className="text-gray-500 mt-1">Earn by promoting merchant campaigns</p>
+        <div className="max-w-7xl mx-auto px-6 lg:px-8 py-6 flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Collaborators</h1>
+            <p className="text-gray-500 mt-1">Earn by promoting merchant campaigns</p>
+          </div>
+          {!isProfileLoading && (
+            <button
+              onClick={() => setEditingProfile(true)}
+              className="flex items-center gap-2 px-3 py-2 bg-white border border-gray-200 text-gray-700 text-sm font-semibold rounded-lg hover:bg-gray-100 transition-colors"
+            >
+              {profile && (
+                <span className="w-7 h-7 rounded-full bg-gradient-to-br from-gray-300 to-gray-400 overflow-hidden flex items-center justify-center text-xs text-white font-bold">
+                  {avatarUrl ? (
+                    <img src={avatarUrl} alt="" className="w-full h-full object-cover" />
+                  ) : (
+                    profile.handle.replace('@', '').charAt(0).toUpperCase()
+                  )}
+                </span>
+              )}
+              {profile ? 'Edit profile' : 'Set up profile'}
+            </button>
+          )}
         </div>
         
         {/* Tabs */}
@@ -50,7 +104,11 @@ export const Collaborators = () => {
       <div className="max-w-7xl mx-auto px-6 lg:px-8 py-6">
         {activeTab === 'announcements' && (
           <AnnouncementsTab
+            campaigns={campaigns}
+            isLoading={isCampaignsLoading}
             enrollments={enrollments}
+            getBudget={getCampaignBudget}
+            getAccess={getCampaignAccess}
             onEnroll={enrollInCampaign}
           />
         )}
@@ -58,20 +116,44 @@ export const Collaborators = () => {
         {activeTab === 'enrollments' && (
           <EnrollmentsTab
             enrollments={enrollments}
+            conversions={conversions}
+            referralClicks={referralClicks}
             onUpload={uploadFile}
+            uploads={uploads}
+            onCancelUpload={cancelUpload}
+            onRetryUpload={retryUpload}
             onSubmit={submitForReview}
           />
         )}
 
         {activeTab === 'analytics' && (
-          <AnalyticsTab enrollments={enrollments} />
+          <AnalyticsTab
+            enrollments={enrollments}
+            conversions={conversions}
+            conversionsError={conversionsError}
+            referralClicks={referralClicks}
+            ledger={ledger}
+            payoutMethod={payoutMethod}
+            payouts={payouts}
+            onSavePayoutMethod={savePayoutMethod}
+            onWithdraw={withdrawEarnings}
+          />
         )}
 
         {activeTab === 'leaderboard' && (
           <LeaderboardTab
-            enrollments={enrollments}
+            campaigns={campaigns}
+            xpLog={xpLog}
+            you={you}
+            hasProfile={profile !== null}
+            tierStanding={tierStanding}
+            achievements={achievements}
+            postingStreak={postingStreak}
             collaborators={collaborators}
+            xpLogs={xpLogs}
             merchantLeaderboard={merchantLeaderboard}
+            follows={follows}
+            onToggleFollow={toggleFollow}
           />
         )}
       </div>
@@ -87,6 +169,20 @@ export const Collaborators = () => {
         onToggle={() => setDemoExpanded(!isDemoExpanded)}
       />
 
+      {/* Onboarding / Profile Editor */}
+      {showProfileEditor && (
+        <ProfileEditorModal
+          profile={profile}
+          takenHandles={collaborators.map(c => c.handle)}
+          onSave={saveProfile}
+          onUploadAvatar={uploadAvatar}
+          onClose={() => {
+            setEditingProfile(false);
+            setOnboardingDismissed(true);
+          }}
+        />
+      )}
+
       {/* Toast */}
       {toast && <Toast message={toast.message} type={toast.type} />}
     </div>
@@ -0,0 +1,165 @@
+import type {
+  CollaboratorProfile,
+  Enrollment,
+  LeaderboardRange,
+  LeaderboardRow,
+  LeaderboardWindow,
+  SeasonRecord,
+  XPEvent,
+} from './types';
+import { getApprovalTimes, getMonthStart, sumXP, withXPFromLog } from './xpEngine';
+import { getSeasonEndTiers, getSeasonsBetween, getSeason, getTierStanding } from './seasons';
+
+/**
+ * Collaborator rankings for a leaderboard window, summed from XP event logs.
+ * Ties are broken by approvals in the window, then by who reached their XP
+ * first, then by handle, so the order never changes between renders.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const startOfDay = (date: Date): Date => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+export const getWeekStart = (now = new Date()): Date => {
+  const start = startOfDay(now);
+  start.setDate(start.getDate() - start.getDay());
+  return start;
+};
+
+// "2026-03-10" in local time, as produced by <input type="date">
+const parseDateInput = (value: string): Date | null => {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+};
+
+export const toDateInputValue = (date: Date): string =>
+  [date.getFullYear(), String(date.getMonth() + 1).padStart(2, '0'), String(date.getDate()).padStart(2, '0')].join('-');
+
+// The last 30 days, including today
+export const getDefaultCustomDates = (now = new Date()): { from: string; to: string } => ({
+  from: toDateInputValue(new Date(startOfDay(now).getTime() - 29 * DAY_MS)),
+  to: toDateInputValue(now),
+});
+
+// Custom dates are whole days, both inclusive; reversed dates are swapped
+export const getLeaderboardRange = (
+  window: LeaderboardWindow,
+  now = new Date(),
+  customDates?: { from: string; to: string },
+): LeaderboardRange => {
+  switch (window) {
+    case 'weekly':
+      return { from: getWeekStart(now), to: now };
+    case 'monthly':
+      return { from: getMonthStart(now), to: now };
+    case 'season':
+      return { from: getSeason(now).startsAt, to: now };
+    case 'allTime':
+      return { from: null, to: now };
+    case 'custom': {
+      const first = parseDateInput(customDates?.from ?? '');
+      const last = parseDateInput(customDates?.to ?? '');
+      if (!first || !last) return { from: null, to: now };
+      const [from, to] = first <= last ? [first, last] : [last, first];
+      return { from, to: new Date(to.getTime() + DAY_MS) };
+    }
+  }
+};
+
+export const isInRange = (at: Date, range: LeaderboardRange): boolean =>
+  (range.from === null || at >= range.from) && at < range.to;
+
+export interface RankingEntry {
+  collaborator: CollaboratorProfile;
+  events: XPEvent[];
+  isYou?: boolean;
+}
+
+export const rankCollaborators = (entries: RankingEntry[], range: LeaderboardRange): LeaderboardRow[] =>
+  entries
+    .map(({ collaborator, events, isYou = false }) => {
+      const counted = events.filter(e => isInRange(e.at, range));
+      return {
+        row: {
+          ...collaborator,
+          rank: 0,
+          windowXP: counted.reduce((sum, e) => sum + e.xp, 0),
+          windowApprovals: counted.filter(e => e.kind === 'approval').length,
+          isYou,
+        },
+        // When the window total was reached; earlier wins a tie
+        reachedAt: counted.reduce((latest, e) => Math.max(latest, e.at.getTime()), 0),
+      };
+    })
+    .sort((a, b) =>
+      b.row.windowXP - a.row.windowXP
+      || b.row.windowApprovals - a.row.windowApprovals
+      || a.reachedAt - b.reachedAt
+      || a.row.handle.localeCompare(b.row.handle)
+      || a.row.id.localeCompare(b.row.id)
+    )
+    .map(({ row }, i) => ({ ...row, rank: i + 1 }));
+
+// The current creator as a leaderboard entry: their saved profile, or a
+// placeholder until they have one, with figures from their own enrollments and log
+export const buildYourProfile = (
+  id: string,
+  enrollments: Enrollment[],
+  events: XPEvent[],
+  profile: CollaboratorProfile | null = null,
+  now = new Date(),
+): CollaboratorProfile => {
+  const figures: Pick<CollaboratorProfile, 'tier' | 'approvedCount' | 'totalXP' | 'topCampaigns'> = {
+    tier: 'rookie', // Replaced by the seasonal tier from the log
+    approvedCount: enrollments.filter(e => e.status === 'approved').length,
+    totalXP: 0,
+    topCampaigns: [],
+  };
+  if (profile) return withXPFromLog({ ...profile, ...figures }, events);
+
+  const firstEnrolledAt = enrollments.reduce((first, e) => (e.enrolledAt < first ? e.enrolledAt : first), now);
+  return withXPFromLog({
+    id,
+    handle: 'You',
+    avatar: '',
+    ...figures,
+    joinedDate: firstEnrolledAt.toLocaleDateString('en-US', { month: 'short', year: 'numeric' }),
+  }, events);
+};
+
+// Tier, XP and leaderboard rank for a collaborator's latest seasons, newest first
+export const buildSeasonHistory = (
+  collaboratorId: string,
+  entries: RankingEntry[],
+  now = new Date(),
+  limit = 4,
+): SeasonRecord[] => {
+  const events = entries.find(entry => entry.collaborator.id === collaboratorId)?.events ?? [];
+  if (events.length === 0) return [];
+
+  const approvalTimes = getApprovalTimes(events);
+  const seasonEndTiers = getSeasonEndTiers(approvalTimes, now);
+  const firstEventAt = new Date(Math.min(...events.map(e => e.at.getTime())));
+
+  return getSeasonsBetween(firstEventAt, now)
+    .slice(-limit)
+    .map(season => {
+      const isCurrent = season.endsAt > now;
+      const range = { from: season.startsAt, to: isCurrent ? now : season.endsAt };
+      const row = rankCollaborators(entries, range).find(r => r.id === collaboratorId);
+      const seasonEvents = events.filter(e => isInRange(e.at, range));
+      return {
+        season,
+        tier: isCurrent ? getTierStanding(approvalTimes, now).tier : seasonEndTiers.get(season.id) ?? 'rookie',
+        approvals: seasonEvents.filter(e => e.kind === 'approval').length,
+        xp: sumXP(seasonEvents),
+        rank: row && row.windowXP > 0 ? row.rank : null,
+        isCurrent,
+      };
+    })
+    .reverse();
+};
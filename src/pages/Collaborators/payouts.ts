@@ -0,0 +1,84 @@
+import type { LedgerEntry, Payout, PayoutMethod } from './types';
+import { MIN_PAYOUT_AMOUNT } from './constants';
+
+/**
+ * Payout rules: validating a payout method, deciding whether a withdrawal
+ * can be requested, and building the request from the withdrawable entries.
+ */
+
+// Qatar IBANs: QA, 2 check digits, 4-letter bank code, 21 account characters
+const IBAN_LENGTHS: Record<string, number> = { QA: 29 };
+
+export const normalizeIban = (iban: string): string => iban.replace(/\s+/g, '').toUpperCase();
+
+// ISO 13616 check: move the first four characters to the end, letters to numbers, mod 97 must be 1
+export const isValidIban = (value: string): boolean => {
+  const iban = normalizeIban(value);
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) return false;
+
+  const expectedLength = IBAN_LENGTHS[iban.slice(0, 2)];
+  if (expectedLength && iban.length !== expectedLength) return false;
+
+  const digits = (iban.slice(4) + iban.slice(0, 4)).replace(/[A-Z]/g, letter => String(letter.charCodeAt(0) - 55));
+  let remainder = 0;
+  for (const digit of digits) {
+    remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder === 1;
+};
+
+// Qatari mobile numbers: 8 digits starting with 3, 5, 6 or 7, optional +974
+const isValidQatarPhone = (value: string): boolean =>
+  /^(\+?974)?[3567]\d{7}$/.test(value.replace(/[\s-]/g, ''));
+
+// Problem with a payout method, or null if it can be saved
+export const validatePayoutMethod = (method: PayoutMethod): string | null => {
+  if (method.type === 'iban') {
+    if (!method.accountName.trim()) return 'Enter the account holder name';
+    if (!isValidIban(method.iban)) return 'Enter a valid IBAN (Qatar IBANs start with QA and have 29 characters)';
+    return null;
+  }
+  if (!method.provider) return 'Choose a wallet provider';
+  if (!isValidQatarPhone(method.phoneNumber)) return 'Enter a valid Qatari mobile number';
+  return null;
+};
+
+// "IBAN •••• 4821" / "Ooredoo Money •••• 5678"
+export const describePayoutMethod = (method: PayoutMethod): string =>
+  method.type === 'iban'
+    ? `IBAN •••• ${normalizeIban(method.iban).slice(-4)}`
+    : `${method.provider} •••• ${method.phoneNumber.replace(/\D/g, '').slice(-4)}`;
+
+export const isPayoutInFlight = (payout: Payout): boolean =>
+  payout.status === 'requested' || payout.status === 'processing';
+
+export const getNetAmount = (entries: LedgerEntry[], debits: LedgerEntry[] = []): number =>
+  Math.round((entries.reduce((sum, e) => sum + e.amount, 0) - debits.reduce((sum, e) => sum + e.amount, 0)) * 100) / 100;
+
+// Why a withdrawal can't be requested right now, or null if it can
+export const getPayoutBlocker = (
+  available: number,
+  method: PayoutMethod | null,
+  payouts: Payout[],
+): string | null => {
+  if (!method) return 'Add a payout method first';
+  if (payouts.some(isPayoutInFlight)) return 'Your previous withdrawal is still being processed';
+  if (available < MIN_PAYOUT_AMOUNT) return `Minimum withdrawal is ${MIN_PAYOUT_AMOUNT} QAR`;
+  return null;
+};
+
+// Withdrawal of everything in `entries` to the given method, less the owed
+// rewards in `debits` (entries reversed after an earlier payout)
+export const createPayout = (entries: LedgerEntry[], method: PayoutMethod, debits: LedgerEntry[] = []): Payout => {
+  const requestedAt = new Date();
+  return {
+    id: `payout-${crypto.randomUUID()}`,
+    amount: getNetAmount(entries, debits),
+    method,
+    status: 'requested',
+    entryIds: entries.map(e => e.id),
+    debitEntryIds: debits.length > 0 ? debits.map(e => e.id) : undefined,
+    requestedAt,
+    updatedAt: requestedAt,
+  };
+};
@@ -0,0 +1,73 @@
+import type { Campaign, CollaboratorProfile, DailyDataPoint, SocialAccount, VerticalHistory, XPEvent } from './types';
+import { getWeekStart } from './leaderboardRanking';
+
+/**
+ * Public collaborator profiles at /collaborators/u/:handle: how handles map to
+ * URLs, and the campaign history and XP trend read from a collaborator's log.
+ */
+
+// ==================== URLS ====================
+// "@yusuf_fares" and "yusuf_fares" are the same handle; case is ignored
+export const normalizeHandle = (handle: string): string => handle.replace(/^@/, '').toLowerCase();
+
+export const getProfilePath = (handle: string): string =>
+  `/collaborators/u/${encodeURIComponent(handle.replace(/^@/, ''))}`;
+
+export const findCollaboratorByHandle = (
+  collaborators: CollaboratorProfile[],
+  handle: string,
+): CollaboratorProfile | null =>
+  collaborators.find(c => normalizeHandle(c.handle) === normalizeHandle(handle)) ?? null;
+
+const socialUrlPrefixes: Record<SocialAccount['platform'], string> = {
+  tiktok: 'https://www.tiktok.com/@',
+  instagram: 'https://www.instagram.com/',
+  snapchat: 'https://www.snapchat.com/add/',
+};
+
+export const getSocialUrl = (account: SocialAccount): string =>
+  socialUrlPrefixes[account.platform] + encodeURIComponent(account.handle.replace(/^@/, ''));
+
+// ==================== HISTORY ====================
+// Verticals by XP earned, each with its campaigns by XP; verticals come from
+// the loaded campaigns, matched by merchant
+export const getCampaignHistoryByVertical = (events: XPEvent[], campaigns: Campaign[]): VerticalHistory[] => {
+  const campaignByMerchant = new Map(campaigns.map(c => [c.merchant, c]));
+  const verticals = new Map<string, VerticalHistory>();
+  events.forEach(e => {
+    const campaign = campaignByMerchant.get(e.merchant);
+    const vertical = verticals.get(campaign?.vertical ?? 'Other') ?? { vertical: campaign?.vertical ?? 'Other', xp: 0, campaigns: [] };
+    let entry = vertical.campaigns.find(c => c.merchant === e.merchant);
+    if (!entry) {
+      entry = { merchant: e.merchant, logo: e.logo, category: campaign?.category ?? '', xp: 0, approvals: 0 };
+      vertical.campaigns.push(entry);
+    }
+    entry.xp += e.xp;
+    if (e.kind === 'approval') entry.approvals += 1;
+    vertical.xp += e.xp;
+    verticals.set(vertical.vertical, vertical);
+  });
+
+  return [...verticals.values()]
+    .map(v => ({ ...v, campaigns: v.campaigns.filter(c => c.xp > 0).sort((a, b) => b.xp - a.xp) }))
+    .filter(v => v.campaigns.length > 0)
+    .sort((a, b) => b.xp - a.xp);
+};
+
+// XP earned per week (from Sunday) for the last `weeks` weeks, oldest first
+export const getXPTrend = (events: XPEvent[], now = new Date(), weeks = 12): DailyDataPoint[] => {
+  const currentWeek = getWeekStart(now);
+  return Array.from({ length: weeks }, (_, i) => {
+    const from = new Date(currentWeek.getFullYear(), currentWeek.getMonth(), currentWeek.getDate() - 7 * (weeks - 1 - i));
+    const to = new Date(from.getFullYear(), from.getMonth(), from.getDate() + 7);
+    const xp = events
+      .filter(e => e.at >= from && e.at < to && e.at <= now)
+      .reduce((sum, e) => sum + e.xp, 0);
+    return {
+      date: from.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+      clicks: 0,
+      orders: 0,
+      xp,
+    };
+  });
+};
@@ -0,0 +1,80 @@
+import type { Enrollment, ReferralClick, ReferralPlatform } from './types';
+import { referralPlatforms, REFERRAL_UTM_MEDIUM } from './constants';
+
+/**
+ * Referral links: short codes minted per approved enrollment,
+ * the public URL built from them, and click attribution helpers.
+ */
+
+// The app's own /r/:code landing route (see App.tsx), under the base path it is served from
+export const REFERRAL_BASE_URL = `${window.location.origin}${import.meta.env.BASE_URL}r`;
+
+// No 0/o, 1/l/i so codes survive being read out loud or retyped from a video
+const CODE_ALPHABET = '23456789abcdefghjkmnpqrstuvwxyz';
+const CODE_LENGTH = 7;
+
+const KNOWN_SOURCES: Record<string, string> = {
+  'tiktok.com': 'tiktok',
+  'instagram.com': 'instagram',
+  'snapchat.com': 'snapchat',
+};
+
+// Random code not already in `taken` (31^7 ≈ 27 billion combinations)
+export const mintReferralCode = (taken: ReadonlySet<string> = new Set()): string => {
+  const bytes = new Uint8Array(CODE_LENGTH);
+  for (;;) {
+    crypto.getRandomValues(bytes);
+    const code = Array.from(bytes, b => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('');
+    if (!taken.has(code)) return code;
+  }
+};
+
+export const buildReferralUrl = (code: string): string => `${REFERRAL_BASE_URL}/${code}`;
+
+// Same link tagged for one platform; clicks on it are attributed through utm_source
+export const buildPlatformReferralUrl = (referralUrl: string, platform: ReferralPlatform): string => {
+  const url = new URL(referralUrl);
+  url.searchParams.set('utm_source', platform);
+  url.searchParams.set('utm_medium', REFERRAL_UTM_MEDIUM);
+  return url.toString();
+};
+
+export const isReferralPlatform = (source: string): source is ReferralPlatform => source in referralPlatforms;
+
+// "tiktok" -> "TikTok", "direct" -> "Direct", other sources (referring hosts) as they are
+export const getSourceLabel = (source: string): string => {
+  if (isReferralPlatform(source)) return referralPlatforms[source].label;
+  return source === 'direct' ? 'Direct' : source;
+};
+
+export const getReferralCodes = (enrollments: Enrollment[]): Set<string> =>
+  new Set(enrollments.flatMap(e => (e.referralCode ? [e.referralCode] : [])));
+
+// Where a click came from: an explicit utm_source, else the referring site, else 'direct'
+export const getClickSource = (search: string, referrer: string): string => {
+  const utmSource = new URLSearchParams(search).get('utm_source');
+  if (utmSource) return utmSource.toLowerCase();
+
+  try {
+    const host = new URL(referrer).hostname.replace(/^www\./, '');
+    const known = Object.keys(KNOWN_SOURCES).find(domain => host === domain || host.endsWith(`.${domain}`));
+    return known ? KNOWN_SOURCES[known] : host;
+  } catch {
+    return 'direct';
+  }
+};
+
+export const createReferralClick = (enrollment: Enrollment, source: string, userAgent: string): ReferralClick => ({
+  id: crypto.randomUUID(),
+  code: enrollment.referralCode ?? '',
+  enrollmentId: enrollment.id,
+  clickedAt: new Date(),
+  source,
+  userAgent,
+});
+
+export const countClicksByEnrollment = (clicks: ReferralClick[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  clicks.forEach(c => counts.set(c.enrollmentId, (counts.get(c.enrollmentId) ?? 0) + 1));
+  return counts;
+};
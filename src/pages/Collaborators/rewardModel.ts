@@ -0,0 +1,62 @@
+import type { Campaign, EarningEstimate, RewardTerms } from './types';
+
+/**
+ * Structured reward terms for a campaign and the earnings calculator
+ * shared by the campaign estimator and the conversion pipeline.
+ */
+
+const parseNumber = (value: string | undefined): number | null => {
+  if (value === undefined) return null;
+  const number = Number(value.replace(/,/g, ''));
+  return Number.isFinite(number) ? number : null;
+};
+
+// ==================== PARSING ====================
+// Accepts e.g. discount "25% off up to 25 QAR", reward "16% of discount value"
+// or "5% of order value", minOrder "Min order 35 QAR"
+export const parseRewardTerms = (campaign: Pick<Campaign, 'discount' | 'reward' | 'minOrder'>): RewardTerms => {
+  const discount = campaign.discount.toLowerCase();
+  const reward = campaign.reward.toLowerCase();
+
+  return {
+    discountPercent: parseNumber(discount.match(/(\d+(?:\.\d+)?)\s*%/)?.[1]) ?? 0,
+    discountCap: parseNumber(discount.match(/up to\s*([\d,]+(?:\.\d+)?)/)?.[1]),
+    minOrder: parseNumber(campaign.minOrder.match(/([\d,]+(?:\.\d+)?)/)?.[1]) ?? 0,
+    rewardPercent: parseNumber(reward.match(/(\d+(?:\.\d+)?)\s*%/)?.[1]) ?? 0,
+    rewardBasis: /order (value|total)/.test(reward) ? 'order-value' : 'discount-value',
+  };
+};
+
+// Stored terms win; older campaign rows only have the display strings
+export const getRewardTerms = (campaign: Campaign): RewardTerms =>
+  campaign.rewardTerms ?? parseRewardTerms(campaign);
+
+// ==================== CALCULATOR ====================
+const roundQar = (value: number): number => Math.round(value * 100) / 100;
+
+// Customer discount and creator reward for an order of `orderValue` QAR,
+// with the creator's tier boost added on top of the campaign reward
+export const calculateEarning = (terms: RewardTerms, orderValue: number, rewardBoostPercent = 0): EarningEstimate => {
+  if (orderValue <= 0 || orderValue < terms.minOrder) {
+    return { eligible: false, discount: 0, earning: 0, boost: 0 };
+  }
+
+  const uncappedDiscount = (orderValue * terms.discountPercent) / 100;
+  const discount = terms.discountCap === null ? uncappedDiscount : Math.min(uncappedDiscount, terms.discountCap);
+  const base = terms.rewardBasis === 'discount-value' ? discount : orderValue;
+  const reward = (base * terms.rewardPercent) / 100;
+  const boost = roundQar((reward * rewardBoostPercent) / 100);
+
+  return {
+    eligible: true,
+    discount: roundQar(discount),
+    earning: roundQar(reward) + boost,
+    boost,
+  };
+};
+
+// Smallest order that gets the full capped discount, or null when uncapped
+export const getFullDiscountOrderValue = (terms: RewardTerms): number | null =>
+  terms.discountCap === null || terms.discountPercent <= 0
+    ? null
+    : Math.max(terms.minOrder, Math.ceil((terms.discountCap * 100) / terms.discountPercent));
@@ -0,0 +1,100 @@
+import type { Season, Tier, TierStanding } from './types';
+import { TIER_ACTIVITY_DAYS, TIER_GRACE_DAYS, tierOrder } from './constants';
+import { computeTier, getProgressToNextTier } from './utils';
+
+/**
+ * Quarterly seasons and the tier a collaborator holds through them.
+ * Tiers come from approvals in a rolling window, so they can go down as well
+ * as up: a collaborator whose window no longer earns their tier at a season's
+ * end keeps it for a grace period, then drops to what the window earns.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ==================== CALENDAR ====================
+export const getSeason = (date: Date): Season => {
+  const quarter = Math.floor(date.getMonth() / 3);
+  const year = date.getFullYear();
+  return {
+    id: `${year}-Q${quarter + 1}`,
+    label: `Q${quarter + 1} ${year}`,
+    startsAt: new Date(year, quarter * 3, 1),
+    endsAt: new Date(year, quarter * 3 + 3, 1),
+  };
+};
+
+// Every season from the one containing `from` through the one containing `to`
+export const getSeasonsBetween = (from: Date, to: Date): Season[] => {
+  const seasons: Season[] = [];
+  for (let season = getSeason(from); season.startsAt <= to; season = getSeason(season.endsAt)) {
+    seasons.push(season);
+  }
+  return seasons;
+};
+
+// ==================== TIER REPLAY ====================
+const isBelow = (tier: Tier, other: Tier): boolean => tierOrder.indexOf(tier) < tierOrder.indexOf(other);
+
+interface TierReplay {
+  tier: Tier;
+  rollingApprovals: number;
+  seasonEndTiers: Map<string, Tier>; // Season id -> tier held when it ended
+  demotion: { to: Tier; at: Date } | null;
+}
+
+// Walks approvals, season ends and grace period ends in order up to `now`
+const replayTiers = (approvalTimes: Date[], now: Date): TierReplay => {
+  const times = approvalTimes.map(at => at.getTime()).filter(at => at <= now.getTime());
+  const countRolling = (at: number) => times.filter(t => t <= at && t > at - TIER_ACTIVITY_DAYS * DAY_MS).length;
+  const rollingTier = (at: number) => computeTier(countRolling(at));
+  const seasonEndTiers = new Map<string, Tier>();
+
+  let tier: Tier = 'rookie';
+  let atRiskUntil: number | null = null;
+  if (times.length === 0) return { tier, rollingApprovals: 0, seasonEndTiers, demotion: null };
+
+  const checkpoints = [
+    ...times.map(at => ({ at, season: null as Season | null })),
+    ...getSeasonsBetween(new Date(Math.min(...times)), now)
+      .filter(season => season.endsAt <= now)
+      .map(season => ({ at: season.endsAt.getTime(), season })),
+  ].sort((a, b) => a.at - b.at);
+
+  const settleGracePeriod = (before: number) => {
+    if (atRiskUntil === null || atRiskUntil > before) return;
+    const earned = rollingTier(atRiskUntil);
+    if (isBelow(earned, tier)) tier = earned;
+    atRiskUntil = null;
+  };
+
+  checkpoints.forEach(({ at, season }) => {
+    settleGracePeriod(at);
+    if (season) {
+      seasonEndTiers.set(season.id, tier);
+      if (isBelow(rollingTier(at), tier)) atRiskUntil = at + TIER_GRACE_DAYS * DAY_MS;
+    } else {
+      const earned = rollingTier(at);
+      if (isBelow(tier, earned)) tier = earned;
+    }
+  });
+  settleGracePeriod(now.getTime());
+
+  const rollingApprovals = countRolling(now.getTime());
+  const projected = computeTier(rollingApprovals);
+  return {
+    tier,
+    rollingApprovals,
+    seasonEndTiers,
+    demotion: atRiskUntil !== null && isBelow(projected, tier) ? { to: projected, at: new Date(atRiskUntil) } : null,
+  };
+};
+
+export const getTierStanding = (approvalTimes: Date[], now = new Date()): TierStanding => {
+  const { tier, rollingApprovals, demotion } = replayTiers(approvalTimes, now);
+  return { tier, rollingApprovals, progress: getProgressToNextTier(rollingApprovals, tier), demotion };
+};
+
+export const getTierAt = (approvalTimes: Date[], at: Date): Tier => replayTiers(approvalTimes, at).tier;
+
+export const getSeasonEndTiers = (approvalTimes: Date[], now = new Date()): Map<string, Tier> =>
+  replayTiers(approvalTimes, now).seasonEndTiers;
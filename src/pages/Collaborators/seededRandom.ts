@@ -0,0 +1,22 @@
+/**
+ * Deterministic random numbers for local fixtures: the same seed string
+ * always produces the same sequence, so generated data is stable across reloads.
+ */
+
+// FNV-1a string hash, used as the generator seed
+export const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32: small, fast PRNG with good enough distribution for fixtures
+export const createSeededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
@@ -0,0 +1,75 @@
+import type { Campaign, CampaignTierAccess, Enrollment, Tier, TierBenefits, TierStanding } from './types';
+import { tierConfig, tierOrder } from './constants';
+import { getCampaignPhase, getCampaignSchedule, isAcceptingEnrollments } from './campaignLifecycle';
+import { canResubmit, enteredCurrentStatusAt, isTerminalState } from './enrollmentStateMachine';
+import { getTierAt } from './seasons';
+
+/**
+ * What each tier unlocks: a boost on campaign rewards, enrollment before a
+ * campaign's public start, more enrollments in progress at once, and
+ * campaigns that require a minimum tier.
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const getTierBenefits = (tier: Tier): TierBenefits => tierConfig[tier].benefits;
+
+export const meetsTier = (tier: Tier, required: Tier): boolean =>
+  tierOrder.indexOf(tier) >= tierOrder.indexOf(required);
+
+// ==================== EARLY ACCESS ====================
+// When enrollment opens for the tier, or null if the campaign has no start date
+export const getEnrollmentOpensAt = (campaign: Campaign, tier: Tier): Date | null => {
+  const { startsAt } = getCampaignSchedule(campaign);
+  return startsAt && new Date(startsAt.getTime() - getTierBenefits(tier).earlyAccessHours * HOUR_MS);
+};
+
+export const hasEarlyAccess = (campaign: Campaign, tier: Tier, now = new Date()): boolean => {
+  const opensAt = getEnrollmentOpensAt(campaign, tier);
+  return getCampaignPhase(campaign, now) === 'upcoming' && opensAt !== null && now >= opensAt;
+};
+
+// Live campaigns, plus upcoming ones inside the tier's early access window
+export const isOpenToTier = (campaign: Campaign, tier: Tier, now = new Date()): boolean =>
+  isAcceptingEnrollments(campaign, now) || hasEarlyAccess(campaign, tier, now);
+
+// ==================== ACCESS ====================
+export const getCampaignTierAccess = (campaign: Campaign, standing: TierStanding, now = new Date()): CampaignTierAccess => {
+  const { tier } = standing;
+  const requiredTier = campaign.minTier ?? null;
+  const locked = requiredTier !== null && !meetsTier(tier, requiredTier);
+
+  return {
+    tier,
+    requiredTier,
+    locked,
+    approvalsNeeded: locked ? Math.max(tierConfig[requiredTier].threshold - standing.rollingApprovals, 1) : 0,
+    progress: standing.progress,
+    earlyAccess: !locked && hasEarlyAccess(campaign, tier, now),
+  };
+};
+
+// ==================== ENROLLMENT LIMIT ====================
+// Still in progress: not approved or closed, and not out of resubmissions
+export const isActiveEnrollment = (enrollment: Enrollment): boolean =>
+  !isTerminalState(enrollment.status) && (enrollment.status !== 'rejected' || canResubmit(enrollment));
+
+// Why the tier allows no more enrollments right now, or null if it does
+export const getEnrollmentLimitBlocker = (enrollments: Enrollment[], tier: Tier): string | null => {
+  const { maxActiveEnrollments } = getTierBenefits(tier);
+  const active = enrollments.filter(isActiveEnrollment).length;
+  return active >= maxActiveEnrollments
+    ? `${tierConfig[tier].label} creators can have ${maxActiveEnrollments} enrollments in progress. Finish one to join another.`
+    : null;
+};
+
+// ==================== REWARD BOOST ====================
+// Tier held right after each approval; that enrollment's orders earn its boost
+export const getTiersAtApproval = (enrollments: Enrollment[]): Map<string, Tier> => {
+  const approvals = enrollments
+    .filter(e => e.status === 'approved')
+    .map(enrollment => ({ id: enrollment.id, at: enteredCurrentStatusAt(enrollment) }))
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+  const approvalTimes = approvals.map(approval => approval.at);
+  return new Map(approvals.map(({ id, at }, index) => [id, getTierAt(approvalTimes.slice(0, index + 1), at)]));
+};
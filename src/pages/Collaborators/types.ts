@@ -1,8 +1,16 @@
 // ==================== TYPES ====================
 
 export type Tab = 'announcements' | 'enrollments' | 'analytics' | 'leaderboard';
-export type EnrollmentStatus = 'enrolled' | 'uploaded' | 'processing' | 'under-review' | 'approved' | 'rejected';
+export type EnrollmentStatus =
+  | 'enrolled'
+  | 'uploaded'
+  | 'processing'
+  | 'under-review'
+  | 'approved'
+  | 'rejected'
+  | 'campaign-ended'; // Closed because the campaign ended before the enrollment was approved
 export type DateRange = '7d' | '30d' | 'all';
+export type TimeRange = 'daily' | 'weekly' | 'monthly' | 'yearly';
 export type Tier = 'rookie' | 'bronze' | 'silver' | 'gold' | 'platinum';
 
 export interface Campaign {
@@ -17,25 +25,138 @@ export interface Campaign {
   minOrder: string;
   videoReq: string;
   requirements: string[];
-  budget: string;
-  timeline: string;
+  budget: string; // Display text, e.g. "600 referrals available"
+  timeline: string; // Display text, e.g. "Campaign runs until Mar 10, 2026"
+  startsAt?: string; // ISO timestamps; strings so enrollment snapshots survive JSON round-trips
+  endsAt?: string; // Parsed from timeline when not stored
   reviewNotes: string;
   productImage?: string;
   productName?: string;
+  maxAttempts?: number; // Submissions allowed per enrollment, DEFAULT_MAX_ATTEMPTS when unset
+  rewardTerms?: RewardTerms; // Parsed from discount/reward/minOrder when not stored
+  budgetTotal?: number; // Referrals the merchant pays for, parsed from budget when not stored
+  budgetUsed?: number; // Credited referrals across all creators, when the backend tracks it
+  minTier?: Tier; // Lowest tier allowed to enroll, open to everyone when unset
+}
+
+// Where a campaign is in its schedule; ending-soon campaigns are still live
+export type CampaignPhase = 'upcoming' | 'live' | 'ending-soon' | 'ended';
+
+export interface CampaignPhaseInfo {
+  phase: CampaignPhase;
+  label: string; // Badge text, with a countdown for upcoming and ending-soon campaigns
+}
+
+export interface CampaignSchedule {
+  startsAt: Date | null; // null when only the end date is known
+  endsAt: Date | null; // null for open-ended campaigns
+}
+
+export type CampaignBudgetState = 'open' | 'low' | 'exhausted';
+
+// Referral budget after the conversions credited so far
+export interface CampaignBudget {
+  total: number;
+  used: number;
+  remaining: number;
+  state: CampaignBudgetState;
+}
+
+// What the creator's reward percentage is applied to
+export type RewardBasis = 'discount-value' | 'order-value';
+
+export interface RewardTerms {
+  discountPercent: number; // Customer discount, % of the order value
+  discountCap: number | null; // QAR
+  minOrder: number; // QAR, orders below it get no discount and no reward
+  rewardPercent: number;
+  rewardBasis: RewardBasis;
+}
+
+export interface EarningEstimate {
+  eligible: boolean; // Order meets the minimum
+  discount: number; // QAR off for the customer
+  earning: number; // QAR for the creator, tier boost included
+  boost: number; // QAR of the earning that comes from the creator's tier
 }
 
 export interface Enrollment {
   id: string;
   campaign: Campaign;
   status: EnrollmentStatus;
+  referralCode?: string; // Short code minted on approval, resolves back to this enrollment
   referralUrl?: string;
-  uploadedFile?: { name: string; size: number };
+  uploadedFile?: UploadedFile;
   rejectionReason?: string;
-  stats?: { clicks: number; orders: number; earnings: number };
   clicks: number;
   orders: number;
   earnings: number;
   enrolledAt: Date;
+  history: StatusChange[]; // Oldest first
+}
+
+export interface StatusChange {
+  from: EnrollmentStatus | null; // null for the initial enrollment
+  to: EnrollmentStatus;
+  at: Date;
+  note?: string;
+}
+
+export interface UploadedFile {
+  name: string;
+  size: number;
+  url?: string;         // Playback URL of the stored video
+  storagePath?: string; // Object path inside the enrollment-videos bucket
+}
+
+export interface UploadState {
+  status: 'uploading' | 'failed';
+  fileName: string;
+  bytesUploaded: number;
+  bytesTotal: number;
+  percentage: number;
+  error?: string;
+}
+
+// Structured form of Campaign.videoReq ("15-45 sec video, 9:16, max 200MB")
+export interface VideoRequirements {
+  minDurationSec?: number;
+  maxDurationSec?: number;
+  aspectRatio?: { width: number; height: number };
+  maxSizeMB?: number;
+}
+
+export interface VideoMetadata {
+  durationSec: number;
+  width: number;
+  height: number;
+}
+
+export interface VideoCheck {
+  id: 'format' | 'duration' | 'aspect-ratio' | 'size';
+  label: string;
+  passed: boolean;
+  detail: string;
+}
+
+// An enrollment waiting in the reviewer console, with the collaborator it belongs to
+export interface ReviewItem {
+  collaboratorId: string;
+  enrollment: Enrollment;
+}
+
+export interface RejectionReasonTemplate {
+  id: string;
+  label: string;
+  reason: string;
+}
+
+// Records the analytics tab aggregates, before merchant and time range filters
+export interface AnalyticsSources {
+  enrollments: Enrollment[];
+  conversions: ConversionRecord[];
+  clicks: ReferralClick[];
+  ledger: LedgerEntry[];
 }
 
 export interface AnalyticsData {
@@ -46,22 +167,114 @@ export interface AnalyticsData {
   availableEarnings: number;
   dailyData: DailyDataPoint[];
   recentConversions: ConversionRecord[];
+  sourceBreakdown: SourceStats[];
+}
+
+// pending -> cleared once the hold period ends -> paid by a payout; reversed claws the reward back
+export type LedgerEntryState = 'pending' | 'cleared' | 'paid' | 'reversed';
+
+// The reward earned on one conversion
+export interface LedgerEntry {
+  id: string;
+  enrollmentId: string;
+  orderId: string;
+  merchant: string;
+  amount: number;
+  state: LedgerEntryState;
+  earnedAt: Date;
+  clearsAt: Date; // End of the hold period
+  paidAt?: Date;
+  reversedAt?: Date;
+  reversalReason?: string;
+  payoutId?: string; // Payout that claimed this entry, while requested/processing or once paid
+  recoveredByPayoutId?: string; // Later payout that deducted this entry's reward after it was reversed
+  recoveredAt?: Date; // When that payout was paid
+}
+
+// Totals per ledger state, in QAR
+export interface EarningsBalance {
+  pending: number;
+  available: number; // Cleared and not claimed by a payout yet, less what is owed
+  withdrawing: number; // Cleared and claimed by a payout that is still in flight
+  paid: number;
+  reversed: number;
+  owed: number; // Reversed after being paid out; deducted from the next withdrawal
+}
+
+export type PayoutMethod =
+  | { type: 'iban'; accountName: string; iban: string }
+  | { type: 'wallet'; provider: string; phoneNumber: string };
+
+export type PayoutStatus = 'requested' | 'processing' | 'paid' | 'failed';
+
+export interface Payout {
+  id: string;
+  amount: number;
+  method: PayoutMethod;
+  status: PayoutStatus;
+  entryIds: string[]; // Ledger entries paid out by this withdrawal
+  debitEntryIds?: string[]; // Owed entries (reversed after payout) deducted from it
+  requestedAt: Date;
+  updatedAt: Date;
+  failureReason?: string;
+}
+
+// Platforms that get their own referral link variant
+export type ReferralPlatform = 'tiktok' | 'instagram' | 'snapchat';
+
+export interface ReferralPlatformConfig {
+  label: string;
+  color: string;
+}
+
+// Clicks and orders from one traffic source (a platform, 'direct' or a referring host)
+export interface SourceStats {
+  source: string;
+  clicks: number;
+  orders: number;
+  conversionRate: number;
+}
+
+export interface ReferralClick {
+  id: string;
+  code: string;
+  enrollmentId: string;
+  clickedAt: Date;
+  source: string; // utm_source, referrer host or 'direct'
+  userAgent: string;
+}
+
+export interface PerformanceStats {
+  clicks: number;
+  orders: number;
+  earnings: number;
 }
 
 export interface DailyDataPoint {
   date: string;
   clicks: number;
   orders: number;
+  xp?: number; // Set on XP trend points
+  earnings?: number; // Rewards on the point's orders, set on analytics points
 }
 
 export interface ConversionRecord {
+  enrollmentId: string;
   merchant: string;
-  amount: number;
+  amount: number; // Creator's reward for the order
+  orderValue?: number; // Order total in QAR, when the pipeline reports it
   date: string;
   orderId: string;
   timestamp: Date; // Actual date for filtering
-  status: 'Paid' | 'Open' | 'Pending';
   clicks: number; // Clicks associated with this conversion
+  source: string; // Source of the click that led to the order, like ReferralClick.source
+  reversal?: ConversionReversal; // Set once the order is cancelled or refunded
+  outOfBudget?: boolean; // Placed after the campaign's referral budget ran out, so it earns nothing
+}
+
+export interface ConversionReversal {
+  at: Date;
+  reason: string;
 }
 
 export interface CollaboratorProfile {
@@ -72,8 +285,76 @@ export interface CollaboratorProfile {
   approvedCount: number;
   totalXP: number;
   conversionRate?: number;
-  topCampaigns: { merchant: string; logo: string; xp: number }[];
+  topCampaigns: CampaignXP[];
   joinedDate: string;
+  bio?: string;
+  socials?: SocialAccount[];
+  categories?: string[]; // Content categories the creator posts in
+  payoutCountry?: string; // ISO country code
+}
+
+// A creator's account on a platform they post to
+export interface SocialAccount {
+  platform: ReferralPlatform;
+  handle: string; // Without the leading @
+  followers?: number;
+}
+
+// Campaigns a collaborator earned XP on, grouped by vertical
+export interface VerticalHistory {
+  vertical: string;
+  xp: number;
+  campaigns: { merchant: string; logo: string; category: string; xp: number; approvals: number }[];
+}
+
+export interface CampaignXP {
+  merchant: string;
+  logo: string;
+  xp: number;
+}
+
+// approval and quality-bonus come with an approved video, conversion with each
+// order it drives; reversal takes a conversion's XP back when the order is cancelled
+export type XPEventKind = 'approval' | 'quality-bonus' | 'conversion' | 'reversal';
+
+// One entry in a collaborator's append-only XP log
+export interface XPEvent {
+  id: string; // Derived from what earned it, so the same award is never logged twice
+  collaboratorId: string;
+  kind: XPEventKind;
+  xp: number; // Tier multiplier already applied; negative for reversals
+  at: Date;
+  enrollmentId: string;
+  merchant: string;
+  logo: string;
+  orderId?: string;
+}
+
+// Totals derived from an XP log
+export interface XPSummary {
+  totalXP: number;
+  monthlyXP: number; // Current calendar month
+  approvals: number;
+  monthlyApprovals: number;
+  topCampaigns: CampaignXP[];
+}
+
+export type LeaderboardWindow = 'weekly' | 'monthly' | 'season' | 'allTime' | 'custom';
+// Who is ranked: everyone, or only collaborators you follow (plus you)
+export type LeaderboardAudience = 'everyone' | 'following';
+
+// XP events at or after `from` and before `to` count; a null `from` counts everything before `to`
+export interface LeaderboardRange {
+  from: Date | null;
+  to: Date;
+}
+
+// A collaborator's standing for one leaderboard window
+export interface LeaderboardRow extends CollaboratorProfile {
+  rank: number;
+  windowXP: number;
+  windowApprovals: number;
+  isYou: boolean;
 }
 
 export interface MerchantLeaderboardEntry {
@@ -91,9 +372,37 @@ export interface DailyWinner {
   collaboratorId: string;
   handle: string;
   collaborator: CollaboratorProfile;
-  campaign: string;
+  campaign: string; // Campaign id
   merchant: string;
-  xpEarned: number;
+  xpEarned: number; // On the featured campaign that day
+}
+
+// ==================== FOLLOWS ====================
+// One edge in the follow graph
+export interface Follow {
+  followerId: string;
+  followeeId: string;
+}
+
+export interface FollowCounts {
+  followers: number;
+  following: number;
+}
+
+// ==================== DAILY CHALLENGE ====================
+// Most XP on the day's featured campaign wins
+export interface DailyChallenge {
+  day: Date; // Local midnight
+  campaign: Campaign | null; // null when no campaign is open that day
+  winner: DailyWinner | null; // null until someone earns XP on the campaign
+}
+
+// Consecutive days with a post; a streak stays alive until a full day is missed
+export interface PostingStreak {
+  current: number;
+  longest: number;
+  postedToday: boolean;
+  lastPostedAt: Date | null;
 }
 
 export interface TierConfig {
@@ -103,6 +412,79 @@ export interface TierConfig {
   bgColor: string;
   icon: string;
   gradient: string;
+  benefits: TierBenefits;
+}
+
+export interface TierBenefits {
+  rewardBoostPercent: number; // Added to the campaign reward on every order
+  earlyAccessHours: number; // Enrollment opens this long before a campaign starts
+  maxActiveEnrollments: number; // Enrollments not yet approved or closed
+}
+
+// ==================== SEASONS ====================
+// A calendar quarter; tiers can only drop at the end of one
+export interface Season {
+  id: string; // e.g. "2026-Q3"
+  label: string; // e.g. "Q3 2026"
+  startsAt: Date;
+  endsAt: Date; // Exclusive
+}
+
+// Tier held now, from approvals in the rolling activity window
+export interface TierStanding {
+  tier: Tier;
+  rollingApprovals: number;
+  progress: TierProgress; // Toward the next tier above the one held
+  demotion: { to: Tier; at: Date } | null; // Pending at the end of a grace period
+}
+
+export interface SeasonRecord {
+  season: Season;
+  tier: Tier; // Held when the season ended, or now for the current season
+  approvals: number;
+  xp: number;
+  rank: number | null; // On the XP leaderboard for the season
+  isCurrent: boolean;
+}
+
+// ==================== ACHIEVEMENTS ====================
+export type AchievementId = 'first-approval' | 'conversion-rush' | 'category-explorer' | 'weekly-streak';
+
+export interface AchievementConfig {
+  label: string;
+  description: string;
+  icon: string;
+  target: number; // Approvals, orders, categories or weeks needed to unlock
+}
+
+// An approval or an order, the events achievement rules are evaluated on
+export interface AchievementActivity {
+  kind: 'approval' | 'conversion';
+  at: Date;
+  category: string | null; // The campaign's category, when known
+}
+
+export interface Achievement {
+  achievementId: AchievementId;
+  collaboratorId: string;
+  unlockedAt: Date;
+}
+
+export interface AchievementStatus {
+  id: AchievementId;
+  progress: number; // Best so far, capped at the target
+  target: number;
+  unlockedAt: Date | null;
+}
+
+// Whether a creator's tier lets them join a campaign
+export interface CampaignTierAccess {
+  tier: Tier; // The creator's current tier
+  requiredTier: Tier | null;
+  locked: boolean;
+  approvalsNeeded: number; // To reach requiredTier, 0 when unlocked
+  progress: TierProgress; // Toward the creator's next tier
+  earlyAccess: boolean; // Upcoming campaign already open to this tier
 }
 
 export interface StatusConfig {
@@ -118,3 +500,16 @@ export interface TierProgress {
   target: number;
   percentage: number;
 }
+
+// ==================== CREATOR PROFILE ====================
+export type ProfileStep = 'identity' | 'socials' | 'interests';
+
+// What the onboarding flow and profile editor collect
+export interface ProfileDraft {
+  handle: string; // Without the leading @
+  avatar: string;
+  bio: string;
+  socials: SocialAccount[];
+  categories: string[];
+  payoutCountry: string;
+}
@@ -1,5 +1,21 @@
-import type { Tier, Enrollment, AnalyticsData, TierProgress } from './types';
+import type {
+  Tier,
+  Enrollment,
+  AnalyticsData,
+  AnalyticsSources,
+  TierProgress,
+  RejectionReasonTemplate,
+  ConversionRecord,
+  DailyDataPoint,
+  PerformanceStats,
+  ReferralClick,
+  SourceStats,
+  TimeRange,
+} from './types';
 import { tierConfig, tierOrder } from './constants';
+import { transitionEnrollment } from './enrollmentStateMachine';
+import { mintReferralCode, buildReferralUrl } from './referrals';
+import { summarizeLedger } from './earningsLedger';
 
 // ==================== TIER HELPERS ====================
 export const computeTier = (approvedCount: number): Tier => {
@@ -16,8 +32,8 @@ export const getNextTier = (currentTier: Tier): Tier | null => {
   return currentIndex < tierOrder.length - 1 ? tierOrder[currentIndex + 1] : null;
 };
 
-export const getProgressToNextTier = (approvedCount: number): TierProgress => {
-  const currentTier = computeTier(approvedCount);
+// currentTier can be above what approvedCount earns while a demotion is in its grace period
+export const getProgressToNextTier = (approvedCount: number, currentTier = computeTier(approvedCount)): TierProgress => {
   const nextTier = getNextTier(currentTier);
   
   if (!nextTier) {
@@ -26,7 +42,7 @@ export const getProgressToNextTier = (approvedCount: number): TierProgress => {
   
   const currentThreshold = tierConfig[currentTier].threshold;
   const nextThreshold = tierConfig[nextTier].threshold;
-  const progress = approvedCount - currentThreshold;
+  const progress = Math.max(approvedCount - currentThreshold, 0);
   const needed = nextThreshold - currentThreshold;
   
   return {
@@ -37,53 +53,239 @@ export const getProgressToNextTier = (approvedCount: number): TierProgress => {
 };
 
 // ==================== ANALYTICS HELPERS ====================
-export const generateAnalyticsData = (enrollments: Enrollment[]): AnalyticsData => {
-  const approvedEnrollments = enrollments.filter(e => e.status === 'approved');
-  const totalClicks = approvedEnrollments.reduce((sum, e) => sum + e.clicks, 0);
-  const totalOrders = approvedEnrollments.reduce((sum, e) => sum + e.orders, 0);
-  const totalEarnings = approvedEnrollments.reduce((sum, e) => sum + e.earnings, 0);
+// Check if a date falls within the time range
+export const isDateInRange = (date: Date, timeRange: TimeRange): boolean => {
+  const now = new Date();
+  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate());
   
-  // Generate daily data for charts
-  const dailyData = [];
-  for (let i = 29; i >= 0; i--) {
-    const date = new Date();
-    date.setDate(date.getDate() - i);
-    dailyData.push({
-      date: date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
-      clicks: Math.floor(Math.random() * 20) + (i < 7 ? 10 : 5),
-      orders: Math.floor(Math.random() * 5) + (i < 7 ? 2 : 1),
-    });
+  switch (timeRange) {
+    case 'daily': {
+      // Last 7 days for daily view
+      const weekAgoDaily = new Date(startOfToday.getTime() - 7 * 24 * 60 * 60 * 1000);
+      return date >= weekAgoDaily;
+    }
+    case 'weekly': {
+      // Last 28 days for 4-week view
+      const monthAgoWeekly = new Date(startOfToday.getTime() - 28 * 24 * 60 * 60 * 1000);
+      return date >= monthAgoWeekly;
+    }
+    case 'monthly': {
+      // Last 6 months
+      const sixMonthsAgo = new Date(startOfToday.getTime() - 180 * 24 * 60 * 60 * 1000);
+      return date >= sixMonthsAgo;
+    }
+    case 'yearly': {
+      // Last 5 years (all historical data)
+      const fiveYearsAgo = new Date(startOfToday.getTime() - 5 * 365 * 24 * 60 * 60 * 1000);
+      return date >= fiveYearsAgo;
+    }
+    default:
+      return true;
   }
+};
+
+// KPIs and chart buckets computed only from the given conversions, referral
+// link clicks and ledger entries, filtered by merchant and time range
+export const generateAnalyticsData = (
+  { enrollments, conversions: allConversions, clicks: allClicks, ledger }: AnalyticsSources,
+  selectedMerchant: string,
+  timeRange: TimeRange
+): AnalyticsData => {
+  // Filter by merchant if selected
+  let filteredConversions = selectedMerchant === 'all'
+    ? allConversions
+    : allConversions.filter(c => c.merchant === selectedMerchant);
+  
+  // Filter by time range
+  filteredConversions = filteredConversions.filter(c => isDateInRange(c.timestamp, timeRange));
+  // Cancelled and refunded orders stay in the table but don't count as orders
+  const countedConversions = filteredConversions.filter(c => !isReversed(c));
 
+  // Clicks only carry their enrollment, so look up the merchant through it
+  const merchantByEnrollment = new Map(enrollments.map(e => [e.id, e.campaign.merchant]));
+  const filteredClicks = allClicks.filter(c =>
+    (selectedMerchant === 'all' || merchantByEnrollment.get(c.enrollmentId) === selectedMerchant) &&
+    isDateInRange(c.clickedAt, timeRange)
+  );
+  
+  // Calculate totals from filtered conversions and clicks
+  const totalClicks = filteredClicks.length;
+  const totalOrders = countedConversions.length;
+  const balance = summarizeLedger(ledger.filter(entry =>
+    (selectedMerchant === 'all' || entry.merchant === selectedMerchant) &&
+    isDateInRange(entry.earnedAt, timeRange)
+  ));
+  
+  // Generate chart data points based on time range
+  const dailyData: DailyDataPoint[] = [];
+  const now = new Date();
+  
+  let dataPoints: number;
+  let dateFormatter: (date: Date, index: number, total: number) => string;
+  let getDateBucket: (date: Date) => string;
+  
+  switch (timeRange) {
+    case 'daily':
+      dataPoints = 7;
+      dateFormatter = (date) => date.toLocaleDateString('en-US', { weekday: 'short' });
+      getDateBucket = (date) => date.toLocaleDateString('en-US', { weekday: 'short' });
+      break;
+    case 'weekly':
+      dataPoints = 4;
+      dateFormatter = (_, i, total) => `Week ${total - i}`;
+      getDateBucket = (date) => {
+        const weekNum = Math.floor((now.getTime() - date.getTime()) / (7 * 24 * 60 * 60 * 1000));
+        return `Week ${4 - Math.min(weekNum, 3)}`;
+      };
+      break;
+    case 'monthly':
+      dataPoints = 6;
+      dateFormatter = (date) => date.toLocaleDateString('en-US', { month: 'short' });
+      getDateBucket = (date) => date.toLocaleDateString('en-US', { month: 'short' });
+      break;
+    case 'yearly':
+      dataPoints = 5;
+      dateFormatter = (date) => date.getFullYear().toString();
+      getDateBucket = (date) => date.getFullYear().toString();
+      break;
+  }
+  
+  // Create date buckets
+  const buckets = new Map<string, { clicks: number; orders: number; earnings: number }>();
+  
+  for (let i = dataPoints - 1; i >= 0; i--) {
+    const date = new Date(now);
+    switch (timeRange) {
+      case 'daily':
+        date.setDate(date.getDate() - i);
+        break;
+      case 'weekly':
+        date.setDate(date.getDate() - (i * 7));
+        break;
+      case 'monthly':
+        date.setMonth(date.getMonth() - i);
+        break;
+      case 'yearly':
+        date.setFullYear(date.getFullYear() - i);
+        break;
+    }
+    const label = dateFormatter(date, i, dataPoints);
+    buckets.set(label, { clicks: 0, orders: 0, earnings: 0 });
+  }
+  
+  // Aggregate conversions and clicks into buckets
+  countedConversions.forEach(conv => {
+    const bucket = getDateBucket(conv.timestamp);
+    if (buckets.has(bucket)) {
+      buckets.get(bucket)!.orders += 1;
+      buckets.get(bucket)!.earnings += conv.amount;
+    }
+  });
+  filteredClicks.forEach(click => {
+    const bucket = getDateBucket(click.clickedAt);
+    if (buckets.has(bucket)) {
+      buckets.get(bucket)!.clicks += 1;
+    }
+  });
+  
+  // Convert buckets to array
+  buckets.forEach((data, date) => {
+    dailyData.push({
+      date,
+      clicks: data.clicks,
+      orders: data.orders,
+      earnings: Math.round(data.earnings * 100) / 100,
+    });
+  });
+  
   return {
     totalClicks,
     totalOrders,
     conversionRate: totalClicks > 0 ? (totalOrders / totalClicks) * 100 : 0,
-    pendingEarnings: totalEarnings * 0.3,
-    availableEarnings: totalEarnings * 0.7,
+    pendingEarnings: balance.pending,
+    availableEarnings: balance.available,
     dailyData,
-    recentConversions: [
-      { merchant: 'Burger Majlis', amount: 4.50, date: 'Today, 2:30 PM', orderId: 'ORD-8821', timestamp: new Date(), status: 'Paid', clicks: 12 },
-      { merchant: 'Cafe Arabica', amount: 4.00, date: 'Today, 11:15 AM', orderId: 'ORD-8819', timestamp: new Date(Date.now() - 3600000), status: 'Open', clicks: 8 },
-      { merchant: 'Burger Majlis', amount: 4.50, date: 'Yesterday', orderId: 'ORD-8815', timestamp: new Date(Date.now() - 86400000), status: 'Paid', clicks: 15 },
-      { merchant: 'Pizza Palace', amount: 7.20, date: 'Jan 14', orderId: 'ORD-8802', timestamp: new Date(Date.now() - 172800000), status: 'Pending', clicks: 22 },
-      { merchant: 'FreshBox Market', amount: 3.00, date: 'Jan 13', orderId: 'ORD-8798', timestamp: new Date(Date.now() - 259200000), status: 'Paid', clicks: 6 },
-    ]
+    recentConversions: filteredConversions, // Return all for pagination
+    sourceBreakdown: summarizeBySource(countedConversions, filteredClicks),
+  };
+};
+
+// Clicks and orders per traffic source, busiest source first
+export const summarizeBySource = (conversions: ConversionRecord[], clicks: ReferralClick[]): SourceStats[] => {
+  const totals = new Map<string, { clicks: number; orders: number }>();
+  const get = (source: string) => {
+    if (!totals.has(source)) totals.set(source, { clicks: 0, orders: 0 });
+    return totals.get(source)!;
+  };
+  clicks.forEach(c => get(c.source).clicks++);
+  conversions.forEach(c => get(c.source).orders++);
+
+  return [...totals]
+    .map(([source, { clicks, orders }]) => ({
+      source,
+      clicks,
+      orders,
+      conversionRate: clicks > 0 ? (orders / clicks) * 100 : 0,
+    }))
+    .sort((a, b) => b.clicks - a.clicks || b.orders - a.orders);
+};
+
+export const isReversed = (conversion: ConversionRecord): boolean => conversion.reversal !== undefined;
+
+// Performance of one referral link: its recorded clicks and the orders attributed to it,
+// leaving out cancelled and refunded ones
+export const summarizePerformance = (conversions: ConversionRecord[], clicks: number): PerformanceStats => {
+  const counted = conversions.filter(c => !isReversed(c));
+  return {
+    clicks,
+    orders: counted.length,
+    earnings: Math.round(counted.reduce((sum, c) => sum + c.amount, 0) * 100) / 100,
   };
 };
 
+// "Today, 2:30 PM" / "Yesterday, 9:05 AM" / "Jan 14, 3:05 PM"
+export const formatConversionDate = (timestamp: Date, now = new Date()): string => {
+  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const startOfYesterday = new Date(startOfToday.getTime() - 24 * 60 * 60 * 1000);
+  const time = timestamp.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+  if (timestamp >= startOfToday) return `Today, ${time}`;
+  if (timestamp >= startOfYesterday) return `Yesterday, ${time}`;
+  return formatDateTime(timestamp);
+};
+
 // ==================== ENROLLMENT HELPERS ====================
-export const isTerminalState = (status: Enrollment['status']): boolean => {
-  return status === 'approved' || status === 'rejected';
+// "Jan 14, 3:05 PM"
+export const formatDateTime = (date: Date): string =>
+  date.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+// Approved enrollment with a freshly minted referral link, or null if the
+// enrollment is not waiting for a decision. Performance comes from its conversions.
+export const withApproval = (enrollment: Enrollment, takenCodes?: ReadonlySet<string>): Enrollment | null => {
+  const approved = transitionEnrollment(enrollment, 'approved');
+  if (!approved) return null;
+
+  const referralCode = mintReferralCode(takenCodes);
+  return { ...approved, referralCode, referralUrl: buildReferralUrl(referralCode) };
 };
 
-export const nextEnrollmentState = (status: Enrollment['status']): Enrollment['status'] | null => {
-  const stateOrder: Enrollment['status'][] = ['enrolled', 'uploaded', 'processing', 'under-review', 'approved'];
-  const currentIndex = stateOrder.indexOf(status);
-  
-  if (currentIndex === -1 || currentIndex === stateOrder.length - 1) {
-    return null;
-  }
-  
-  return stateOrder[currentIndex + 1];
+export const withRejection = (enrollment: Enrollment, reason: string): Enrollment | null => {
+  const rejected = transitionEnrollment(enrollment, 'rejected', { note: reason });
+  return rejected && { ...rejected, rejectionReason: reason };
+};
+
+// Template text, followed by the reviewer's note when there is one
+export const composeRejectionReason = (template: RejectionReasonTemplate, note: string): string => {
+  const trimmed = note.trim();
+  return trimmed ? `${template.reason}\n\nReviewer note: ${trimmed}` : template.reason;
+};
+
+// ==================== PROFILE HELPERS ====================
+// Bundled avatars are paths under public/, served from BASE_URL; uploaded ones
+// are full URLs (or data URLs without Supabase). null when there is no image.
+export const getAvatarUrl = (avatar: string): string | null => {
+  if (/^(https?:|data:image\/|blob:)/.test(avatar)) return avatar;
+  if (!avatar.startsWith('/')) return null;
+  const baseUrl = import.meta.env.BASE_URL || '/';
+  return baseUrl.endsWith('/') ? baseUrl + avatar.slice(1) : baseUrl + avatar;
 };
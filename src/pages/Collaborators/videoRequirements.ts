@@ -0,0 +1,149 @@
+import type { VideoRequirements, VideoMetadata, VideoCheck } from './types';
+
+/**
+ * Parsing of a campaign's free-text video requirement and checks
+ * of a selected file against it, run before the upload starts.
+ */
+
+// Orientation tolerance, so 1080x1920 and 1088x1920 both count as 9:16
+const ASPECT_RATIO_TOLERANCE = 0.03;
+
+const UNIT_SECONDS: Record<string, number> = { s: 1, sec: 1, secs: 1, second: 1, seconds: 1, m: 60, min: 60, mins: 60, minute: 60, minutes: 60 };
+const UNIT_PATTERN = '(s|secs?|seconds?|m|mins?|minutes?)\\b';
+
+// ==================== PARSING ====================
+// Accepts e.g. "15-45 sec video", "up to 60 seconds", "min 20s", "1-2 min", "9:16", "max 200MB"
+export const parseVideoReq = (videoReq: string): VideoRequirements => {
+  const text = videoReq.toLowerCase();
+  const requirements: VideoRequirements = {};
+
+  const range = text.match(new RegExp(`(\\d+(?:\\.\\d+)?)\\s*(?:-|–|to)\\s*(\\d+(?:\\.\\d+)?)\\s*${UNIT_PATTERN}`));
+  if (range) {
+    const unit = UNIT_SECONDS[range[3]];
+    requirements.minDurationSec = Number(range[1]) * unit;
+    requirements.maxDurationSec = Number(range[2]) * unit;
+  } else {
+    const max = text.match(new RegExp(`(?:up to|max(?:imum)?|under|<)\\s*(\\d+(?:\\.\\d+)?)\\s*${UNIT_PATTERN}`));
+    if (max) requirements.maxDurationSec = Number(max[1]) * UNIT_SECONDS[max[2]];
+
+    const min = text.match(new RegExp(`(?:at least|min(?:imum)?|over|>)\\s*(\\d+(?:\\.\\d+)?)\\s*${UNIT_PATTERN}`));
+    if (min) requirements.minDurationSec = Number(min[1]) * UNIT_SECONDS[min[2]];
+  }
+
+  const ratio = text.match(/\b(\d{1,2})\s*:\s*(\d{1,2})\b/);
+  if (ratio && Number(ratio[1]) > 0 && Number(ratio[2]) > 0) {
+    requirements.aspectRatio = { width: Number(ratio[1]), height: Number(ratio[2]) };
+  } else if (/\bvertical\b|\bportrait\b/.test(text)) {
+    requirements.aspectRatio = { width: 9, height: 16 };
+  }
+
+  const size = text.match(/(\d+(?:\.\d+)?)\s*(mb|gb)\b/);
+  if (size) requirements.maxSizeMB = Number(size[1]) * (size[2] === 'gb' ? 1024 : 1);
+
+  return requirements;
+};
+
+const formatDuration = (seconds: number): string => {
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  const minutes = Math.floor(seconds / 60);
+  const rest = Math.round(seconds % 60);
+  return rest > 0 ? `${minutes}m ${rest}s` : `${minutes}m`;
+};
+
+// "15-45s · 9:16 · max 200 MB", shown next to the upload button
+export const describeVideoRequirements = (requirements: VideoRequirements): string => {
+  const parts: string[] = [];
+  const { minDurationSec, maxDurationSec, aspectRatio, maxSizeMB } = requirements;
+
+  if (minDurationSec !== undefined && maxDurationSec !== undefined) {
+    parts.push(`${formatDuration(minDurationSec)} – ${formatDuration(maxDurationSec)}`);
+  } else if (maxDurationSec !== undefined) {
+    parts.push(`up to ${formatDuration(maxDurationSec)}`);
+  } else if (minDurationSec !== undefined) {
+    parts.push(`at least ${formatDuration(minDurationSec)}`);
+  }
+  if (aspectRatio) parts.push(`${aspectRatio.width}:${aspectRatio.height}`);
+  if (maxSizeMB !== undefined) parts.push(`max ${maxSizeMB} MB`);
+
+  return parts.join(' · ');
+};
+
+// ==================== METADATA ====================
+// Load only the file's metadata into a detached video element.
+// Resolves null when the browser can't decode the file.
+export const readVideoMetadata = (file: File): Promise<VideoMetadata | null> =>
+  new Promise(resolve => {
+    const url = URL.createObjectURL(file);
+    const video = document.createElement('video');
+
+    const finish = (metadata: VideoMetadata | null) => {
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(url);
+      resolve(metadata);
+    };
+
+    video.preload = 'metadata';
+    video.muted = true;
+    video.onloadedmetadata = () => finish(
+      Number.isFinite(video.duration)
+        ? { durationSec: video.duration, width: video.videoWidth, height: video.videoHeight }
+        : null
+    );
+    video.onerror = () => finish(null);
+    video.src = url;
+  });
+
+// ==================== CHECKS ====================
+export const checkVideo = (
+  file: File,
+  metadata: VideoMetadata | null,
+  requirements: VideoRequirements,
+): VideoCheck[] => {
+  const checks: VideoCheck[] = [{
+    id: 'format',
+    label: 'Playable video file',
+    passed: metadata !== null,
+    detail: metadata
+      ? `${metadata.width}×${metadata.height}`
+      : `${file.name} could not be read as a video`,
+  }];
+  // The remaining checks need the metadata
+  if (!metadata) return checks;
+
+  const { minDurationSec, maxDurationSec, aspectRatio, maxSizeMB } = requirements;
+
+  if (minDurationSec !== undefined || maxDurationSec !== undefined) {
+    const tooShort = minDurationSec !== undefined && metadata.durationSec < minDurationSec;
+    const tooLong = maxDurationSec !== undefined && metadata.durationSec > maxDurationSec;
+    checks.push({
+      id: 'duration',
+      label: `Length ${describeVideoRequirements({ minDurationSec, maxDurationSec })}`,
+      passed: !tooShort && !tooLong,
+      detail: `Your clip is ${formatDuration(metadata.durationSec)}${tooShort ? ' (too short)' : tooLong ? ' (too long)' : ''}`,
+    });
+  }
+
+  if (aspectRatio) {
+    const expected = aspectRatio.width / aspectRatio.height;
+    const actual = metadata.height > 0 ? metadata.width / metadata.height : 0;
+    checks.push({
+      id: 'aspect-ratio',
+      label: `${aspectRatio.width}:${aspectRatio.height} aspect ratio`,
+      passed: Math.abs(actual - expected) / expected <= ASPECT_RATIO_TOLERANCE,
+      detail: `Your clip is ${metadata.width}×${metadata.height}`,
+    });
+  }
+
+  if (maxSizeMB !== undefined) {
+    const sizeMB = file.size / 1024 / 1024;
+    checks.push({
+      id: 'size',
+      label: `File size up to ${maxSizeMB} MB`,
+      passed: sizeMB <= maxSizeMB,
+      detail: `Your file is ${sizeMB.toFixed(1)} MB`,
+    });
+  }
+
+  return checks;
+};
@@ -0,0 +1,144 @@
+import type {
+  CampaignXP,
+  CollaboratorProfile,
+  ConversionRecord,
+  Enrollment,
+  Tier,
+  XPEvent,
+  XPSummary,
+} from './types';
+import { XP_CONFIG } from './constants';
+import { getTierAt, getTierStanding } from './seasons';
+import { enteredCurrentStatusAt, getSubmissionCount } from './enrollmentStateMachine';
+
+/**
+ * XP engine: awards XP events for approvals and conversions using XP_CONFIG,
+ * and derives every XP figure (totals, monthly XP, top campaigns) from the
+ * resulting log instead of keeping separate counters.
+ */
+
+const applyTierMultiplier = (xp: number, tier: Tier): number =>
+  Math.round(xp * XP_CONFIG.tierMultipliers[tier]);
+
+// Full bonus on the first attempt, shrinking with each resubmission
+export const getQualityBonus = (submissions: number): number =>
+  Math.round(XP_CONFIG.qualityBonus / Math.max(submissions, 1));
+
+// ==================== AWARDING ====================
+// Events earned by a collaborator's approved enrollments and their conversions, oldest first.
+// Each award uses the tier the collaborator held when it was earned.
+export const buildXPEvents = (
+  collaboratorId: string,
+  enrollments: Enrollment[],
+  conversions: ConversionRecord[],
+): XPEvent[] => {
+  const approvals = enrollments
+    .filter(e => e.status === 'approved')
+    .map(enrollment => ({ enrollment, at: enteredCurrentStatusAt(enrollment) }))
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+  const approvalTimes = approvals.map(approval => approval.at);
+
+  const events: XPEvent[] = [];
+
+  approvals.forEach(({ enrollment, at }, index) => {
+    const tier = getTierAt(approvalTimes.slice(0, index), at); // Before this approval counts
+    const source = {
+      collaboratorId,
+      at,
+      enrollmentId: enrollment.id,
+      merchant: enrollment.campaign.merchant,
+      logo: enrollment.campaign.logo,
+    };
+    events.push({ ...source, id: `xp-approval-${enrollment.id}`, kind: 'approval', xp: applyTierMultiplier(XP_CONFIG.baseApprovalXP, tier) });
+
+    const bonus = getQualityBonus(getSubmissionCount(enrollment));
+    if (bonus > 0) {
+      events.push({ ...source, id: `xp-quality-${enrollment.id}`, kind: 'quality-bonus', xp: applyTierMultiplier(bonus, tier) });
+    }
+
+    // Conversions add engagement XP up to the per-approval cap; a reversal
+    // takes its order's XP back and frees that room for later orders
+    const steps = conversions
+      .filter(c => c.enrollmentId === enrollment.id)
+      .flatMap(conversion => [
+        { conversion, at: conversion.timestamp, isReversal: false },
+        ...(conversion.reversal ? [{ conversion, at: conversion.reversal.at, isReversal: true }] : []),
+      ])
+      .sort((a, b) => a.at.getTime() - b.at.getTime());
+
+    let engagement = 0;
+    const awarded = new Map<string, { base: number; xp: number }>();
+    steps.forEach(({ conversion, at: stepAt, isReversal }) => {
+      const step = { ...source, at: stepAt, orderId: conversion.orderId };
+      if (isReversal) {
+        const award = awarded.get(conversion.orderId);
+        if (!award) return;
+        engagement -= award.base;
+        events.push({ ...step, id: `xp-reversal-${conversion.orderId}`, kind: 'reversal', xp: -award.xp });
+        return;
+      }
+
+      const base = Math.min(XP_CONFIG.conversionXP, XP_CONFIG.maxEngagementBonus - engagement);
+      if (base <= 0) return;
+      engagement += base;
+      const xp = applyTierMultiplier(base, getTierAt(approvalTimes, stepAt));
+      awarded.set(conversion.orderId, { base, xp });
+      events.push({ ...step, id: `xp-conversion-${conversion.orderId}`, kind: 'conversion', xp });
+    });
+  });
+
+  return events.sort((a, b) => a.at.getTime() - b.at.getTime());
+};
+
+// The log is append-only: stored events win, newly derived ones are added, oldest first
+export const mergeXPLog = (stored: XPEvent[], derived: XPEvent[]): XPEvent[] => {
+  const storedIds = new Set(stored.map(e => e.id));
+  return [...stored, ...derived.filter(e => !storedIds.has(e.id))]
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+};
+
+// ==================== DERIVED FIGURES ====================
+export const sumXP = (events: XPEvent[]): number => events.reduce((sum, e) => sum + e.xp, 0);
+
+export const getMonthStart = (now = new Date()): Date => new Date(now.getFullYear(), now.getMonth(), 1);
+
+export const getTopCampaigns = (events: XPEvent[], limit = 3): CampaignXP[] => {
+  const byMerchant = new Map<string, CampaignXP>();
+  events.forEach(e => {
+    const campaign = byMerchant.get(e.merchant) ?? { merchant: e.merchant, logo: e.logo, xp: 0 };
+    byMerchant.set(e.merchant, { ...campaign, xp: campaign.xp + e.xp });
+  });
+  return [...byMerchant.values()]
+    .filter(c => c.xp > 0)
+    .sort((a, b) => b.xp - a.xp)
+    .slice(0, limit);
+};
+
+export const summarizeXP = (events: XPEvent[], now = new Date()): XPSummary => {
+  const monthStart = getMonthStart(now);
+  const thisMonth = events.filter(e => e.at >= monthStart && e.at <= now);
+  const countApprovals = (list: XPEvent[]) => list.filter(e => e.kind === 'approval').length;
+
+  return {
+    totalXP: sumXP(events),
+    monthlyXP: sumXP(thisMonth),
+    approvals: countApprovals(events),
+    monthlyApprovals: countApprovals(thisMonth),
+    topCampaigns: getTopCampaigns(events),
+  };
+};
+
+export const getApprovalTimes = (events: XPEvent[]): Date[] =>
+  events.filter(e => e.kind === 'approval').map(e => e.at);
+
+// Profiles show what their log adds up to, including the seasonal tier;
+// without a log they keep the stored figures
+export const withXPFromLog = (profile: CollaboratorProfile, events: XPEvent[], now = new Date()): CollaboratorProfile =>
+  events.length === 0
+    ? profile
+    : {
+      ...profile,
+      tier: getTierStanding(getApprovalTimes(events), now).tier,
+      totalXP: sumXP(events),
+      topCampaigns: getTopCampaigns(events),
+    };
@@ -0,0 +1,101 @@
+import type { CampaignXP, CollaboratorProfile, XPEvent } from './types';
+import { XP_CONFIG, campaigns } from './constants';
+import { createSeededRandom, hashString } from './seededRandom';
+
+/**
+ * Seeded XP logs for collaborators that have no stored events, so leaderboard
+ * figures are still derived from a log. Each log adds up to the profile's
+ * totalXP and topCampaigns, with approvedCount approval events and the rest
+ * as conversion XP, spread from the join date to now and weighted to recent weeks.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// "Oct 2025" -> Oct 1, 2025
+const parseJoinedDate = (joinedDate: string): Date | null => {
+  const match = joinedDate.match(/^([A-Za-z]{3})\w*\s+(\d{4})$/);
+  const month = match ? MONTHS.indexOf(match[1]) : -1;
+  return match && month !== -1 ? new Date(Number(match[2]), month, 1) : null;
+};
+
+// The profile's top campaigns, plus other merchants for XP outside them
+const allocateCampaignXP = (profile: CollaboratorProfile): CampaignXP[] => {
+  const topTotal = profile.topCampaigns.reduce((sum, c) => sum + c.xp, 0);
+  // Some profiles list more campaign XP than they have in total; scale those down to fit
+  const scale = topTotal > profile.totalXP ? profile.totalXP / topTotal : 1;
+  const allocations = profile.topCampaigns.map(c => ({ ...c, xp: Math.floor(c.xp * scale) }));
+  let rest = profile.totalXP - allocations.reduce((sum, c) => sum + c.xp, 0);
+  if (scale < 1 && allocations.length > 0) {
+    allocations[0].xp += rest;
+    rest = 0;
+  }
+  // Keep the other merchants below the smallest top campaign
+  const chunk = Math.max(
+    1,
+    allocations.length > 0 ? Math.floor(Math.min(...allocations.map(c => c.xp)) * 0.8) : Math.ceil(rest / 3),
+  );
+
+  const others = campaigns.filter(c => !allocations.some(a => a.merchant === c.merchant));
+  others.forEach((campaign, i) => {
+    if (rest <= 0) return;
+    const xp = i === others.length - 1 ? rest : Math.min(rest, chunk);
+    allocations.push({ merchant: campaign.merchant, logo: campaign.logo, xp });
+    rest -= xp;
+  });
+
+  return allocations;
+};
+
+export const generateCollaboratorXPEvents = (profile: CollaboratorProfile, now = new Date()): XPEvent[] => {
+  const random = createSeededRandom(hashString(`${profile.id}:xp`));
+  const joinedAt = Math.min(
+    parseJoinedDate(profile.joinedDate)?.getTime() ?? now.getTime() - 90 * DAY_MS,
+    now.getTime() - DAY_MS,
+  );
+  // sqrt skews times toward `now`, like a growing creator
+  const timeAfter = (from: number) => new Date(from + (now.getTime() - from) * Math.sqrt(random()));
+
+  const multiplier = XP_CONFIG.tierMultipliers[profile.tier];
+  const approvalXP = Math.round(XP_CONFIG.baseApprovalXP * multiplier);
+  const conversionXP = Math.round(XP_CONFIG.conversionXP * multiplier);
+
+  const allocations = allocateCampaignXP(profile);
+  const remaining = allocations.map(c => c.xp);
+  const firstApprovalAt = new Map<number, number>();
+  const events: XPEvent[] = [];
+
+  const addEvent = (index: number, event: Pick<XPEvent, 'id' | 'kind' | 'xp' | 'at'>) => events.push({
+    ...event,
+    collaboratorId: profile.id,
+    enrollmentId: `${profile.id}-enrollment-${index + 1}`,
+    merchant: allocations[index].merchant,
+    logo: allocations[index].logo,
+  });
+
+  // Approvals go to campaigns with room left, weighted by how much XP they still hold
+  for (let i = 0; i < profile.approvedCount; i++) {
+    const candidates = remaining.flatMap((xp, index) => (xp >= approvalXP ? [index] : []));
+    if (candidates.length === 0) break;
+
+    let pick = random() * candidates.reduce((sum, index) => sum + remaining[index], 0);
+    const index = candidates.find(candidate => (pick -= remaining[candidate]) <= 0) ?? candidates[candidates.length - 1];
+    remaining[index] -= approvalXP;
+
+    const at = timeAfter(joinedAt);
+    firstApprovalAt.set(index, Math.min(firstApprovalAt.get(index) ?? Infinity, at.getTime()));
+    addEvent(index, { id: `xp-approval-${profile.id}-${i + 1}`, kind: 'approval', xp: approvalXP, at });
+  }
+
+  // The rest of each campaign's XP comes from conversions after its first approval
+  remaining.forEach((xpLeft, index) => {
+    const from = firstApprovalAt.get(index) ?? joinedAt;
+    for (let n = 1; xpLeft > 0; n++) {
+      const xp = Math.min(conversionXP, xpLeft);
+      xpLeft -= xp;
+      addEvent(index, { id: `xp-conversion-${profile.id}-${index + 1}-${n}`, kind: 'conversion', xp, at: timeAfter(from) });
+    }
+  });
+
+  return events.sort((a, b) => a.at.getTime() - b.at.getTime());
+};